@@ -4,7 +4,12 @@ import { fileURLToPath } from 'node:url';
 import Fastify from 'fastify';
 import fastifyStatic from '@fastify/static';
 import type { HereService } from './here/index.js';
-import { registerRouteFactsRoutes, registerQuoteRoutes } from './routes/index.js';
+import {
+  registerRouteFactsRoutes,
+  registerQuoteRoutes,
+  registerAdminRoutes,
+  registerVehicleProfileRoutes,
+} from './routes/index.js';
 import { ApiError, toApiError, sanitizeErrorMessage } from './errors.js';
 
 // Request timeout in milliseconds (30 seconds)
@@ -22,6 +27,12 @@ export interface AppOptions {
   requestTimeoutMs?: number;
   /** Serve the built frontend from web/dist if present (default true) */
   serveFrontend?: boolean;
+  /** Enables /api/admin endpoints guarded by this bearer token */
+  adminToken?: string;
+  /** File admin uploads of the fuel index are persisted to */
+  fuelIndexPath?: string;
+  /** File admin uploads of exchange rates are persisted to */
+  exchangeRatesPath?: string;
 }
 
 export function buildApp(options: AppOptions = {}) {
@@ -74,12 +85,23 @@ export function buildApp(options: AppOptions = {}) {
     return { ok: true, service: 'tmtcalc' };
   });
 
+  registerVehicleProfileRoutes(app);
+
   // Register API routes if HERE service is available
   if (options.hereService) {
     registerRouteFactsRoutes(app, options.hereService);
     registerQuoteRoutes(app, options.hereService);
   }
 
+  // Admin endpoints only exist when an admin token is configured
+  if (options.adminToken) {
+    registerAdminRoutes(app, {
+      adminToken: options.adminToken,
+      fuelIndexPath: options.fuelIndexPath,
+      exchangeRatesPath: options.exchangeRatesPath,
+    });
+  }
+
   // Serve the built frontend (web/dist) when it exists, so a production
   // deployment is a single process: same origin for UI and API, no CORS.
   if ((options.serveFrontend ?? true) && existsSync(WEB_DIST_DIR)) {
@@ -4,4 +4,16 @@ export const config = {
   port: parseInt(process.env.PORT || '3000', 10),
   host: process.env.HOST || '0.0.0.0',
   hereApiKey: process.env.HERE_API_KEY || '',
+  /** Bearer token for /api/admin endpoints (admin endpoints disabled when empty) */
+  adminToken: process.env.ADMIN_TOKEN || '',
+  /** Local JSON file holding the diesel fuel index */
+  fuelIndexPath: process.env.FUEL_INDEX_PATH || 'data/fuel-index.json',
+  /** Local JSON file holding EUR exchange rates */
+  exchangeRatesPath: process.env.EXCHANGE_RATES_PATH || 'data/exchange-rates.json',
+  /** JSON file with market models, reloaded on change (built-in models when empty) */
+  marketModelsPath: process.env.MARKET_MODELS_PATH || '',
+  /** JSON file with customer contract rate cards, reloaded on change (none when empty) */
+  rateCardsPath: process.env.RATE_CARDS_PATH || '',
+  /** JSON file with named country groups for lanes, reloaded on change (built-in groups when empty) */
+  countryGroupsPath: process.env.COUNTRY_GROUPS_PATH || '',
 } as const;
@@ -2,6 +2,8 @@
  * Standardized API error types and utilities
  */
 
+import { NoExchangeRateError, NoPricingModelError, ShipmentCapacityError } from './pricing/errors.js';
+
 /**
  * Error codes for API responses
  */
@@ -11,7 +13,10 @@ export type ApiErrorCode =
   | 'INTERNAL_ERROR'
   | 'TIMEOUT_ERROR'
   | 'NOT_FOUND'
-  | 'NO_MODEL_AVAILABLE';
+  | 'UNAUTHORIZED'
+  | 'NO_MODEL_AVAILABLE'
+  | 'NO_EXCHANGE_RATE'
+  | 'CAPACITY_EXCEEDED';
 
 /**
  * Standardized error response structure
@@ -89,8 +94,20 @@ export function toApiError(error: unknown): ApiError {
   const sanitizedMessage = sanitizeErrorMessage(message);
 
   // Check for specific error types
-  if (message.includes('No pricing model found')) {
-    return new ApiError('NO_MODEL_AVAILABLE', sanitizedMessage, 400);
+  if (error instanceof NoPricingModelError) {
+    // Candidate models and why each was rejected
+    return new ApiError('NO_MODEL_AVAILABLE', sanitizedMessage, 400, error.selection);
+  }
+
+  if (error instanceof ShipmentCapacityError) {
+    return new ApiError('CAPACITY_EXCEEDED', sanitizedMessage, 400, {
+      vehicleProfileId: error.vehicleProfileId,
+      exceeded: error.exceeded,
+    });
+  }
+
+  if (error instanceof NoExchangeRateError) {
+    return new ApiError('NO_EXCHANGE_RATE', sanitizedMessage, 400);
   }
 
   if (isUpstreamError(error)) {
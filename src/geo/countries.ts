@@ -0,0 +1,118 @@
+/**
+ * Country-code normalization and country sets shared by the HERE, pricing
+ * and routes layers
+ *
+ * RouteFacts geography is always exposed as ISO 3166-1 alpha-2 (PL, IT, DE, GB).
+ * HERE geocoding returns alpha-3 (POL, ITA, DEU, GBR), so codes are converted here.
+ */
+
+/**
+ * ISO 3166-1 alpha-3 to alpha-2 country code mapping
+ */
+const ALPHA3_TO_ALPHA2: Record<string, string> = {
+  // EU member states
+  AUT: 'AT', BEL: 'BE', BGR: 'BG', HRV: 'HR', CYP: 'CY',
+  CZE: 'CZ', DNK: 'DK', EST: 'EE', FIN: 'FI', FRA: 'FR',
+  DEU: 'DE', GRC: 'GR', HUN: 'HU', IRL: 'IE', ITA: 'IT',
+  LVA: 'LV', LTU: 'LT', LUX: 'LU', MLT: 'MT', NLD: 'NL',
+  POL: 'PL', PRT: 'PT', ROU: 'RO', SVK: 'SK', SVN: 'SI',
+  ESP: 'ES', SWE: 'SE',
+  // Non-EU European countries
+  GBR: 'GB', NOR: 'NO', CHE: 'CH', ISL: 'IS', LIE: 'LI',
+  // Additional commonly used
+  UKR: 'UA', BLR: 'BY', MDA: 'MD', SRB: 'RS', MKD: 'MK',
+  ALB: 'AL', MNE: 'ME', BIH: 'BA', XKX: 'XK', AND: 'AD',
+  MCO: 'MC', SMR: 'SM', VAT: 'VA', TUR: 'TR', RUS: 'RU',
+};
+
+/**
+ * Convert country code to ISO alpha-2 format
+ * - Normalizes 'UK' to 'GB' (ISO standard)
+ * - If already alpha-2 (2 chars), returns uppercase
+ * - If alpha-3 (3 chars), converts using mapping
+ * - Returns null if unknown
+ */
+export function toAlpha2(countryCode: string | null): string | null {
+  if (!countryCode) return null;
+
+  const normalized = countryCode.toUpperCase().trim();
+
+  // Special case: UK -> GB (ISO standard is GB for United Kingdom)
+  if (normalized === 'UK') {
+    return 'GB';
+  }
+
+  // Already alpha-2
+  if (normalized.length === 2) {
+    return normalized;
+  }
+
+  // Alpha-3 - convert to alpha-2
+  if (normalized.length === 3) {
+    return ALPHA3_TO_ALPHA2[normalized] ?? null;
+  }
+
+  // Unknown format
+  return null;
+}
+
+/**
+ * Check if a country code represents the United Kingdom
+ * Handles GB, GBR, and UK variants
+ */
+export function isUkCode(countryCode: string | null): boolean {
+  if (!countryCode) return false;
+  const normalized = countryCode.toUpperCase().trim();
+  return normalized === 'GB' || normalized === 'GBR' || normalized === 'UK';
+}
+
+/**
+ * EU member state country codes (ISO 3166-1 alpha-2)
+ */
+export const EU_COUNTRIES = new Set([
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR',
+  'DE', 'GR', 'HU', 'IE', 'IT', 'LV', 'LT', 'LU', 'MT', 'NL',
+  'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE',
+]);
+
+/**
+ * Check if a country is in the EU (expects alpha-2 code)
+ */
+export function isEuCountry(countryCode: string | null): boolean {
+  if (!countryCode) return false;
+  return EU_COUNTRIES.has(countryCode);
+}
+
+// Region sets in alpha-2 and alpha-3 (HERE toll data uses alpha-3)
+const SCANDINAVIA_COUNTRIES = new Set(['SWE', 'NOR', 'DNK', 'FIN', 'SE', 'NO', 'DK', 'FI']);
+const BALTIC_COUNTRIES = new Set(['LTU', 'LVA', 'EST', 'LT', 'LV', 'EE']);
+
+// Island destinations (best-effort heuristics)
+const ISLAND_COUNTRIES = new Set([
+  'GBR', 'GB', 'UK', // Great Britain
+  'IRL', 'IE', // Ireland
+  'ISL', 'IS', // Iceland
+  'CYP', 'CY', // Cyprus
+  'MLT', 'MT', // Malta
+]);
+
+/**
+ * Check if a country is in Scandinavia (alpha-2 or alpha-3)
+ */
+export function isScandinavia(country: string): boolean {
+  return SCANDINAVIA_COUNTRIES.has(country.toUpperCase().trim());
+}
+
+/**
+ * Check if a country is in the Baltic region (alpha-2 or alpha-3)
+ */
+export function isBaltic(country: string): boolean {
+  return BALTIC_COUNTRIES.has(country.toUpperCase().trim());
+}
+
+/**
+ * Check if a country is an island nation (alpha-2 or alpha-3)
+ */
+export function isIslandCountry(country: string): boolean {
+  return ISLAND_COUNTRIES.has(country.toUpperCase().trim());
+}
@@ -0,0 +1,65 @@
+/**
+ * English Channel crossing options for UK routes
+ * Each crossing is a separate HERE route that avoids the other one: Le Shuttle
+ * through the Channel Tunnel is a car shuttle train in HERE Routing API v8.
+ */
+
+import { haversineDistanceKm } from './flexible-polyline.js';
+import { FERRY_PORT_MATCH_RADIUS_KM, type FerryCrossingDefinition } from './ferry-crossings.js';
+import type { HereAvoidFeature } from './route-truck.js';
+
+/**
+ * Crossing preference of a quote request
+ * - ferry / tunnel: route through that crossing only
+ * - cheapest: price both, quote the cheaper one
+ * - both: price both and return both
+ */
+export const CHANNEL_CROSSINGS = ['ferry', 'tunnel', 'cheapest', 'both'] as const;
+
+export type ChannelCrossing = (typeof CHANNEL_CROSSINGS)[number];
+
+/**
+ * Crossing a single route is forced through
+ */
+export type ChannelRoute = 'ferry' | 'tunnel';
+
+/**
+ * HERE features to avoid so a route takes the given crossing
+ */
+export const CHANNEL_ROUTE_AVOID_FEATURES: Record<ChannelRoute, HereAvoidFeature[]> = {
+  ferry: ['carShuttleTrain'],
+  tunnel: ['ferry'],
+};
+
+/**
+ * Le Shuttle Freight through the Channel Tunnel, priced like a registry ferry crossing
+ * Terminals are the Folkestone and Coquelles (Calais) loading platforms.
+ */
+export const CHANNEL_TUNNEL: FerryCrossingDefinition = {
+  name: 'Le Shuttle Folkestone – Calais',
+  ports: [
+    { name: 'Folkestone', country: 'GB', lat: 51.094, lng: 1.135 },
+    { name: 'Calais (Coquelles)', country: 'FR', lat: 50.928, lng: 1.81 },
+  ],
+  durationHours: 0.6,
+  costs: { van_8ep: 180, solo_18t_23ep: 320, ftl_13_6_33ep: 420, ftl_mega_13_6_33ep: 420, ftl_reefer_13_6_33ep: 460 },
+};
+
+/**
+ * Whether a car shuttle train section runs between the Channel Tunnel terminals
+ */
+export function isChannelTunnelShuttle(
+  departure: { lat: number; lng: number },
+  arrival: { lat: number; lng: number }
+): boolean {
+  const nearTerminal = (point: { lat: number; lng: number }) =>
+    CHANNEL_TUNNEL.ports.some((terminal) => haversineDistanceKm(point, terminal) <= FERRY_PORT_MATCH_RADIUS_KM);
+  return nearTerminal(departure) && nearTerminal(arrival);
+}
+
+/**
+ * Routes to request for a crossing preference, ferry first
+ */
+export function channelRoutesFor(preference: ChannelCrossing): ChannelRoute[] {
+  return preference === 'ferry' || preference === 'tunnel' ? [preference] : ['ferry', 'tunnel'];
+}
@@ -441,14 +441,39 @@ describe('extractRouteFactsFromHere', () => {
 
       expect(result.route.distanceKm).toBe(574);
       expect(result.route.durationHours).toBe(6.5);
+      expect(result.route.baseDurationHours).toBe(6);
+      expect(result.route.typicalDurationHours).toBeNull();
       expect(result.route.sections).toBe(1);
     });
 
+    it('sums the typical duration when every driving section reports it', () => {
+      const withTypical = (sections: HereRouteSection[]): HereRoutingResponse => ({
+        routes: [{ ...routeWithFerry.routes[0], sections }],
+      });
+      const sections = routeWithFerry.routes[0].sections;
+
+      // The ferry section reports no typical duration and adds its 1.5h crossing
+      const result = extractRouteFactsFromHere(withTypical(
+        sections.map((section) =>
+          section.type === 'ferry' ? section : { ...section, summary: { ...section.summary, typicalDuration: 3600 } }
+        )
+      ));
+      expect(result.route.typicalDurationHours).toBe(3.5);
+
+      const partial = extractRouteFactsFromHere(withTypical(
+        sections.map((section, index) =>
+          index === 0 ? { ...section, summary: { ...section.summary, typicalDuration: 3600 } } : section
+        )
+      ));
+      expect(partial.route.typicalDurationHours).toBeNull();
+    });
+
     it('has no infrastructure flags set', () => {
       const result = extractRouteFactsFromHere(simpleEuLandRoute);
 
       expect(result.infrastructure.hasFerry).toBe(false);
       expect(result.infrastructure.ferrySegments).toBe(0);
+      expect(result.infrastructure.ferryCrossings).toEqual([]);
       expect(result.infrastructure.hasTollRoads).toBe(false);
       expect(result.infrastructure.hasTunnel).toBe(false);
     });
@@ -469,6 +494,14 @@ describe('extractRouteFactsFromHere', () => {
       expect(result.infrastructure.ferrySegments).toBeGreaterThan(0);
     });
 
+    it('identifies the crossing from the ferry section departure and arrival', () => {
+      const result = extractRouteFactsFromHere(routeWithFerry);
+
+      expect(result.infrastructure.ferryCrossings).toEqual([
+        { crossingId: 'calais-dover', name: 'Calais – Dover', durationHours: 1.5, departsAfterHours: 2 },
+      ]);
+    });
+
     it('calculates total distance across all sections', () => {
       const result = extractRouteFactsFromHere(routeWithFerry);
 
@@ -492,6 +525,42 @@ describe('extractRouteFactsFromHere', () => {
       // France is not an island, so isIsland should be false
       expect(result.riskFlags.isIsland).toBe(false);
     });
+
+    it('does not report the Channel Tunnel for the ferry crossing', () => {
+      const result = extractRouteFactsFromHere(routeWithFerry);
+
+      expect(result.infrastructure.hasChannelTunnel).toBe(false);
+    });
+  });
+
+  describe('route through the Channel Tunnel', () => {
+    function withShuttle(departure: { lat: number; lng: number }): HereRoutingResponse {
+      const [before, , after] = routeWithFerry.routes[0].sections;
+      const shuttle: HereRouteSection = {
+        id: 'section-2',
+        type: 'transit',
+        departure: { time: '2024-01-15T08:00:00Z', place: { type: 'place', location: departure } },
+        arrival: { time: '2024-01-15T08:35:00Z', place: { type: 'place', location: { lat: 50.9297, lng: 1.8125 } } },
+        summary: { duration: 2100, length: 53000, baseDuration: 2100 },
+        transport: { mode: 'carShuttleTrain' },
+      };
+      return { routes: [{ ...routeWithFerry.routes[0], sections: [before, shuttle, after] }] };
+    }
+
+    it('detects Le Shuttle from a car shuttle train section between the terminals', () => {
+      const result = extractRouteFactsFromHere(withShuttle({ lat: 51.0958, lng: 1.1368 }));
+
+      expect(result.infrastructure.hasChannelTunnel).toBe(true);
+      expect(result.infrastructure.hasFerry).toBe(false);
+      expect(result.infrastructure.ferryCrossings).toEqual([]);
+    });
+
+    it('ignores car shuttle trains elsewhere', () => {
+      // Tauern rail shuttle, Böckstein
+      const result = extractRouteFactsFromHere(withShuttle({ lat: 47.0734, lng: 13.1167 }));
+
+      expect(result.infrastructure.hasChannelTunnel).toBe(false);
+    });
   });
 
   describe('route with tolls', () => {
@@ -511,6 +580,46 @@ describe('extractRouteFactsFromHere', () => {
       expect(result.infrastructure.tollCostEstimate).toBe(103.3);
     });
 
+    it('sums HERE-converted fares for non-EUR tolls', () => {
+      const response = structuredClone(routeWithTolls);
+      const tolls = response.routes[0].sections[0].tolls![0].tolls;
+      tolls.push({
+        countryCode: 'CHE',
+        tollSystem: 'LSVA',
+        fares: [
+          {
+            id: 'fare-ch-1',
+            price: { type: 'total', value: '100.00', currency: 'CHF' },
+            convertedPrice: { type: 'total', value: '106.50', currency: 'EUR' },
+          },
+        ],
+      });
+
+      const result = extractRouteFactsFromHere(response);
+
+      // 103.30 + 106.50 (converted, not the raw 100 CHF)
+      expect(result.infrastructure.tollCostEstimate).toBe(209.8);
+      expect(result.raw.warnings).toEqual([]);
+    });
+
+    it('excludes non-EUR fares without conversion and warns', () => {
+      const response = structuredClone(routeWithTolls);
+      const tolls = response.routes[0].sections[0].tolls![0].tolls;
+      tolls.push({
+        countryCode: 'NOR',
+        tollSystem: 'AutoPASS',
+        fares: [{ id: 'fare-no-1', price: { type: 'total', value: '450.00', currency: 'NOK' } }],
+      });
+
+      const result = extractRouteFactsFromHere(response);
+
+      expect(result.infrastructure.tollCostEstimate).toBe(103.3);
+      expect(result.raw.warnings).toContainEqual({
+        code: 'tollCurrencyNotConverted',
+        message: 'Toll fares in NOK could not be converted to EUR and are excluded from tollCostEstimate',
+      });
+    });
+
     it('extracts countries crossed from toll data', () => {
       const result = extractRouteFactsFromHere(routeWithTolls);
 
@@ -5,6 +5,7 @@
 import {
   type RouteFacts,
   type Tunnel,
+  type FerryCrossing,
   type Warning,
   createRouteFacts,
 } from '../types/route-facts.js';
@@ -16,12 +17,16 @@ import type {
   HereNotice,
   HereToll,
 } from './route-truck.js';
+import { TOLL_CURRENCY } from './route-truck.js';
 import {
   decodeFlexiblePolyline,
   checkAlpsTunnels,
   type AlpsTunnelCheckResult,
   type AlpsMatchReason,
 } from './flexible-polyline.js';
+import { FERRY_CROSSINGS, findFerryCrossing } from './ferry-crossings.js';
+import { isChannelTunnelShuttle } from './channel-crossing.js';
+import { isBaltic, isIslandCountry, isScandinavia } from '../geo/countries.js';
 
 /**
  * Safely convert a value to lowercase string
@@ -54,9 +59,15 @@ function asArray<T>(value: unknown): T[] {
   return Array.isArray(value) ? value : [];
 }
 
-// Country code sets for risk flag detection
-const SCANDINAVIA_COUNTRIES = new Set(['SWE', 'NOR', 'DNK', 'FIN', 'SE', 'NO', 'DK', 'FI']);
-const BALTIC_COUNTRIES = new Set(['LTU', 'LVA', 'EST', 'LT', 'LV', 'EE']);
+/**
+ * Convert summed section seconds to hours (2 decimals)
+ * Returns null when no duration was reported
+ */
+function toDurationHours(seconds: number): number | null {
+  return seconds > 0 ? Math.round((seconds / 3600) * 100) / 100 : null;
+}
+
+// Country code sets for risk flag detection (regions are in the geo module)
 const UK_COUNTRIES = new Set(['GBR', 'GB', 'UK']);
 const ALPS_COUNTRIES = new Set(['AUT', 'CHE', 'ITA', 'AT', 'CH', 'IT']);
 
@@ -90,15 +101,6 @@ const KNOWN_TUNNELS: Record<string, { name: string; category: string; country: s
   eurotunnel: { name: 'Channel Tunnel', category: 'undersea', country: 'FRA/GBR' },
 };
 
-// Island destinations (best-effort heuristics)
-const ISLAND_COUNTRIES = new Set([
-  'GBR', 'GB', 'UK', // Great Britain
-  'IRL', 'IE', // Ireland
-  'ISL', 'IS', // Iceland
-  'CYP', 'CY', // Cyprus
-  'MLT', 'MT', // Malta
-]);
-
 /**
  * Normalize country code to 3-letter ISO format
  */
@@ -106,20 +108,6 @@ function normalizeCountryCode(code: string | undefined | null): string {
   return asLower(code).toUpperCase();
 }
 
-/**
- * Check if a country is in Scandinavia
- */
-function isScandinavia(country: string): boolean {
-  return SCANDINAVIA_COUNTRIES.has(normalizeCountryCode(country));
-}
-
-/**
- * Check if a country is in the Baltic region
- */
-function isBaltic(country: string): boolean {
-  return BALTIC_COUNTRIES.has(normalizeCountryCode(country));
-}
-
 /**
  * Check if a country is UK
  */
@@ -134,13 +122,6 @@ function isAlpsCountry(country: string): boolean {
   return ALPS_COUNTRIES.has(normalizeCountryCode(country));
 }
 
-/**
- * Check if a country is an island nation
- */
-function isIslandCountry(country: string): boolean {
-  return ISLAND_COUNTRIES.has(normalizeCountryCode(country));
-}
-
 /**
  * Extract tunnel info from text (action instruction or notice message)
  * Uses diacritics-insensitive matching for robust detection
@@ -218,16 +199,61 @@ function isFerrySection(section: HereRouteSection): boolean {
   return section.transport?.mode === 'ferry' || section.type === 'ferry';
 }
 
+/**
+ * Check if a route crosses the Channel on Le Shuttle: HERE reports it as a car
+ * shuttle train section between the tunnel terminals, and tunnel mentions
+ * cover responses without section places
+ */
+function usesChannelTunnel(sections: HereRouteSection[], tunnels: Tunnel[]): boolean {
+  const shuttle = sections.some((section) => {
+    if (section.transport?.mode !== 'carShuttleTrain') return false;
+    const departure = section.departure?.place?.location;
+    const arrival = section.arrival?.place?.location;
+    return departure !== undefined && arrival !== undefined && isChannelTunnelShuttle(departure, arrival);
+  });
+  return shuttle || tunnels.some((tunnel) => tunnel.name === 'Channel Tunnel');
+}
+
+/**
+ * Resolve a toll fare to its value in TOLL_CURRENCY
+ * Prefers HERE's convertedPrice; a price already in TOLL_CURRENCY (or without
+ * a currency, as in older responses) is used as-is. Returns null when the fare
+ * cannot be expressed in TOLL_CURRENCY.
+ */
+function fareValueInTollCurrency(
+  fare: NonNullable<HereToll['fares']>[number]
+): { value: number } | { unconvertedCurrency: string } | null {
+  const candidates = [fare.convertedPrice, fare.price];
+
+  for (const price of candidates) {
+    if (!price || !price.value) continue;
+    if (price.currency && price.currency.toUpperCase() !== TOLL_CURRENCY) continue;
+
+    const value = parseFloat(price.value);
+    if (!isNaN(value)) return { value };
+  }
+
+  if (fare.price?.currency && fare.price.value) {
+    return { unconvertedCurrency: fare.price.currency.toUpperCase() };
+  }
+
+  return null;
+}
+
 /**
  * Extract toll information from sections
- * Handles various HERE response shapes where tolls may be missing or malformed
+ * Handles various HERE response shapes where tolls may be missing or malformed.
+ * Fares are summed in TOLL_CURRENCY; fares HERE could not convert are left out
+ * of the estimate and reported as a warning instead of being added blindly.
  */
 function extractTolls(sections: HereRouteSection[]): {
   hasTollRoads: boolean;
   tollCountries: string[];
   tollCostEstimate: number | null;
+  warnings: Warning[];
 } {
   const tollCountries = new Set<string>();
+  const unconvertedCurrencies = new Set<string>();
   let totalCost = 0;
   let hasCostInfo = false;
 
@@ -253,12 +279,16 @@ function extractTolls(sections: HereRouteSection[]): {
 
         if (toll.fares && Array.isArray(toll.fares)) {
           for (const fare of toll.fares) {
-            if (fare && fare.price && fare.price.value) {
-              const value = parseFloat(fare.price.value);
-              if (!isNaN(value)) {
-                totalCost += value;
-                hasCostInfo = true;
-              }
+            if (!fare) continue;
+
+            const resolved = fareValueInTollCurrency(fare);
+            if (!resolved) continue;
+
+            if ('value' in resolved) {
+              totalCost += resolved.value;
+              hasCostInfo = true;
+            } else {
+              unconvertedCurrencies.add(resolved.unconvertedCurrency);
             }
           }
         }
@@ -266,40 +296,75 @@ function extractTolls(sections: HereRouteSection[]): {
     }
   }
 
+  const warnings: Warning[] = [];
+  if (unconvertedCurrencies.size > 0) {
+    warnings.push({
+      code: 'tollCurrencyNotConverted',
+      message:
+        `Toll fares in ${Array.from(unconvertedCurrencies).sort().join(', ')} could not be ` +
+        `converted to ${TOLL_CURRENCY} and are excluded from tollCostEstimate`,
+    });
+  }
+
   return {
     hasTollRoads: tollCountries.size > 0,
     tollCountries: Array.from(tollCountries).sort(),
     tollCostEstimate: hasCostInfo ? Math.round(totalCost * 100) / 100 : null,
+    warnings,
+  };
+}
+
+/**
+ * Identify the registry crossing of a ferry section from its departure and arrival places
+ * @param departsAfterSeconds - summed duration of the preceding sections
+ */
+function identifyFerryCrossing(section: HereRouteSection, departsAfterSeconds: number): FerryCrossing {
+  const departure = section.departure?.place?.location;
+  const arrival = section.arrival?.place?.location;
+  const crossingId = departure && arrival ? findFerryCrossing(departure, arrival) : null;
+  const duration = section.summary?.duration;
+
+  return {
+    crossingId,
+    name: crossingId ? FERRY_CROSSINGS[crossingId].name : null,
+    durationHours: typeof duration === 'number' ? Math.round((duration / 3600) * 100) / 100 : null,
+    departsAfterHours: Math.round((departsAfterSeconds / 3600) * 100) / 100,
   };
 }
 
 /**
  * Extract ferry information from sections and actions
+ * Ferry sections are matched to known crossings; ferries only mentioned in
+ * actions have no places to match and stay unidentified.
  */
 function extractFerryInfo(sections: HereRouteSection[]): {
   hasFerry: boolean;
   ferrySegments: number;
+  ferryCrossings: FerryCrossing[];
 } {
-  let ferrySegments = 0;
+  const ferryCrossings: FerryCrossing[] = [];
+  let elapsedSeconds = 0;
 
   for (const section of sections) {
     // Check section type
     if (isFerrySection(section)) {
-      ferrySegments++;
-      continue;
-    }
-
-    // Check actions within section
-    for (const action of asArray<HereRouteAction>(section.actions)) {
-      if (isFerryAction(action)) {
-        ferrySegments++;
+      ferryCrossings.push(identifyFerryCrossing(section, elapsedSeconds));
+    } else {
+      // Check actions within section
+      for (const action of asArray<HereRouteAction>(section.actions)) {
+        if (isFerryAction(action)) {
+          ferryCrossings.push({ crossingId: null, name: null, durationHours: null, departsAfterHours: null });
+        }
       }
     }
+
+    elapsedSeconds += section.summary?.duration || 0;
   }
 
   return {
-    hasFerry: ferrySegments > 0,
-    ferrySegments,
+    hasFerry: ferryCrossings.length > 0,
+    ferrySegments: ferryCrossings.length,
+    ferryCrossings,
   };
 }
 
@@ -559,7 +624,7 @@ function extractRestrictions(sections: HereRouteSection[]): {
  * Compute risk flags based on countries and route characteristics
  * @param hasAlpsSurchargeTunnel - True only if Frejus or Mont Blanc tunnel detected
  */
-function computeRiskFlags(
+export function computeRiskFlags(
   countriesCrossed: string[],
   destinationCountry: string | null,
   hasFerry: boolean,
@@ -680,19 +745,30 @@ export function extractRouteFactsFromHere(
   // Calculate totals from sections
   let totalLengthMeters = 0;
   let totalDurationSeconds = 0;
+  let totalBaseDurationSeconds = 0;
+  // Typical duration only counts when every driving section reports it; ferry and
+  // shuttle-train crossings run to a timetable and add their plain duration
+  let totalTypicalDurationSeconds: number | null = sections.length > 0 ? 0 : null;
 
   for (const section of sections) {
     if (section.summary) {
       totalLengthMeters += section.summary.length || 0;
       totalDurationSeconds += section.summary.duration || 0;
+      totalBaseDurationSeconds += section.summary.baseDuration || 0;
     }
+    const typicalDuration = isFerrySection(section) || section.transport?.mode === 'carShuttleTrain'
+      ? section.summary?.duration ?? 0
+      : section.summary?.typicalDuration;
+    totalTypicalDurationSeconds = totalTypicalDurationSeconds !== null && typeof typicalDuration === 'number'
+      ? totalTypicalDurationSeconds + typicalDuration
+      : null;
   }
 
   // Convert to km and hours
   const distanceKm = Math.round((totalLengthMeters / 1000) * 100) / 100;
-  const durationHours = totalDurationSeconds > 0
-    ? Math.round((totalDurationSeconds / 3600) * 100) / 100
-    : null;
+  const durationHours = toDurationHours(totalDurationSeconds);
+  const baseDurationHours = toDurationHours(totalBaseDurationSeconds);
+  const typicalDurationHours = toDurationHours(totalTypicalDurationSeconds ?? 0);
 
   // Check polylines for Alps tunnels (primary detection method)
   // Use override if provided (e.g., from waypoint proximity detection)
@@ -752,11 +828,15 @@ export function extractRouteFactsFromHere(
     route: {
       distanceKm,
       durationHours,
+      baseDurationHours,
+      typicalDurationHours,
       sections: sections.length,
     },
     geography: {
       originCountry,
       destinationCountry,
+      originPostalCode: null, // Set from geocoding by the route handlers
+      destinationPostalCode: null,
       countriesCrossed,
       isInternational,
       isEU: null, // Cannot determine from HERE response alone
@@ -764,6 +844,8 @@ export function extractRouteFactsFromHere(
     infrastructure: {
       hasFerry: ferryInfo.hasFerry,
       ferrySegments: ferryInfo.ferrySegments,
+      ferryCrossings: ferryInfo.ferryCrossings,
+      hasChannelTunnel: usesChannelTunnel(sections, tunnelInfo.tunnels),
       hasTollRoads: tollInfo.hasTollRoads,
       tollCountries: tollInfo.tollCountries,
       tollCostEstimate: tollInfo.tollCostEstimate,
@@ -781,7 +863,7 @@ export function extractRouteFactsFromHere(
     raw: {
       provider: 'here',
       hereRouteId: extractRouteId(hereResponse),
-      warnings: restrictionInfo.warnings,
+      warnings: [...restrictionInfo.warnings, ...tollInfo.warnings],
     },
   };
 }
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { FERRY_CROSSINGS, findFerryCrossing, findFerryCrossingById } from './ferry-crossings.js';
+import { VEHICLE_PROFILE_IDS } from './vehicle-profiles.js';
+
+const DOVER = { lat: 51.127, lng: 1.318 };
+
+describe('ferry crossings', () => {
+  it('prices every crossing for every vehicle profile', () => {
+    for (const crossing of Object.values(FERRY_CROSSINGS)) {
+      expect(Object.keys(crossing.costs).sort()).toEqual([...VEHICLE_PROFILE_IDS].sort());
+    }
+  });
+
+  describe('findFerryCrossing', () => {
+    it('matches a crossing in either direction', () => {
+      const calais = { lat: 50.951, lng: 1.859 };
+
+      expect(findFerryCrossing(DOVER, calais)).toBe('calais-dover');
+      expect(findFerryCrossing(calais, DOVER)).toBe('calais-dover');
+    });
+
+    it('tells neighbouring terminals apart', () => {
+      expect(findFerryCrossing({ lat: 51.03, lng: 2.2 }, DOVER)).toBe('dunkirk-dover');
+      expect(findFerryCrossing({ lat: 51.95, lng: 4.08 }, { lat: 53.74, lng: -0.28 })).toBe('rotterdam-hull');
+      expect(findFerryCrossing({ lat: 51.97, lng: 4.13 }, { lat: 51.95, lng: 1.26 })).toBe('hoek-van-holland-harwich');
+    });
+
+    it('returns null for unknown port pairs', () => {
+      expect(findFerryCrossing({ lat: 0, lng: 0 }, { lat: 0, lng: 0 })).toBeNull();
+      // Calais to Hull is not a crossing, although both are known terminals
+      expect(findFerryCrossing({ lat: 50.966, lng: 1.862 }, { lat: 53.736, lng: -0.276 })).toBeNull();
+    });
+  });
+
+  it('looks crossings up by id and returns null for unknown ids', () => {
+    expect(findFerryCrossingById('gdynia-karlskrona')?.durationHours).toBe(10.5);
+    expect(findFerryCrossingById('calais-hull')).toBeNull();
+    expect(findFerryCrossingById('toString')).toBeNull();
+    expect(findFerryCrossingById(null)).toBeNull();
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Ferry crossing registry
+ * Port pairs with approximate terminal coordinates, per-vehicle ferry cost and
+ * sailing time. HERE ferry sections are matched to a crossing by their
+ * departure and arrival places (either direction).
+ */
+
+import { haversineDistanceKm } from './flexible-polyline.js';
+import type { VehicleProfileId } from './vehicle-profiles.js';
+
+/**
+ * Ferry terminal
+ */
+export interface FerryPort {
+  name: string;
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+  lat: number;
+  lng: number;
+}
+
+export interface FerryCrossingDefinition {
+  name: string;
+  ports: [FerryPort, FerryPort];
+  /** Scheduled sailing time in hours */
+  durationHours: number;
+  /** One-way ticket in EUR per vehicle profile (driver included) */
+  costs: Record<VehicleProfileId, number>;
+}
+
+/**
+ * HERE ferry section endpoints within this distance of a terminal match it
+ */
+export const FERRY_PORT_MATCH_RADIUS_KM = 20;
+
+const CALAIS: FerryPort = { name: 'Calais', country: 'FR', lat: 50.966, lng: 1.862 };
+const DUNKIRK: FerryPort = { name: 'Dunkirk', country: 'FR', lat: 51.016, lng: 2.195 };
+const DOVER: FerryPort = { name: 'Dover', country: 'GB', lat: 51.121, lng: 1.331 };
+
+/**
+ * Known crossings
+ */
+export const FERRY_CROSSINGS = {
+  'calais-dover': {
+    name: 'Calais – Dover',
+    ports: [CALAIS, DOVER],
+    durationHours: 1.5,
+    costs: { van_8ep: 160, solo_18t_23ep: 290, ftl_13_6_33ep: 380, ftl_mega_13_6_33ep: 380, ftl_reefer_13_6_33ep: 420 },
+  },
+  'dunkirk-dover': {
+    name: 'Dunkirk – Dover',
+    ports: [DUNKIRK, DOVER],
+    durationHours: 2,
+    costs: { van_8ep: 150, solo_18t_23ep: 270, ftl_13_6_33ep: 350, ftl_mega_13_6_33ep: 350, ftl_reefer_13_6_33ep: 390 },
+  },
+  'hoek-van-holland-harwich': {
+    name: 'Hoek van Holland – Harwich',
+    ports: [
+      { name: 'Hoek van Holland', country: 'NL', lat: 51.977, lng: 4.133 },
+      { name: 'Harwich', country: 'GB', lat: 51.947, lng: 1.255 },
+    ],
+    durationHours: 7,
+    costs: { van_8ep: 310, solo_18t_23ep: 560, ftl_13_6_33ep: 720, ftl_mega_13_6_33ep: 720, ftl_reefer_13_6_33ep: 780 },
+  },
+  'rotterdam-hull': {
+    name: 'Rotterdam Europoort – Hull',
+    ports: [
+      { name: 'Rotterdam Europoort', country: 'NL', lat: 51.951, lng: 4.066 },
+      { name: 'Hull', country: 'GB', lat: 53.736, lng: -0.276 },
+    ],
+    durationHours: 11,
+    costs: { van_8ep: 420, solo_18t_23ep: 760, ftl_13_6_33ep: 980, ftl_mega_13_6_33ep: 980, ftl_reefer_13_6_33ep: 1060 },
+  },
+  'cherbourg-rosslare': {
+    name: 'Cherbourg – Rosslare',
+    ports: [
+      { name: 'Cherbourg', country: 'FR', lat: 49.648, lng: -1.618 },
+      { name: 'Rosslare', country: 'IE', lat: 52.252, lng: -6.336 },
+    ],
+    durationHours: 18,
+    costs: { van_8ep: 520, solo_18t_23ep: 940, ftl_13_6_33ep: 1250, ftl_mega_13_6_33ep: 1250, ftl_reefer_13_6_33ep: 1350 },
+  },
+  'holyhead-dublin': {
+    name: 'Holyhead – Dublin',
+    ports: [
+      { name: 'Holyhead', country: 'GB', lat: 53.31, lng: -4.631 },
+      { name: 'Dublin', country: 'IE', lat: 53.347, lng: -6.195 },
+    ],
+    durationHours: 3.5,
+    costs: { van_8ep: 230, solo_18t_23ep: 420, ftl_13_6_33ep: 560, ftl_mega_13_6_33ep: 560, ftl_reefer_13_6_33ep: 610 },
+  },
+  'puttgarden-rodby': {
+    name: 'Puttgarden – Rødby',
+    ports: [
+      { name: 'Puttgarden', country: 'DE', lat: 54.501, lng: 11.226 },
+      { name: 'Rødby', country: 'DK', lat: 54.653, lng: 11.35 },
+    ],
+    durationHours: 0.75,
+    costs: { van_8ep: 110, solo_18t_23ep: 190, ftl_13_6_33ep: 250, ftl_mega_13_6_33ep: 250, ftl_reefer_13_6_33ep: 250 },
+  },
+  'rostock-trelleborg': {
+    name: 'Rostock – Trelleborg',
+    ports: [
+      { name: 'Rostock', country: 'DE', lat: 54.153, lng: 12.1 },
+      { name: 'Trelleborg', country: 'SE', lat: 55.365, lng: 13.153 },
+    ],
+    durationHours: 6,
+    costs: { van_8ep: 240, solo_18t_23ep: 430, ftl_13_6_33ep: 560, ftl_mega_13_6_33ep: 560, ftl_reefer_13_6_33ep: 610 },
+  },
+  'swinoujscie-ystad': {
+    name: 'Świnoujście – Ystad',
+    ports: [
+      { name: 'Świnoujście', country: 'PL', lat: 53.905, lng: 14.262 },
+      { name: 'Ystad', country: 'SE', lat: 55.428, lng: 13.826 },
+    ],
+    durationHours: 7,
+    costs: { van_8ep: 250, solo_18t_23ep: 450, ftl_13_6_33ep: 590, ftl_mega_13_6_33ep: 590, ftl_reefer_13_6_33ep: 640 },
+  },
+  'gdynia-karlskrona': {
+    name: 'Gdynia – Karlskrona',
+    ports: [
+      { name: 'Gdynia', country: 'PL', lat: 54.533, lng: 18.548 },
+      { name: 'Karlskrona', country: 'SE', lat: 56.162, lng: 15.594 },
+    ],
+    durationHours: 10.5,
+    costs: { van_8ep: 270, solo_18t_23ep: 490, ftl_13_6_33ep: 640, ftl_mega_13_6_33ep: 640, ftl_reefer_13_6_33ep: 700 },
+  },
+  'travemunde-helsinki': {
+    name: 'Travemünde – Helsinki',
+    ports: [
+      { name: 'Travemünde', country: 'DE', lat: 53.962, lng: 10.869 },
+      { name: 'Helsinki Vuosaari', country: 'FI', lat: 60.208, lng: 25.19 },
+    ],
+    durationHours: 29,
+    costs: { van_8ep: 560, solo_18t_23ep: 1020, ftl_13_6_33ep: 1350, ftl_mega_13_6_33ep: 1350, ftl_reefer_13_6_33ep: 1460 },
+  },
+} satisfies Record<string, FerryCrossingDefinition>;
+
+export type FerryCrossingId = keyof typeof FERRY_CROSSINGS;
+
+/**
+ * Registered crossing ids, for schemas
+ */
+export const FERRY_CROSSING_IDS = Object.keys(FERRY_CROSSINGS) as [FerryCrossingId, ...FerryCrossingId[]];
+
+/**
+ * Look up a crossing by id
+ * @returns the crossing, or null for null and unknown ids
+ */
+export function findFerryCrossingById(id: string | null): FerryCrossingDefinition | null {
+  if (id === null || !Object.hasOwn(FERRY_CROSSINGS, id)) return null;
+  return FERRY_CROSSINGS[id as FerryCrossingId];
+}
+
+/**
+ * Distance sum of the two endpoints to a port pair, or null when either is out of range
+ */
+function portPairDistanceKm(
+  departure: { lat: number; lng: number },
+  arrival: { lat: number; lng: number },
+  from: FerryPort,
+  to: FerryPort
+): number | null {
+  const fromKm = haversineDistanceKm(departure, from);
+  const toKm = haversineDistanceKm(arrival, to);
+  return fromKm <= FERRY_PORT_MATCH_RADIUS_KM && toKm <= FERRY_PORT_MATCH_RADIUS_KM ? fromKm + toKm : null;
+}
+
+/**
+ * Find the crossing sailing between two points (in either direction)
+ * Neighbouring terminals (Calais / Dunkirk) are told apart by the closest match.
+ * @returns crossing id, or null when no registered crossing connects them
+ */
+export function findFerryCrossing(
+  departure: { lat: number; lng: number },
+  arrival: { lat: number; lng: number }
+): FerryCrossingId | null {
+  let best: { id: FerryCrossingId; distanceKm: number } | null = null;
+
+  for (const [id, crossing] of Object.entries(FERRY_CROSSINGS) as Array<[FerryCrossingId, FerryCrossingDefinition]>) {
+    const [a, b] = crossing.ports;
+    for (const distanceKm of [
+      portPairDistanceKm(departure, arrival, a, b),
+      portPairDistanceKm(departure, arrival, b, a),
+    ]) {
+      if (distanceKm !== null && (!best || distanceKm < best.distanceKm)) {
+        best = { id, distanceKm };
+      }
+    }
+  }
+
+  return best?.id ?? null;
+}
@@ -32,6 +32,7 @@ describe('Geocoder', () => {
           countryCode: 'DEU',
           countryName: 'Germany',
           city: 'Berlin',
+          postalCode: '10117',
         },
         position: {
           lat: 52.52,
@@ -61,6 +62,7 @@ describe('Geocoder', () => {
         lng: 13.405,
         label: 'Berlin, Germany',
         countryCode: 'DEU',
+        postalCode: '10117',
         confidence: 0.95,
       });
     });
@@ -145,6 +147,7 @@ describe('Geocoder', () => {
 
       const result = await geocoder.geocode('Some Place');
       expect(result.countryCode).toBeNull();
+      expect(result.postalCode).toBeNull();
       expect(result.confidence).toBeNull();
     });
 
@@ -17,6 +17,8 @@ export interface GeocodeResult {
   lng: number;
   label: string;
   countryCode: string | null;
+  /** Postal code as returned by HERE (null when the match has none, e.g. a country) */
+  postalCode: string | null;
   confidence: number | null;
 }
 
@@ -27,6 +29,7 @@ export interface GeocodeOptions {
 
 export interface ReverseGeocodeResult {
   countryCode: string | null;
+  postalCode: string | null;
   label: string;
 }
 
@@ -169,6 +172,7 @@ export function createGeocoder(client: HereClient) {
       lng: item.position.lng,
       label: item.address.label,
       countryCode: item.address.countryCode ?? null,
+      postalCode: item.address.postalCode ?? null,
       confidence,
     };
 
@@ -211,6 +215,7 @@ export function createGeocoder(client: HereClient) {
       // Return null country code if no results (e.g., in the ocean)
       const emptyResult: ReverseGeocodeResult = {
         countryCode: null,
+        postalCode: null,
         label: '',
       };
       reverseCache.set(cacheKey, emptyResult);
@@ -221,6 +226,7 @@ export function createGeocoder(client: HereClient) {
 
     const result: ReverseGeocodeResult = {
       countryCode: item.address.countryCode ?? null,
+      postalCode: item.address.postalCode ?? null,
       label: item.address.label,
     };
 
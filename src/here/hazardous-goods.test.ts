@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { toHereHazardousGoods, toHereTunnelCategory } from './hazardous-goods.js';
+
+describe('hazardous goods', () => {
+  describe('toHereHazardousGoods', () => {
+    it('maps ADR classes to HERE categories', () => {
+      expect(toHereHazardousGoods(['1', '2', '3', '6.1', '7', '8'])).toEqual([
+        'explosive',
+        'gas',
+        'flammable',
+        'poison',
+        'radioactive',
+        'corrosive',
+      ]);
+    });
+
+    it('lists each HERE category once', () => {
+      expect(toHereHazardousGoods(['3', '4.1', '9', '6.2'])).toEqual(['flammable', 'other']);
+    });
+  });
+
+  describe('toHereTunnelCategory', () => {
+    it('uses the tank category of combined codes', () => {
+      expect(toHereTunnelCategory('C/D')).toBe('C');
+      expect(toHereTunnelCategory('D/E')).toBe('D');
+      expect(toHereTunnelCategory('E')).toBe('E');
+    });
+
+    it('has no category for unrestricted goods', () => {
+      expect(toHereTunnelCategory('-')).toBeNull();
+      expect(toHereTunnelCategory(undefined)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * ADR dangerous-goods parameters for HERE Routing API v8
+ * Maps ADR classes to `vehicle[shippedHazardousGoods]` and ADR tunnel
+ * restriction codes to `vehicle[tunnelCategory]`.
+ */
+
+/**
+ * ADR (UN) hazard classes and divisions
+ */
+export const ADR_CLASSES = [
+  '1', '2', '3', '4.1', '4.2', '4.3', '5.1', '5.2', '6.1', '6.2', '7', '8', '9',
+] as const;
+
+export type AdrClass = (typeof ADR_CLASSES)[number];
+
+/**
+ * ADR tunnel restriction codes ("B/D": B for tank carriage, D otherwise)
+ */
+export const ADR_TUNNEL_CODES = ['B', 'B/D', 'B/E', 'C', 'C/D', 'C/E', 'D', 'D/E', 'E', '-'] as const;
+
+export type AdrTunnelCode = (typeof ADR_TUNNEL_CODES)[number];
+
+/**
+ * Dangerous goods carried on a route
+ */
+export interface AdrDetails {
+  classes: AdrClass[];
+  /** Tunnel restriction code of the most restricted substance (unrestricted when omitted) */
+  tunnelCode?: AdrTunnelCode;
+}
+
+/**
+ * HERE hazardous goods categories
+ */
+export type HereHazardousGoods =
+  | 'explosive'
+  | 'gas'
+  | 'flammable'
+  | 'combustible'
+  | 'organic'
+  | 'poison'
+  | 'radioactive'
+  | 'corrosive'
+  | 'other';
+
+const HERE_HAZARDOUS_GOODS: Record<AdrClass, HereHazardousGoods> = {
+  '1': 'explosive',
+  '2': 'gas',
+  '3': 'flammable',
+  '4.1': 'flammable',
+  '4.2': 'combustible',
+  '4.3': 'flammable',
+  '5.1': 'combustible',
+  '5.2': 'organic',
+  '6.1': 'poison',
+  '6.2': 'other',
+  '7': 'radioactive',
+  '8': 'corrosive',
+  '9': 'other',
+};
+
+/**
+ * HERE hazardous goods categories for ADR classes (deduplicated, in class order)
+ */
+export function toHereHazardousGoods(classes: AdrClass[]): HereHazardousGoods[] {
+  return [...new Set(classes.map((adrClass) => HERE_HAZARDOUS_GOODS[adrClass]))];
+}
+
+/**
+ * HERE tunnel category for an ADR tunnel restriction code
+ * Combined codes use the stricter (tank) category since the carriage type is
+ * not known; '-' means no tunnel restriction (null).
+ */
+export function toHereTunnelCategory(code: AdrTunnelCode | undefined): 'B' | 'C' | 'D' | 'E' | null {
+  if (!code || code === '-') return null;
+  return code.charAt(0) as 'B' | 'C' | 'D' | 'E';
+}
@@ -6,7 +6,18 @@
 import { createHereClient, HereApiError, type HereClientConfig } from './http-client.js';
 import { createGeocoder, type GeocodeResult, type GeocodeOptions, type ReverseGeocodeResult } from './geocode.js';
 import { createTruckRouter, type RouteTruckParams, type RouteTruckResult, type RouteDebugInfo } from './route-truck.js';
-import { VEHICLE_PROFILES, getVehicleProfile, type VehicleProfileId, type VehicleProfile } from './vehicle-profiles.js';
+import {
+  VEHICLE_PROFILES,
+  VEHICLE_PROFILE_IDS,
+  VehicleProfileIdSchema,
+  BODY_TYPES,
+  EMISSION_CLASSES,
+  getVehicleProfile,
+  type VehicleProfileId,
+  type VehicleProfile,
+  type BodyType,
+  type EmissionClass,
+} from './vehicle-profiles.js';
 
 export interface HereServiceConfig {
   apiKey: string;
@@ -77,7 +88,13 @@ export {
   type RouteDebugInfo,
   type VehicleProfile,
   type VehicleProfileId,
+  type BodyType,
+  type EmissionClass,
   VEHICLE_PROFILES,
+  VEHICLE_PROFILE_IDS,
+  VehicleProfileIdSchema,
+  BODY_TYPES,
+  EMISSION_CLASSES,
   getVehicleProfile,
 };
 
@@ -90,7 +107,42 @@ export type {
   HereTollInfo,
   HereRouteAction,
   HereNotice,
+  HereAvoidFeature,
 } from './route-truck.js';
 
+// Re-export ADR dangerous-goods mapping
+export {
+  ADR_CLASSES,
+  ADR_TUNNEL_CODES,
+  toHereHazardousGoods,
+  toHereTunnelCategory,
+  type AdrClass,
+  type AdrTunnelCode,
+  type AdrDetails,
+} from './hazardous-goods.js';
+
+// Re-export ferry crossing registry
+export {
+  FERRY_CROSSINGS,
+  FERRY_PORT_MATCH_RADIUS_KM,
+  FERRY_CROSSING_IDS,
+  findFerryCrossing,
+  findFerryCrossingById,
+  type FerryCrossingDefinition,
+  type FerryCrossingId,
+  type FerryPort,
+} from './ferry-crossings.js';
+
+// Re-export Channel crossing options
+export {
+  CHANNEL_CROSSINGS,
+  CHANNEL_ROUTE_AVOID_FEATURES,
+  CHANNEL_TUNNEL,
+  channelRoutesFor,
+  isChannelTunnelShuttle,
+  type ChannelCrossing,
+  type ChannelRoute,
+} from './channel-crossing.js';
+
 // Re-export route facts extractor
 export { extractRouteFactsFromHere } from './extract-route-facts.js';
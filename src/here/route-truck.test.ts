@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createTruckRouter } from './route-truck.js';
+import { createTruckRouter, formatDepartureTime } from './route-truck.js';
 import { createHereClient, HereApiError } from './http-client.js';
 import { VEHICLE_PROFILES } from './vehicle-profiles.js';
 
@@ -228,6 +228,24 @@ describe('TruckRouter', () => {
       expect(url.searchParams.get('vehicle[grossWeight]')).toBe('18000');
     });
 
+    it('passes trailer count and emission class from the profile', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockRoutingResponse,
+      });
+
+      await router.routeTruck({
+        origin: { lat: 52.52, lng: 13.405 },
+        destination: { lat: 52.2297, lng: 21.0122 },
+        vehicleProfileId: 'ftl_reefer_13_6_33ep',
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.searchParams.get('vehicle[trailerCount]')).toBe('1');
+      expect(url.searchParams.get('vehicle[width]')).toBe('260');
+      expect(url.searchParams.get('tolls[emissionType]')).toBe('euro6');
+    });
+
     it('includes waypoints in request with passThrough flag', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -252,6 +270,98 @@ describe('TruckRouter', () => {
       expect(viaParams[1]).toBe('52,17!passThrough=true');
     });
 
+    it('passes ADR hazardous goods and tunnel category', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockRoutingResponse,
+      });
+
+      await router.routeTruck({
+        origin: { lat: 52.52, lng: 13.405 },
+        destination: { lat: 52.2297, lng: 21.0122 },
+        vehicleProfileId: 'ftl_13_6_33ep',
+        adr: { classes: ['3', '8'], tunnelCode: 'D/E' },
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.searchParams.get('vehicle[shippedHazardousGoods]')).toBe('flammable,corrosive');
+      expect(url.searchParams.get('vehicle[tunnelCategory]')).toBe('D');
+    });
+
+    it('sends no hazardous goods parameters without ADR', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockRoutingResponse,
+      });
+
+      await router.routeTruck({
+        origin: { lat: 52.52, lng: 13.405 },
+        destination: { lat: 52.2297, lng: 21.0122 },
+        vehicleProfileId: 'ftl_13_6_33ep',
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.searchParams.has('vehicle[shippedHazardousGoods]')).toBe(false);
+      expect(url.searchParams.has('vehicle[tunnelCategory]')).toBe(false);
+      expect(url.searchParams.has('avoid[features]')).toBe(false);
+      expect(url.searchParams.has('departureTime')).toBe(false);
+    });
+
+    it('passes the departure time with seconds', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockRoutingResponse,
+      });
+
+      await router.routeTruck({
+        origin: { lat: 52.52, lng: 13.405 },
+        destination: { lat: 52.2297, lng: 21.0122 },
+        vehicleProfileId: 'ftl_13_6_33ep',
+        departureTime: '2026-10-19T06:30+02:00',
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.searchParams.get('departureTime')).toBe('2026-10-19T06:30:00+02:00');
+      expect(url.searchParams.get('return')?.split(',')).toContain('typicalDuration');
+    });
+
+    it('passes features to avoid', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockRoutingResponse,
+      });
+
+      await router.routeTruck({
+        origin: { lat: 45.4384, lng: 10.9916 },
+        destination: { lat: 51.5074, lng: -0.1278 },
+        vehicleProfileId: 'solo_18t_23ep',
+        avoidFeatures: ['ferry', 'tollRoad'],
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.searchParams.get('avoid[features]')).toBe('ferry,tollRoad');
+    });
+
+    it('sends stops as via points without passThrough', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockRoutingResponse,
+      });
+
+      await router.routeTruck({
+        origin: { lat: 52.52, lng: 13.405 },
+        destination: { lat: 52.2297, lng: 21.0122 },
+        waypoints: [
+          { lat: 51.5, lng: 14.5 },
+          { lat: 52.0, lng: 17.0, stop: true },
+        ],
+        vehicleProfileId: 'ftl_13_6_33ep',
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.searchParams.getAll('via')).toEqual(['51.5,14.5!passThrough=true', '52,17']);
+    });
+
     it('returns debug info with viaCount, maskedUrl, and telemetry', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -452,12 +562,29 @@ describe('TruckRouter', () => {
       expect(returnFields).toContain('tolls');
       expect(returnFields).toContain('polyline'); // Required for Alps tunnel bbox detection
       expect(returnFields).toContain('actions');
+      expect(returnFields).toContain('typicalDuration'); // RouteFacts.route.typicalDurationHours
       // Note: 'spans' is not a valid return type in HERE Routing v8 - use polyline geofencing
       expect(returnFields).not.toContain('spans');
       // Note: 'notices' is not a valid return type in HERE Routing v8
       expect(returnFields).not.toContain('notices');
     });
 
+    it('requests toll fares converted to EUR', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockRoutingResponse,
+      });
+
+      await router.routeTruck({
+        origin: { lat: 52.52, lng: 13.405 },
+        destination: { lat: 52.2297, lng: 21.0122 },
+        vehicleProfileId: 'ftl_13_6_33ep',
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.searchParams.get('currency')).toBe('EUR');
+    });
+
     it('includes toll information in response', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -772,3 +899,16 @@ describe('TruckRouter', () => {
     });
   });
 });
+
+describe('formatDepartureTime', () => {
+  it('adds missing seconds', () => {
+    expect(formatDepartureTime('2026-10-19T08:00')).toBe('2026-10-19T08:00:00');
+    expect(formatDepartureTime('2026-10-19T08:00Z')).toBe('2026-10-19T08:00:00Z');
+    expect(formatDepartureTime('2026-10-19T08:00-05:00')).toBe('2026-10-19T08:00:00-05:00');
+  });
+
+  it('keeps complete times', () => {
+    expect(formatDepartureTime('2026-10-19T08:00:30+02:00')).toBe('2026-10-19T08:00:30+02:00');
+    expect(formatDepartureTime('2026-10-19T08:00:30.5')).toBe('2026-10-19T08:00:30.5');
+  });
+});
@@ -5,6 +5,7 @@
 
 import { type HereClient } from './http-client.js';
 import { getVehicleProfile, type VehicleProfileId } from './vehicle-profiles.js';
+import { toHereHazardousGoods, toHereTunnelCategory, type AdrDetails } from './hazardous-goods.js';
 import {
   decodeFlexiblePolyline,
   checkAlpsTunnels,
@@ -25,16 +26,44 @@ import {
 
 const ROUTING_API_URL = 'https://router.hereapi.com/v8/routes';
 
+/**
+ * Currency HERE converts toll fares into (returned as fare.convertedPrice)
+ * RouteFacts.infrastructure.tollCostEstimate is expressed in this currency.
+ */
+export const TOLL_CURRENCY = 'EUR';
+
 export interface Coordinates {
   lat: number;
   lng: number;
 }
 
+/**
+ * Intermediate point; passed through unless it is a stop
+ */
+export interface Waypoint extends Coordinates {
+  /** Loading/unloading stop the vehicle halts at (default: pass-through) */
+  stop?: boolean;
+}
+
+/**
+ * Route features HERE can be told to avoid (`avoid[features]`)
+ */
+export type HereAvoidFeature = 'ferry' | 'carShuttleTrain' | 'tunnel' | 'tollRoad';
+
 export interface RouteTruckParams {
   origin: Coordinates;
   destination: Coordinates;
-  waypoints?: Coordinates[];
+  waypoints?: Waypoint[];
   vehicleProfileId: VehicleProfileId;
+  /** Dangerous goods on board (routes avoid roads and tunnels closed to them) */
+  adr?: AdrDetails;
+  /** Features the route must not use, e.g. ferries */
+  avoidFeatures?: HereAvoidFeature[];
+  /**
+   * ISO departure time for traffic patterns and time-dependent restrictions
+   * (without an offset HERE reads it as origin local time)
+   */
+  departureTime?: string;
 }
 
 export interface RouteDebugInfo {
@@ -234,6 +263,12 @@ export interface HereToll {
       value: string;
       currency: string;
     };
+    /** Fare converted to the requested `currency` (present when HERE can convert) */
+    convertedPrice?: {
+      type: string;
+      value: string;
+      currency: string;
+    };
     paymentMethods?: string[];
   }>;
 }
@@ -251,6 +286,14 @@ function formatCoords(coords: Coordinates): string {
   return `${coords.lat},${coords.lng}`;
 }
 
+/**
+ * Format a departure time for HERE, which requires seconds (RFC 3339)
+ * e.g. 2026-10-19T08:00 -> 2026-10-19T08:00:00
+ */
+export function formatDepartureTime(value: string): string {
+  return value.replace(/T(\d{2}:\d{2})(?=$|[Zz+-])/, 'T$1:00');
+}
+
 /**
  * Build masked URL for debug logging (no API key)
  */
@@ -751,14 +794,16 @@ export function createTruckRouter(client: HereClient) {
    * @throws HereApiError on API errors
    */
   async function routeTruck(params: RouteTruckParams): Promise<RouteTruckResult> {
-    const { origin, destination, waypoints = [], vehicleProfileId } = params;
+    const { origin, destination, waypoints = [], vehicleProfileId, adr, avoidFeatures = [], departureTime } = params;
 
     // Get vehicle profile
     const profile = getVehicleProfile(vehicleProfileId);
 
     // Build via parameter for waypoints - use passThrough=true to force passing through
-    // HERE v8 format: via=lat,lng!passThrough=true
-    const viaStrings = waypoints.map((wp) => `${wp.lat},${wp.lng}!passThrough=true`);
+    // HERE v8 format: via=lat,lng!passThrough=true; stops are plain via=lat,lng
+    const viaStrings = waypoints.map((wp) =>
+      wp.stop ? `${wp.lat},${wp.lng}` : `${wp.lat},${wp.lng}!passThrough=true`
+    );
 
     // Build request params using vehicle[...] parameters (Routing API v8)
     // Note: Do NOT mix truck[...] and vehicle[...] params - use only vehicle[...]
@@ -766,15 +811,36 @@ export function createTruckRouter(client: HereClient) {
       transportMode: 'truck',
       origin: formatCoords(origin),
       destination: formatCoords(destination),
-      return: 'summary,tolls,polyline,actions',
+      // typicalDuration: HERE only reports summary.typicalDuration when asked for it
+      return: 'summary,typicalDuration,tolls,polyline,actions',
+      // Ask HERE to convert toll fares so costs from CHF/GBP/NOK/... countries can be summed
+      currency: TOLL_CURRENCY,
       // Vehicle dimensions (in cm) and weight (in kg)
       'vehicle[grossWeight]': profile.grossWeight,
       'vehicle[height]': profile.heightCm,
       'vehicle[width]': profile.widthCm,
       'vehicle[length]': profile.lengthCm,
       'vehicle[axleCount]': profile.axleCount,
+      'vehicle[trailerCount]': profile.trailerCount,
+      // Emission class changes toll fares in most EU countries
+      'tolls[emissionType]': profile.emissionClass,
     };
 
+    // Dangerous goods restrict roads and tunnels HERE may use
+    if (adr) {
+      requestParams['vehicle[shippedHazardousGoods]'] = toHereHazardousGoods(adr.classes).join(',');
+      requestParams['vehicle[tunnelCategory]'] = toHereTunnelCategory(adr.tunnelCode) ?? undefined;
+    }
+
+    if (avoidFeatures.length > 0) {
+      requestParams['avoid[features]'] = avoidFeatures.join(',');
+    }
+
+    // Time-aware routing (HERE routes departing now when omitted)
+    if (departureTime) {
+      requestParams.departureTime = formatDepartureTime(departureTime);
+    }
+
     // Build multi-params for via points (same key repeated)
     const multiParams: Record<string, string[]> = {};
     if (viaStrings.length > 0) {
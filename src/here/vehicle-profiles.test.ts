@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { VEHICLE_PROFILES, getVehicleProfile, type VehicleProfileId } from './vehicle-profiles.js';
+import {
+  VEHICLE_PROFILES,
+  VEHICLE_PROFILE_IDS,
+  VehicleProfileIdSchema,
+  getVehicleProfile,
+  type VehicleProfileId,
+} from './vehicle-profiles.js';
 
 describe('VehicleProfiles', () => {
   describe('VEHICLE_PROFILES', () => {
@@ -30,8 +36,29 @@ describe('VehicleProfiles', () => {
       expect(profile.axleCount).toBe(5);
     });
 
-    it('has exactly 3 profiles', () => {
-      expect(Object.keys(VEHICLE_PROFILES)).toHaveLength(3);
+    it('encodes the pallet capacity of the profile id', () => {
+      expect(VEHICLE_PROFILES.van_8ep.capacity.pallets).toBe(8);
+      expect(VEHICLE_PROFILES.solo_18t_23ep.capacity.pallets).toBe(23);
+      expect(VEHICLE_PROFILES.ftl_13_6_33ep.capacity.pallets).toBe(33);
+      expect(VEHICLE_PROFILES.ftl_13_6_33ep.capacity.loadingMetres).toBe(13.6);
+    });
+
+    it('has exactly 5 profiles', () => {
+      expect(Object.keys(VEHICLE_PROFILES)).toHaveLength(5);
+    });
+
+    it('defines mega and reefer trailers next to the dry van profiles', () => {
+      expect(VEHICLE_PROFILES.ftl_13_6_33ep.bodyType).toBe('tautliner');
+      expect(VEHICLE_PROFILES.ftl_mega_13_6_33ep.bodyType).toBe('mega');
+      expect(VEHICLE_PROFILES.ftl_reefer_13_6_33ep.bodyType).toBe('reefer');
+      expect(VEHICLE_PROFILES.ftl_reefer_13_6_33ep.temperatureRange).toEqual({ minC: -25, maxC: 25 });
+      expect(VEHICLE_PROFILES.ftl_13_6_33ep.temperatureRange).toBeNull();
+    });
+
+    it('only articulated profiles have a trailer', () => {
+      expect(VEHICLE_PROFILES.van_8ep.trailerCount).toBe(0);
+      expect(VEHICLE_PROFILES.solo_18t_23ep.trailerCount).toBe(0);
+      expect(VEHICLE_PROFILES.ftl_reefer_13_6_33ep.trailerCount).toBe(1);
     });
   });
 
@@ -52,6 +79,14 @@ describe('VehicleProfiles', () => {
     });
   });
 
+  describe('VehicleProfileIdSchema', () => {
+    it('accepts exactly the registered ids', () => {
+      expect(VehicleProfileIdSchema.options).toEqual(VEHICLE_PROFILE_IDS);
+      expect(VehicleProfileIdSchema.safeParse('ftl_reefer_13_6_33ep').success).toBe(true);
+      expect(VehicleProfileIdSchema.safeParse('bicycle').success).toBe(false);
+    });
+  });
+
   describe('profile constraints', () => {
     it('van is under 3.5t limit', () => {
       expect(VEHICLE_PROFILES.van_8ep.grossWeight).toBeLessThanOrEqual(3500);
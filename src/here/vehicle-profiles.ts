@@ -1,8 +1,32 @@
 /**
- * Vehicle profile definitions for HERE Routing API v8
+ * Vehicle profile registry
+ * The single source of vehicle profiles: request schemas, the HERE request
+ * builder, market models and the web form all derive from VEHICLE_PROFILES.
  * Dimensions in centimeters (as required by HERE API), weight in kg
  */
+
+import { z } from 'zod/v4';
+
+/**
+ * Cargo body / trailer types
+ */
+export const BODY_TYPES = ['box', 'tautliner', 'mega', 'reefer'] as const;
+
+export type BodyType = (typeof BODY_TYPES)[number];
+
+/**
+ * Euro emission classes, as HERE expects them in `tolls[emissionType]`
+ */
+export const EMISSION_CLASSES = ['euro5', 'euro6'] as const;
+
+export type EmissionClass = (typeof EMISSION_CLASSES)[number];
+
 export interface VehicleProfile {
+  /** Name shown in the web form */
+  label: string;
+  bodyType: BodyType;
+  /** Controlled temperature range in °C (null without temperature control) */
+  temperatureRange: { minC: number; maxC: number } | null;
   /** Gross weight in kg */
   grossWeight: number;
   /** Height in centimeters */
@@ -13,25 +37,42 @@ export interface VehicleProfile {
   lengthCm: number;
   /** Number of axles */
   axleCount: number;
+  /** Number of trailers (0 for rigid vehicles) */
+  trailerCount: number;
+  /** Emission class used for HERE toll calculation */
+  emissionClass: EmissionClass;
+  /** Load capacity used to price partial loads (not sent to HERE) */
+  capacity: {
+    /** Euro pallets (120x80 cm) */
+    pallets: number;
+    /** Loading metres of floor length */
+    loadingMetres: number;
+    /** Payload in kg */
+    payloadKg: number;
+  };
 }
 
-export type VehicleProfileId = 'van_8ep' | 'solo_18t_23ep' | 'ftl_13_6_33ep';
-
 /**
  * Central vehicle profile definitions
  * Dimensions in centimeters for HERE Routing API v8
  */
-export const VEHICLE_PROFILES: Record<VehicleProfileId, VehicleProfile> = {
+export const VEHICLE_PROFILES = {
   /**
    * Van - 8 euro pallets capacity
    * Light commercial vehicle under 3.5t
    */
   van_8ep: {
+    label: 'Van 3.5t / 8 EP',
+    bodyType: 'box',
+    temperatureRange: null,
     grossWeight: 3500,
     heightCm: 270,
     widthCm: 220,
     lengthCm: 650,
     axleCount: 2,
+    trailerCount: 0,
+    emissionClass: 'euro6',
+    capacity: { pallets: 8, loadingMetres: 4.2, payloadKg: 1200 },
   },
 
   /**
@@ -39,11 +80,17 @@ export const VEHICLE_PROFILES: Record<VehicleProfileId, VehicleProfile> = {
    * Medium rigid truck
    */
   solo_18t_23ep: {
+    label: 'Solo 18t / 23 EP',
+    bodyType: 'tautliner',
+    temperatureRange: null,
     grossWeight: 18000,
     heightCm: 360,
     widthCm: 255,
     lengthCm: 1000,
     axleCount: 2,
+    trailerCount: 0,
+    emissionClass: 'euro6',
+    capacity: { pallets: 23, loadingMetres: 9.2, payloadKg: 8000 },
   },
 
   /**
@@ -51,20 +98,74 @@ export const VEHICLE_PROFILES: Record<VehicleProfileId, VehicleProfile> = {
    * Articulated truck / tractor-trailer
    */
   ftl_13_6_33ep: {
+    label: 'FTL 13.6m / 33 EP',
+    bodyType: 'tautliner',
+    temperatureRange: null,
     grossWeight: 40000,
     heightCm: 400,
     widthCm: 255,
     lengthCm: 1650,
     axleCount: 5,
+    trailerCount: 1,
+    emissionClass: 'euro6',
+    capacity: { pallets: 33, loadingMetres: 13.6, payloadKg: 24000 },
   },
-} as const;
+
+  /**
+   * Mega trailer - 13.6m, 3m internal height for volume cargo
+   * Low-deck tractor-trailer at the 4m height limit
+   */
+  ftl_mega_13_6_33ep: {
+    label: 'FTL Mega 13.6m / 33 EP',
+    bodyType: 'mega',
+    temperatureRange: null,
+    grossWeight: 40000,
+    heightCm: 400,
+    widthCm: 255,
+    lengthCm: 1650,
+    axleCount: 5,
+    trailerCount: 1,
+    emissionClass: 'euro6',
+    capacity: { pallets: 33, loadingMetres: 13.6, payloadKg: 24000 },
+  },
+
+  /**
+   * Refrigerated trailer - 13.6m, -25 to +25 °C
+   * Insulated body and cooling unit reduce the payload
+   */
+  ftl_reefer_13_6_33ep: {
+    label: 'FTL Reefer 13.6m / 33 EP',
+    bodyType: 'reefer',
+    temperatureRange: { minC: -25, maxC: 25 },
+    grossWeight: 40000,
+    heightCm: 400,
+    widthCm: 260,
+    lengthCm: 1650,
+    axleCount: 5,
+    trailerCount: 1,
+    emissionClass: 'euro6',
+    capacity: { pallets: 33, loadingMetres: 13.4, payloadKg: 21000 },
+  },
+} satisfies Record<string, VehicleProfile>;
+
+export type VehicleProfileId = keyof typeof VEHICLE_PROFILES;
+
+/**
+ * All profile ids in registry order
+ */
+export const VEHICLE_PROFILE_IDS = Object.keys(VEHICLE_PROFILES) as [VehicleProfileId, ...VehicleProfileId[]];
+
+/**
+ * Schema accepting any registered profile id
+ */
+export const VehicleProfileIdSchema = z.enum(VEHICLE_PROFILE_IDS);
 
 /**
  * Get vehicle profile by ID
  * @throws Error if profile ID is invalid
  */
 export function getVehicleProfile(id: VehicleProfileId): VehicleProfile {
-  const profile = VEHICLE_PROFILES[id];
+  const profile: VehicleProfile | undefined = VEHICLE_PROFILES[id];
   if (!profile) {
     throw new Error(`Unknown vehicle profile: ${id}`);
   }
@@ -1,6 +1,16 @@
 import { buildApp } from './app.js';
 import { config } from './config.js';
 import { createHereService } from './here/index.js';
+import {
+  loadFuelIndexFile,
+  loadExchangeRatesFile,
+  loadMarketModelsFile,
+  watchMarketModelsFile,
+  loadRateCardsFile,
+  watchRateCardsFile,
+  loadCountryGroupsFile,
+  watchCountryGroupsFile,
+} from './pricing/index.js';
 
 /**
  * Sanitize error messages to prevent secret leakage
@@ -41,10 +51,94 @@ if (config.hereApiKey) {
   console.warn('WARNING: HERE_API_KEY not set. /api/route-facts endpoint will not be available.');
 }
 
-const app = buildApp({ hereService });
+if (!config.adminToken) {
+  console.warn('WARNING: ADMIN_TOKEN not set. /api/admin endpoints will not be available.');
+}
+
+const app = buildApp({
+  hereService,
+  adminToken: config.adminToken,
+  fuelIndexPath: config.fuelIndexPath,
+  exchangeRatesPath: config.exchangeRatesPath,
+});
 
 const start = async () => {
   try {
+    try {
+      const fuelIndex = await loadFuelIndexFile(config.fuelIndexPath);
+      console.log(`Fuel index loaded: ${fuelIndex.length} entries from ${config.fuelIndexPath}`);
+    } catch (error) {
+      // Keep serving with an empty index; the admin API can upload a fresh one
+      console.error(`[ERROR] ${error instanceof Error ? error.message : String(error)}`);
+      console.error('[ERROR] Fuel index empty');
+    }
+
+    try {
+      const rates = await loadExchangeRatesFile(config.exchangeRatesPath);
+      console.log(`Exchange rates loaded: ${rates.length} entries from ${config.exchangeRatesPath}`);
+    } catch (error) {
+      // Keep serving with an empty table; the admin API can upload fresh rates
+      console.error(`[ERROR] ${error instanceof Error ? error.message : String(error)}`);
+      console.error('[ERROR] Exchange rates empty');
+    }
+
+    // Groups first: models and rate cards are validated against them
+    if (config.countryGroupsPath) {
+      try {
+        const groups = await loadCountryGroupsFile(config.countryGroupsPath);
+        console.log(`Country groups loaded: ${Object.keys(groups).length} groups from ${config.countryGroupsPath}`);
+      } catch (error) {
+        // Keep serving with the built-in groups; the watcher picks up a fixed file
+        console.error(`[ERROR] ${error instanceof Error ? error.message : String(error)}`);
+        console.error('[ERROR] Using built-in country groups');
+      }
+
+      watchCountryGroupsFile(config.countryGroupsPath, {
+        onReload: (groups) => console.log(`Country groups reloaded: ${Object.keys(groups).length} groups`),
+        onError: (error) => {
+          console.error(`[ERROR] ${error.message}`);
+          console.error('[ERROR] Country groups file rejected; previous groups stay live');
+        },
+      });
+    }
+
+    if (config.marketModelsPath) {
+      try {
+        const models = await loadMarketModelsFile(config.marketModelsPath);
+        console.log(`Market models loaded: ${models.length} models from ${config.marketModelsPath}`);
+      } catch (error) {
+        // Keep serving with the built-in models; the watcher picks up a fixed file
+        console.error(`[ERROR] ${error instanceof Error ? error.message : String(error)}`);
+        console.error('[ERROR] Using built-in market models');
+      }
+
+      watchMarketModelsFile(config.marketModelsPath, {
+        onReload: (models) => console.log(`Market models reloaded: ${models.length} models`),
+        onError: (error) => {
+          console.error(`[ERROR] ${error.message}`);
+          console.error('[ERROR] Market models file rejected; previous models stay live');
+        },
+      });
+    }
+
+    if (config.rateCardsPath) {
+      try {
+        const rateCards = await loadRateCardsFile(config.rateCardsPath);
+        console.log(`Rate cards loaded: ${rateCards.length} customers from ${config.rateCardsPath}`);
+      } catch (error) {
+        // Quote with market models only; the watcher picks up a fixed file
+        console.error(`[ERROR] ${error instanceof Error ? error.message : String(error)}`);
+        console.error('[ERROR] No customer rate cards active');
+      }
+
+      watchRateCardsFile(config.rateCardsPath, {
+        onReload: (rateCards) => console.log(`Rate cards reloaded: ${rateCards.length} customers`),
+        onError: (error) => {
+          console.error(`[ERROR] ${error.message}`);
+          console.error('[ERROR] Rate cards file rejected; previous rate cards stay live');
+        },
+      });
+    }
     await app.listen({ port: config.port, host: config.host });
     console.log(`Server running at http://${config.host}:${config.port}`);
   } catch (err) {
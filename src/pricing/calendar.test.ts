@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getTimeZoneForCountry,
+  toLocalDateTime,
+  isWeekendDay,
+  formatLocalDateTime,
+  addHoursToLocalDateTime,
+  toIsoLocalDateTime,
+  toTimeZone,
+} from './calendar.js';
+
+describe('calendar', () => {
+  describe('getTimeZoneForCountry', () => {
+    it('maps alpha-2, alpha-3 and UK codes', () => {
+      expect(getTimeZoneForCountry('IT')).toBe('Europe/Rome');
+      expect(getTimeZoneForCountry('POL')).toBe('Europe/Warsaw');
+      expect(getTimeZoneForCountry('UK')).toBe('Europe/London');
+    });
+
+    it('returns null for unknown or missing codes', () => {
+      expect(getTimeZoneForCountry(null)).toBeNull();
+      expect(getTimeZoneForCountry('ZZ')).toBeNull();
+    });
+  });
+
+  describe('toLocalDateTime', () => {
+    it('converts an instant to destination local time (summer time)', () => {
+      const local = toLocalDateTime('2026-07-03T12:30:00Z', 'IT');
+
+      expect(local).not.toBeNull();
+      expect(local!.date).toBe('2026-07-03');
+      expect(local!.hour).toBe(14);
+      expect(local!.minute).toBe(30);
+      expect(local!.timeZone).toBe('Europe/Rome');
+    });
+
+    it('converts across the date line into the local weekday', () => {
+      // Friday 23:30 UTC is already Saturday in Warsaw
+      const local = toLocalDateTime('2026-10-16T23:30:00Z', 'PL');
+
+      expect(local!.date).toBe('2026-10-17');
+      expect(local!.weekday).toBe(6);
+      expect(isWeekendDay(local!)).toBe(true);
+    });
+
+    it('reads datetimes without offset as local wall-clock time', () => {
+      const local = toLocalDateTime('2026-10-16T15:00', 'GB');
+
+      expect(local!.hour).toBe(15);
+      expect(local!.weekday).toBe(5);
+      expect(isWeekendDay(local!)).toBe(false);
+    });
+
+    it('falls back to UTC for unknown countries', () => {
+      const local = toLocalDateTime('2026-10-16T15:00:00+02:00', null);
+
+      expect(local!.timeZone).toBe('UTC');
+      expect(local!.hour).toBe(13);
+    });
+
+    it('returns null for unparseable input', () => {
+      expect(toLocalDateTime('next friday', 'DE')).toBeNull();
+    });
+  });
+
+  it('formats local time for surcharge reasons', () => {
+    const local = toLocalDateTime('2026-10-17T14:05', 'IT')!;
+    expect(formatLocalDateTime(local)).toBe('Saturday 2026-10-17 14:05 Europe/Rome');
+  });
+
+  it('adds hours across midnight and month ends', () => {
+    const local = toLocalDateTime('2026-10-31T20:30', 'PL')!;
+    const later = addHoursToLocalDateTime(local, 29.25);
+
+    expect(toIsoLocalDateTime(later)).toBe('2026-11-02T01:45');
+    expect(later.weekday).toBe(1);
+    expect(later.timeZone).toBe('Europe/Warsaw');
+  });
+
+  it('converts wall-clock time to another time zone', () => {
+    const rome = toLocalDateTime('2026-10-16T10:00', 'IT')!;
+    const london = toTimeZone(rome, 'Europe/London');
+
+    expect(toIsoLocalDateTime(london)).toBe('2026-10-16T09:00');
+    expect(london.timeZone).toBe('Europe/London');
+    // Helsinki is two hours ahead of London in winter too, across midnight
+    const lateLondon = toLocalDateTime('2026-12-31T23:30', 'GB')!;
+    expect(toIsoLocalDateTime(toTimeZone(lateLondon, 'Europe/Helsinki'))).toBe('2027-01-01T01:30');
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Local calendar helpers for time-dependent pricing
+ * Resolves pricingDateTime to the wall-clock time of a country so that
+ * weekend and unloading-hour surcharges follow local time, not UTC.
+ */
+
+import { toAlpha2 } from '../geo/countries.js';
+
+/**
+ * IANA time zone per country (ISO 3166-1 alpha-2)
+ * Countries spanning several zones use their mainland zone.
+ */
+export const COUNTRY_TIME_ZONES: Record<string, string> = {
+  // EU member states
+  AT: 'Europe/Vienna',
+  BE: 'Europe/Brussels',
+  BG: 'Europe/Sofia',
+  HR: 'Europe/Zagreb',
+  CY: 'Asia/Nicosia',
+  CZ: 'Europe/Prague',
+  DK: 'Europe/Copenhagen',
+  EE: 'Europe/Tallinn',
+  FI: 'Europe/Helsinki',
+  FR: 'Europe/Paris',
+  DE: 'Europe/Berlin',
+  GR: 'Europe/Athens',
+  HU: 'Europe/Budapest',
+  IE: 'Europe/Dublin',
+  IT: 'Europe/Rome',
+  LV: 'Europe/Riga',
+  LT: 'Europe/Vilnius',
+  LU: 'Europe/Luxembourg',
+  MT: 'Europe/Malta',
+  NL: 'Europe/Amsterdam',
+  PL: 'Europe/Warsaw',
+  PT: 'Europe/Lisbon',
+  RO: 'Europe/Bucharest',
+  SK: 'Europe/Bratislava',
+  SI: 'Europe/Ljubljana',
+  ES: 'Europe/Madrid',
+  SE: 'Europe/Stockholm',
+  // Non-EU European countries
+  GB: 'Europe/London',
+  NO: 'Europe/Oslo',
+  CH: 'Europe/Zurich',
+  IS: 'Atlantic/Reykjavik',
+  LI: 'Europe/Vaduz',
+  // Additional commonly used
+  UA: 'Europe/Kyiv',
+  BY: 'Europe/Minsk',
+  MD: 'Europe/Chisinau',
+  RS: 'Europe/Belgrade',
+  MK: 'Europe/Skopje',
+  AL: 'Europe/Tirane',
+  ME: 'Europe/Podgorica',
+  BA: 'Europe/Sarajevo',
+  XK: 'Europe/Belgrade',
+  AD: 'Europe/Andorra',
+  MC: 'Europe/Monaco',
+  SM: 'Europe/San_Marino',
+  VA: 'Europe/Vatican',
+  TR: 'Europe/Istanbul',
+};
+
+/**
+ * Time zone used when the country is unknown or not mapped
+ */
+export const FALLBACK_TIME_ZONE = 'UTC';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * ISO datetime: date, time, optional seconds/fraction, optional Z or ±hh:mm offset
+ */
+const ISO_DATETIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Wall-clock date and time in a specific time zone
+ */
+export interface LocalDateTime {
+  /** Local calendar date (YYYY-MM-DD) */
+  date: string;
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** Day of week, 0 = Sunday ... 6 = Saturday */
+  weekday: number;
+  /** IANA time zone the wall-clock time refers to */
+  timeZone: string;
+}
+
+/**
+ * Get IANA time zone for a country code (alpha-2, alpha-3 or UK)
+ */
+export function getTimeZoneForCountry(countryCode: string | null): string | null {
+  const alpha2 = toAlpha2(countryCode);
+  if (!alpha2) return null;
+  return COUNTRY_TIME_ZONES[alpha2] ?? null;
+}
+
+function pad2(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+function buildLocalDateTime(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): LocalDateTime {
+  return {
+    date: `${year}-${pad2(month)}-${pad2(day)}`,
+    year,
+    month,
+    day,
+    hour,
+    minute,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    timeZone,
+  };
+}
+
+/**
+ * Convert an ISO datetime to wall-clock time in the country's time zone
+ *
+ * - With a `Z` or `±hh:mm` offset the value is an absolute instant and is
+ *   converted to the country's local time (DST-aware via Intl).
+ * - Without an offset the value is taken as already being local time in
+ *   that country and is used as-is.
+ *
+ * Returns null if the datetime cannot be parsed.
+ */
+export function toLocalDateTime(
+  isoDateTime: string,
+  countryCode: string | null
+): LocalDateTime | null {
+  const match = ISO_DATETIME_PATTERN.exec(isoDateTime.trim());
+  if (!match) return null;
+
+  const timeZone = getTimeZoneForCountry(countryCode) ?? FALLBACK_TIME_ZONE;
+  const [, y, mo, d, h, mi, , offset] = match;
+
+  if (!offset) {
+    return buildLocalDateTime(Number(y), Number(mo), Number(d), Number(h), Number(mi), timeZone);
+  }
+
+  const instant = new Date(isoDateTime);
+  if (isNaN(instant.getTime())) return null;
+
+  return localDateTimeAt(instant, timeZone);
+}
+
+/**
+ * Wall-clock time of an instant in a time zone (DST-aware via Intl)
+ */
+function localDateTimeAt(instant: Date, timeZone: string): LocalDateTime {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((p) => p.type === type)?.value ?? NaN);
+
+  return buildLocalDateTime(
+    part('year'),
+    part('month'),
+    part('day'),
+    part('hour'),
+    part('minute'),
+    timeZone
+  );
+}
+
+/**
+ * Check if a local date falls on Saturday or Sunday
+ */
+export function isWeekendDay(local: LocalDateTime): boolean {
+  return local.weekday === 0 || local.weekday === 6;
+}
+
+/**
+ * Human-readable local time, e.g. "Saturday 2026-10-17 14:00 Europe/Rome"
+ */
+export function formatLocalDateTime(local: LocalDateTime): string {
+  return `${WEEKDAY_NAMES[local.weekday]} ${local.date} ${pad2(local.hour)}:${pad2(local.minute)} ${local.timeZone}`;
+}
+
+/**
+ * Wall-clock time the given number of hours later in the same time zone
+ * Plain clock arithmetic: a DST change on the way is not applied.
+ */
+export function addHoursToLocalDateTime(local: LocalDateTime, hours: number): LocalDateTime {
+  const shifted = new Date(
+    Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) + Math.round(hours * 60) * 60_000
+  );
+  return buildLocalDateTime(
+    shifted.getUTCFullYear(),
+    shifted.getUTCMonth() + 1,
+    shifted.getUTCDate(),
+    shifted.getUTCHours(),
+    shifted.getUTCMinutes(),
+    local.timeZone
+  );
+}
+
+/**
+ * The same instant as wall-clock time in another time zone
+ * e.g. 10:00 Europe/Rome -> 09:00 Europe/London
+ */
+export function toTimeZone(local: LocalDateTime, timeZone: string): LocalDateTime {
+  const wallClockMs = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  // The zone's offset near that wall-clock time gives the instant
+  const near = localDateTimeAt(new Date(wallClockMs), local.timeZone);
+  const offsetMs = Date.UTC(near.year, near.month - 1, near.day, near.hour, near.minute) - wallClockMs;
+  return localDateTimeAt(new Date(wallClockMs - offsetMs), timeZone);
+}
+
+/**
+ * ISO wall-clock datetime without offset, e.g. "2026-10-17T14:00"
+ */
+export function toIsoLocalDateTime(local: LocalDateTime): string {
+  return `${local.date}T${pad2(local.hour)}:${pad2(local.minute)}`;
+}
@@ -0,0 +1,83 @@
+/**
+ * Vehicle cost models for cost-plus margin calculation
+ * Baseline operating cost assumptions per vehicle profile; replace them with
+ * setCostModels when the fleet's actual figures are known.
+ */
+
+import type { VehicleProfileId } from '../here/vehicle-profiles.js';
+import type { VehicleCostModel } from './types.js';
+
+/**
+ * Built-in cost assumptions (EUR)
+ */
+export const DEFAULT_COST_MODELS: VehicleCostModel[] = [
+  {
+    vehicleProfileId: 'van_8ep',
+    fuelLitresPer100Km: 10,
+    defaultFuelPricePerLitre: 1.6,
+    driverCostPerHour: 25,
+    fixedCostPerDay: 80,
+    drivingHoursPerDay: 9,
+    ferryCostPerCrossing: 250,
+  },
+  {
+    vehicleProfileId: 'solo_18t_23ep',
+    fuelLitresPer100Km: 22,
+    defaultFuelPricePerLitre: 1.6,
+    driverCostPerHour: 28,
+    fixedCostPerDay: 150,
+    drivingHoursPerDay: 9,
+    ferryCostPerCrossing: 400,
+  },
+  {
+    vehicleProfileId: 'ftl_13_6_33ep',
+    fuelLitresPer100Km: 30,
+    defaultFuelPricePerLitre: 1.6,
+    driverCostPerHour: 30,
+    fixedCostPerDay: 220,
+    drivingHoursPerDay: 9,
+    ferryCostPerCrossing: 550,
+  },
+  {
+    vehicleProfileId: 'ftl_mega_13_6_33ep',
+    fuelLitresPer100Km: 31,
+    defaultFuelPricePerLitre: 1.6,
+    driverCostPerHour: 30,
+    fixedCostPerDay: 230,
+    drivingHoursPerDay: 9,
+    ferryCostPerCrossing: 550,
+  },
+  {
+    // Cooling unit diesel is folded into the consumption
+    vehicleProfileId: 'ftl_reefer_13_6_33ep',
+    fuelLitresPer100Km: 34,
+    defaultFuelPricePerLitre: 1.6,
+    driverCostPerHour: 30,
+    fixedCostPerDay: 280,
+    drivingHoursPerDay: 9,
+    ferryCostPerCrossing: 600,
+  },
+];
+
+let costModels = new Map(DEFAULT_COST_MODELS.map((model) => [model.vehicleProfileId, model]));
+
+/**
+ * Get the cost model of a vehicle profile
+ */
+export function getCostModel(vehicleProfileId: VehicleProfileId): VehicleCostModel | null {
+  return costModels.get(vehicleProfileId) ?? null;
+}
+
+/**
+ * Replace the cost models
+ */
+export function setCostModels(models: VehicleCostModel[]): void {
+  costModels = new Map(models.map((model) => [model.vehicleProfileId, model]));
+}
+
+/**
+ * Restore the built-in cost models
+ */
+export function resetCostModels(): void {
+  setCostModels(DEFAULT_COST_MODELS);
+}
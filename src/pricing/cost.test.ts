@@ -0,0 +1,196 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { calculateCost, calculateMargin } from './cost.js';
+import { setCostModels, resetCostModels, DEFAULT_COST_MODELS } from './cost-models.js';
+import { setFuelIndex } from './fuel-index.js';
+import type { PricingResult } from './types.js';
+import { createRouteFacts, type RouteFacts } from '../types/route-facts.js';
+import { VEHICLE_PROFILE_IDS } from '../here/vehicle-profiles.js';
+import type { FerryCrossingId } from '../here/ferry-crossings.js';
+
+function createTestRouteFacts(overrides: {
+  distanceKm?: number;
+  durationHours?: number | null;
+  tollCostEstimate?: number | null;
+  hasTollRoads?: boolean;
+  ferrySegments?: number;
+  ferryCrossingIds?: Array<FerryCrossingId | null>;
+  hasChannelTunnel?: boolean;
+} = {}): RouteFacts {
+  const ferryCrossings = (overrides.ferryCrossingIds ?? []).map((crossingId) => ({
+    crossingId,
+    name: null,
+    durationHours: null,
+    departsAfterHours: null,
+  }));
+  const ferrySegments = overrides.ferrySegments ?? ferryCrossings.length;
+  return createRouteFacts({
+    route: {
+      distanceKm: overrides.distanceKm ?? 1000,
+      durationHours: overrides.durationHours === undefined ? 12 : overrides.durationHours,
+      baseDurationHours: null,
+      typicalDurationHours: null,
+      sections: 1,
+    },
+    infrastructure: {
+      hasFerry: ferrySegments > 0,
+      ferrySegments,
+      ferryCrossings,
+      hasChannelTunnel: overrides.hasChannelTunnel ?? false,
+      hasTollRoads: overrides.hasTollRoads ?? true,
+      tollCountries: ['DE'],
+      tollCostEstimate: overrides.tollCostEstimate === undefined ? 150 : overrides.tollCostEstimate,
+      hasTunnel: false,
+      tunnels: [],
+    },
+  });
+}
+
+describe('cost-plus calculation', () => {
+  afterEach(() => {
+    resetCostModels();
+    setFuelIndex([]);
+  });
+
+  const soloModel = DEFAULT_COST_MODELS.find((m) => m.vehicleProfileId === 'solo_18t_23ep')!;
+
+  describe('calculateCost', () => {
+    it('sums fuel, driver, vehicle days, tolls and ferries', () => {
+      setCostModels([{
+        ...soloModel,
+        fuelLitresPer100Km: 25,
+        defaultFuelPricePerLitre: 1.5,
+        driverCostPerHour: 30,
+        fixedCostPerDay: 200,
+        drivingHoursPerDay: 9,
+        ferryCostPerCrossing: 400,
+      }]);
+
+      const { cost, warnings } = calculateCost(
+        'solo_18t_23ep',
+        createTestRouteFacts({ distanceKm: 1000, durationHours: 12, ferrySegments: 1 }),
+        '2026-10-19'
+      );
+
+      expect(cost).toEqual({
+        // 1000 km * 25 l/100 km * 1.5
+        fuel: { litres: 250, pricePerLitre: 1.5, priceSource: 'default', amount: 375 },
+        driver: { hours: 12, amount: 360 },
+        // 12 h at 9 h/day -> 2 days
+        vehicle: { days: 2, amount: 400 },
+        tolls: 150,
+        ferry: { crossings: 1, amount: 400 },
+        channelTunnel: 0,
+        total: 1685,
+      });
+      expect(warnings).toEqual([]);
+    });
+
+    it('costs registered ferry crossings at their ticket price', () => {
+      const { cost } = calculateCost(
+        'solo_18t_23ep',
+        createTestRouteFacts({ ferryCrossingIds: ['gdynia-karlskrona', null] }),
+        '2026-10-19'
+      );
+
+      // Gdynia - Karlskrona ticket 490 + unknown crossing at the flat 400
+      expect(cost.ferry).toEqual({ crossings: 2, amount: 890 });
+    });
+
+    it('costs Le Shuttle through the Channel Tunnel at its fare', () => {
+      const withoutTunnel = calculateCost('solo_18t_23ep', createTestRouteFacts(), '2026-10-19').cost;
+      const { cost } = calculateCost(
+        'solo_18t_23ep',
+        createTestRouteFacts({ hasChannelTunnel: true }),
+        '2026-10-19'
+      );
+
+      expect(cost.ferry).toEqual({ crossings: 0, amount: 0 });
+      expect(cost.channelTunnel).toBe(320);
+      expect(cost.total).toBe(withoutTunnel.total + 320);
+    });
+
+    it('prices diesel from the fuel index valid on the date', () => {
+      setFuelIndex([{ validFrom: '2026-10-01', pricePerLitre: 1.7 }]);
+
+      const { cost } = calculateCost('solo_18t_23ep', createTestRouteFacts({ distanceKm: 100 }), '2026-10-19');
+
+      expect(cost.fuel.priceSource).toBe('index');
+      expect(cost.fuel.pricePerLitre).toBe(1.7);
+      expect(cost.fuel.amount).toBe(37.4);
+    });
+
+    it('estimates missing duration and tolls with warnings', () => {
+      const { cost, warnings } = calculateCost(
+        'solo_18t_23ep',
+        createTestRouteFacts({ distanceKm: 600, durationHours: null, tollCostEstimate: null }),
+        '2026-10-19'
+      );
+
+      expect(cost.driver.hours).toBe(10);
+      expect(cost.tolls).toBe(0);
+      expect(warnings).toEqual([
+        'Route duration unknown; driver time estimated at 60 km/h',
+        'Route has toll roads but no toll cost estimate; tolls counted as 0',
+      ]);
+    });
+
+    it('has a built-in cost model for every vehicle profile', () => {
+      for (const id of VEHICLE_PROFILE_IDS) {
+        expect(() => calculateCost(id, createTestRouteFacts(), '2026-10-19')).not.toThrow();
+      }
+    });
+
+    it('throws for a vehicle without cost model', () => {
+      setCostModels([]);
+
+      expect(() => calculateCost('van_8ep', createTestRouteFacts(), '2026-10-19'))
+        .toThrow('No cost model for vehicle van_8ep');
+    });
+  });
+
+  describe('calculateMargin', () => {
+    it('reports margin against the quote final price', () => {
+      const quote = {
+        finalPrice: 2000,
+        pricingDate: '2026-10-19',
+        lineItems: { partialLoad: null },
+      } as unknown as PricingResult;
+      const routeFacts = createTestRouteFacts({ distanceKm: 1000, durationHours: 12 });
+      const { cost } = calculateCost('solo_18t_23ep', routeFacts, '2026-10-19');
+
+      const margin = calculateMargin('solo_18t_23ep', routeFacts, quote);
+
+      expect(margin.revenue).toBe(2000);
+      expect(margin.costSharePercent).toBe(100);
+      expect(margin.allocatedCost).toBe(cost.total);
+      expect(margin.margin).toBe(2000 - cost.total);
+      expect(margin.marginPercent).toBe(Math.round(((2000 - cost.total) / 2000) * 10000) / 100);
+    });
+
+    it('allocates the route cost of a partial load by its share of the vehicle', () => {
+      const quote = {
+        finalPrice: 800,
+        pricingDate: '2026-10-19',
+        lineItems: { partialLoad: { sharePercent: 25, billedSharePercent: 40 } },
+      } as unknown as PricingResult;
+      const routeFacts = createTestRouteFacts();
+      const { cost } = calculateCost('solo_18t_23ep', routeFacts, '2026-10-19');
+
+      const margin = calculateMargin('solo_18t_23ep', routeFacts, quote);
+
+      expect(margin.costSharePercent).toBe(25);
+      expect(margin.allocatedCost).toBe(Math.round(cost.total * 25) / 100);
+      expect(margin.margin).toBe(Math.round((800 - margin.allocatedCost) * 100) / 100);
+    });
+
+    it('has no margin percent for a zero price', () => {
+      const quote = {
+        finalPrice: 0,
+        pricingDate: '2026-10-19',
+        lineItems: { partialLoad: null },
+      } as unknown as PricingResult;
+
+      expect(calculateMargin('solo_18t_23ep', createTestRouteFacts(), quote).marginPercent).toBeNull();
+    });
+  });
+});
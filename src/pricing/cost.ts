@@ -0,0 +1,117 @@
+/**
+ * Cost-plus calculation
+ * Estimates the internal cost of running a route with a vehicle (fuel, driver,
+ * vehicle fixed cost, tolls, ferries, Le Shuttle) and the margin the market price leaves.
+ */
+
+import type { RouteFacts } from '../types/route-facts.js';
+import type { VehicleProfileId } from '../here/vehicle-profiles.js';
+import { findFerryCrossingById } from '../here/ferry-crossings.js';
+import { CHANNEL_TUNNEL } from '../here/channel-crossing.js';
+import type { CostBreakdown, MarginAnalysis, PricingResult } from './types.js';
+import { getCostModel } from './cost-models.js';
+import { findFuelIndexValue } from './fuel-index.js';
+import { roundAmount } from './rounding.js';
+
+/**
+ * Average truck speed used when HERE returns no duration
+ */
+const FALLBACK_AVERAGE_SPEED_KMH = 60;
+
+/**
+ * Calculate the internal cost of a route
+ * Diesel is priced from the fuel index valid on costDate (YYYY-MM-DD), falling
+ * back to the cost model's default price.
+ * @throws Error if the vehicle profile has no cost model
+ */
+export function calculateCost(
+  vehicleProfileId: VehicleProfileId,
+  routeFacts: RouteFacts,
+  costDate: string
+): { cost: CostBreakdown; warnings: string[] } {
+  const model = getCostModel(vehicleProfileId);
+  if (!model) {
+    throw new Error(`No cost model for vehicle ${vehicleProfileId}`);
+  }
+
+  const warnings: string[] = [];
+  const { distanceKm, durationHours } = routeFacts.route;
+  const { infrastructure } = routeFacts;
+
+  const indexValue = findFuelIndexValue(costDate);
+  const pricePerLitre = indexValue?.pricePerLitre ?? model.defaultFuelPricePerLitre;
+  const litres = (distanceKm * model.fuelLitresPer100Km) / 100;
+
+  let hours = durationHours;
+  if (hours === null) {
+    hours = distanceKm / FALLBACK_AVERAGE_SPEED_KMH;
+    warnings.push(`Route duration unknown; driver time estimated at ${FALLBACK_AVERAGE_SPEED_KMH} km/h`);
+  }
+  const days = Math.max(1, Math.ceil(hours / model.drivingHoursPerDay));
+
+  const tolls = infrastructure.tollCostEstimate ?? 0;
+  if (infrastructure.hasTollRoads && infrastructure.tollCostEstimate === null) {
+    warnings.push('Route has toll roads but no toll cost estimate; tolls counted as 0');
+  }
+
+  // Crossings in the ferry registry cost their ticket; others the model's flat cost
+  const crossings = infrastructure.hasFerry ? Math.max(1, infrastructure.ferrySegments) : 0;
+  const ticketCosts = infrastructure.ferryCrossings
+    .map(({ crossingId }) => findFerryCrossingById(crossingId)?.costs[vehicleProfileId])
+    .filter((cost) => cost !== undefined);
+  const ferryCost = ticketCosts.reduce((sum, cost) => sum + cost, 0) +
+    (crossings - ticketCosts.length) * model.ferryCostPerCrossing;
+
+  const fuelAmount = roundAmount(litres * pricePerLitre);
+  const driverAmount = roundAmount(hours * model.driverCostPerHour);
+  const vehicleAmount = roundAmount(days * model.fixedCostPerDay);
+  const ferryAmount = roundAmount(ferryCost);
+  const channelTunnelAmount = infrastructure.hasChannelTunnel ? roundAmount(CHANNEL_TUNNEL.costs[vehicleProfileId]) : 0;
+  const tollAmount = roundAmount(tolls);
+
+  return {
+    cost: {
+      fuel: {
+        litres: roundAmount(litres),
+        pricePerLitre,
+        priceSource: indexValue ? 'index' : 'default',
+        amount: fuelAmount,
+      },
+      driver: { hours: roundAmount(hours), amount: driverAmount },
+      vehicle: { days, amount: vehicleAmount },
+      tolls: tollAmount,
+      ferry: { crossings, amount: ferryAmount },
+      channelTunnel: channelTunnelAmount,
+      total: roundAmount(fuelAmount + driverAmount + vehicleAmount + tollAmount + ferryAmount + channelTunnelAmount),
+    },
+    warnings,
+  };
+}
+
+/**
+ * Compare a quote's market price with the internal cost of the route
+ * Costs use the quote's pricing date for the diesel index. A partial load
+ * carries the share of the route cost its shipment takes up of the vehicle.
+ */
+export function calculateMargin(
+  vehicleProfileId: VehicleProfileId,
+  routeFacts: RouteFacts,
+  quote: PricingResult
+): MarginAnalysis {
+  const { cost, warnings } = calculateCost(vehicleProfileId, routeFacts, quote.pricingDate);
+  const revenue = quote.finalPrice;
+  const costSharePercent = quote.lineItems.partialLoad?.sharePercent ?? 100;
+  const allocatedCost = roundAmount((cost.total * costSharePercent) / 100);
+  const margin = roundAmount(revenue - allocatedCost);
+
+  return {
+    vehicleProfileId,
+    cost,
+    revenue,
+    costSharePercent,
+    allocatedCost,
+    margin,
+    marginPercent: revenue !== 0 ? roundAmount((margin / revenue) * 100) : null,
+    warnings,
+  };
+}
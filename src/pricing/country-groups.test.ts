@@ -0,0 +1,86 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DEFAULT_COUNTRY_GROUPS,
+  CountryGroupError,
+  resolveCountryGroups,
+  setCountryGroups,
+  resetCountryGroups,
+  countryMatchesGroup,
+  getCountryGroupsOf,
+  isCountryGroup,
+} from './country-groups.js';
+
+describe('country groups', () => {
+  afterEach(() => {
+    resetCountryGroups();
+  });
+
+  describe('built-in groups', () => {
+    it('matches alpha-2, alpha-3 and UK codes', () => {
+      expect(countryMatchesGroup('PL', 'PL')).toBe(true);
+      expect(countryMatchesGroup('POL', 'PL')).toBe(true);
+      expect(countryMatchesGroup('UK', 'UK')).toBe(true);
+      expect(countryMatchesGroup('GBR', 'UK')).toBe(true);
+      expect(countryMatchesGroup('NOR', 'SCANDI')).toBe(true);
+      expect(countryMatchesGroup('est', 'BALTIC')).toBe(true);
+      expect(countryMatchesGroup('DE', 'PL')).toBe(false);
+    });
+
+    it('includes the UK in the EU lane group but not Switzerland', () => {
+      expect(countryMatchesGroup('ESP', 'EU')).toBe(true);
+      expect(countryMatchesGroup('GB', 'EU')).toBe(true);
+      expect(countryMatchesGroup('CH', 'EU')).toBe(false);
+    });
+
+    it('matches unknown countries only with ANY', () => {
+      expect(countryMatchesGroup(null, 'ANY')).toBe(true);
+      expect(countryMatchesGroup('XYZ', 'ANY')).toBe(true);
+      expect(countryMatchesGroup(null, 'EU')).toBe(false);
+      expect(countryMatchesGroup('PL', 'NOPE')).toBe(false);
+    });
+
+    it('lists every group a country belongs to', () => {
+      expect(getCountryGroupsOf('SWE')).toEqual(['SCANDI', 'EU']);
+      expect(getCountryGroupsOf('CH')).toEqual([]);
+      expect(getCountryGroupsOf(null)).toEqual([]);
+    });
+  });
+
+  describe('configured groups', () => {
+    it('supports nesting and exclusions', () => {
+      setCountryGroups({
+        ...DEFAULT_COUNTRY_GROUPS,
+        BENELUX: { countries: ['BE', 'NL', 'LU'] },
+        EU_EX_IT: { groups: ['EU'], excludeCountries: ['IT'] },
+        EU_EX_BENELUX: { groups: ['EU'], excludeGroups: ['BENELUX', 'UK'] },
+      });
+
+      expect(countryMatchesGroup('NLD', 'BENELUX')).toBe(true);
+      expect(countryMatchesGroup('DE', 'EU_EX_IT')).toBe(true);
+      expect(countryMatchesGroup('IT', 'EU_EX_IT')).toBe(false);
+      expect(countryMatchesGroup('BE', 'EU_EX_BENELUX')).toBe(false);
+      expect(countryMatchesGroup('GB', 'EU_EX_BENELUX')).toBe(false);
+      expect(countryMatchesGroup('FR', 'EU_EX_BENELUX')).toBe(true);
+      expect(isCountryGroup('BENELUX')).toBe(true);
+    });
+
+    it('replaces the built-in groups', () => {
+      setCountryGroups({ IBERIA: { countries: ['ES', 'PT'] } });
+
+      expect(isCountryGroup('IBERIA')).toBe(true);
+      expect(isCountryGroup('EU')).toBe(false);
+      expect(isCountryGroup('ANY')).toBe(true);
+    });
+
+    it('rejects unknown references, cycles, empty groups and ANY', () => {
+      expect(() => resolveCountryGroups({ A: { groups: ['B'] } }))
+        .toThrow('Unknown country group "B" referenced by "A"');
+      expect(() => resolveCountryGroups({ A: { groups: ['B'] }, B: { groups: ['A'] } }))
+        .toThrow('Country group cycle: A -> B -> A');
+      expect(() => resolveCountryGroups({ A: { countries: ['IT'], excludeCountries: ['IT'] } }))
+        .toThrow('Country group "A" has no countries');
+      expect(() => resolveCountryGroups({ ANY: { countries: ['IT'] } }))
+        .toThrow(CountryGroupError);
+    });
+  });
+});
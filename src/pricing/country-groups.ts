@@ -0,0 +1,177 @@
+/**
+ * Named country groups for lane matching
+ * Groups are defined as data (built-in defaults or a config file) and resolved
+ * to sets of ISO alpha-2 codes. A group may list countries, include other
+ * groups and exclude countries or groups, e.g. "EU minus IT".
+ */
+
+import { EU_COUNTRIES, toAlpha2 } from '../geo/countries.js';
+
+/**
+ * Reserved group matching every country, including unknown ones
+ */
+export const ANY_COUNTRY_GROUP = 'ANY';
+
+/**
+ * Definition of a named country group
+ * Members are `countries` plus the members of `groups`, minus
+ * `excludeCountries` and the members of `excludeGroups`.
+ */
+export interface CountryGroupDefinition {
+  /** ISO alpha-2 country codes */
+  countries?: string[];
+  /** Names of groups whose members are included */
+  groups?: string[];
+  /** ISO alpha-2 country codes removed from the group */
+  excludeCountries?: string[];
+  /** Names of groups whose members are removed from the group */
+  excludeGroups?: string[];
+}
+
+export type CountryGroupDefinitions = Record<string, CountryGroupDefinition>;
+
+/**
+ * Built-in country groups
+ *
+ * Note: the 'EU' lane group means "European coverage" for pricing purposes and
+ * intentionally also includes the UK. Every EU-lane market model carries a
+ * ukFerry surcharge and/or ukMin, which handle the UK-specific pricing; more
+ * specific UK lanes (e.g. solo-it-uk) are listed before EU lanes and win first.
+ */
+export const DEFAULT_COUNTRY_GROUPS: CountryGroupDefinitions = {
+  PL: { countries: ['PL'] },
+  IT: { countries: ['IT'] },
+  DE: { countries: ['DE'] },
+  FR: { countries: ['FR'] },
+  UK: { countries: ['GB'] },
+  SCANDI: { countries: ['SE', 'NO', 'DK', 'FI'] },
+  BALTIC: { countries: ['LT', 'LV', 'EE'] },
+  EU: { countries: Array.from(EU_COUNTRIES), groups: ['UK'] },
+};
+
+/**
+ * Invalid group definitions (unknown references, cycles, empty groups)
+ */
+export class CountryGroupError extends Error {
+  constructor(
+    message: string,
+    public readonly group: string
+  ) {
+    super(message);
+    this.name = 'CountryGroupError';
+  }
+}
+
+/**
+ * Resolve group definitions to member sets
+ * @throws CountryGroupError on unknown group references, cycles, a group named
+ * ANY, or a group without members
+ */
+export function resolveCountryGroups(
+  definitions: CountryGroupDefinitions
+): Map<string, ReadonlySet<string>> {
+  const resolved = new Map<string, ReadonlySet<string>>();
+
+  const resolve = (name: string, path: string[]): ReadonlySet<string> => {
+    const cached = resolved.get(name);
+    if (cached) return cached;
+
+    const definition = definitions[name];
+    const referrer = path[path.length - 1];
+    if (!definition) {
+      throw new CountryGroupError(`Unknown country group "${name}" referenced by "${referrer}"`, referrer);
+    }
+    if (path.includes(name)) {
+      throw new CountryGroupError(`Country group cycle: ${[...path, name].join(' -> ')}`, name);
+    }
+
+    const nextPath = [...path, name];
+    const members = new Set(definition.countries ?? []);
+    for (const included of definition.groups ?? []) {
+      resolve(included, nextPath).forEach((code) => members.add(code));
+    }
+    for (const excluded of definition.excludeGroups ?? []) {
+      resolve(excluded, nextPath).forEach((code) => members.delete(code));
+    }
+    for (const code of definition.excludeCountries ?? []) {
+      members.delete(code);
+    }
+
+    resolved.set(name, members);
+    return members;
+  };
+
+  for (const name of Object.keys(definitions)) {
+    if (name === ANY_COUNTRY_GROUP) {
+      throw new CountryGroupError(`"${ANY_COUNTRY_GROUP}" is reserved and matches every country`, name);
+    }
+    if (resolve(name, []).size === 0) {
+      throw new CountryGroupError(`Country group "${name}" has no countries`, name);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Country groups currently used for lane matching
+ */
+let countryGroups = resolveCountryGroups(DEFAULT_COUNTRY_GROUPS);
+
+/**
+ * Get the names of all defined groups (ANY excluded)
+ */
+export function getCountryGroupNames(): string[] {
+  return Array.from(countryGroups.keys());
+}
+
+/**
+ * Check if a group name can be used in a lane
+ */
+export function isCountryGroup(name: string): boolean {
+  return name === ANY_COUNTRY_GROUP || countryGroups.has(name);
+}
+
+/**
+ * Get the alpha-2 members of a group (null for unknown groups and ANY)
+ */
+export function getCountryGroupMembers(name: string): ReadonlySet<string> | null {
+  return countryGroups.get(name) ?? null;
+}
+
+/**
+ * Replace the country groups (e.g. from a config file)
+ * @throws CountryGroupError if the definitions do not resolve
+ */
+export function setCountryGroups(definitions: CountryGroupDefinitions): void {
+  countryGroups = resolveCountryGroups(definitions);
+}
+
+/**
+ * Restore the built-in country groups
+ */
+export function resetCountryGroups(): void {
+  countryGroups = resolveCountryGroups(DEFAULT_COUNTRY_GROUPS);
+}
+
+/**
+ * Get the names of all groups a country belongs to (ANY excluded)
+ */
+export function getCountryGroupsOf(countryCode: string | null): string[] {
+  const code = toAlpha2(countryCode);
+  if (!code) return [];
+  return getCountryGroupNames().filter((name) => countryGroups.get(name)?.has(code));
+}
+
+/**
+ * Check if a country (alpha-2, alpha-3 or UK) matches a group
+ * A missing country only matches ANY.
+ */
+export function countryMatchesGroup(countryCode: string | null, group: string): boolean {
+  if (group === ANY_COUNTRY_GROUP) return true;
+
+  const code = toAlpha2(countryCode);
+  if (!code) return false;
+
+  return countryGroups.get(group)?.has(code) ?? false;
+}
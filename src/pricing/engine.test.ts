@@ -1,11 +1,20 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import {
   findMatchingModel,
   calculatePrice,
   calculateQuote,
+  explainModelSelection,
 } from './engine.js';
-import { SOLO_MODELS } from './market-models.js';
+import { NoExchangeRateError, NoPricingModelError, ShipmentCapacityError } from './errors.js';
+import { SOLO_MODELS, setMarketModels, resetMarketModels } from './market-models.js';
+import { setFuelIndex } from './fuel-index.js';
+import { setExchangeRates } from './exchange-rates.js';
+import { setRateCards } from './rate-cards.js';
+import { setDefaultRoundingPolicy, resetDefaultRoundingPolicy } from './rounding.js';
+import { DEFAULT_COUNTRY_GROUPS, setCountryGroups, resetCountryGroups } from './country-groups.js';
+import type { MarketModel } from './types.js';
 import { createRouteFacts, type RouteFacts } from '../types/route-facts.js';
+import type { FerryCrossingId } from '../here/ferry-crossings.js';
 
 /**
  * Create a test RouteFacts with specified values
@@ -19,26 +28,42 @@ function createTestRouteFacts(overrides: {
   crossesAlps?: boolean;
   hasTunnel?: boolean;
   tunnels?: Array<{ name: string | null; category: string | null; country: string | null }>;
+  tollCostEstimate?: number | null;
+  ferryCrossingIds?: Array<FerryCrossingId | null>;
+  hasChannelTunnel?: boolean;
+  originPostalCode?: string | null;
+  destinationPostalCode?: string | null;
 }): RouteFacts {
   return createRouteFacts({
     route: {
       distanceKm: overrides.distanceKm ?? 500,
       durationHours: 6,
+      baseDurationHours: null,
+      typicalDurationHours: null,
       sections: 1,
     },
     geography: {
       originCountry: overrides.originCountry ?? 'POL',
       destinationCountry: overrides.destinationCountry ?? 'DEU',
+      originPostalCode: overrides.originPostalCode ?? null,
+      destinationPostalCode: overrides.destinationPostalCode ?? null,
       countriesCrossed: overrides.countriesCrossed ?? ['POL', 'DEU'],
       isInternational: true,
       isEU: true,
     },
     infrastructure: {
-      hasFerry: false,
-      ferrySegments: 0,
+      hasFerry: (overrides.ferryCrossingIds ?? []).length > 0,
+      ferrySegments: (overrides.ferryCrossingIds ?? []).length,
+      ferryCrossings: (overrides.ferryCrossingIds ?? []).map((crossingId) => ({
+        crossingId,
+        name: null,
+        durationHours: null,
+        departsAfterHours: null,
+      })),
+      hasChannelTunnel: overrides.hasChannelTunnel ?? false,
       hasTollRoads: true,
       tollCountries: ['DEU'],
-      tollCostEstimate: null,
+      tollCostEstimate: overrides.tollCostEstimate ?? null,
       hasTunnel: overrides.hasTunnel ?? false,
       tunnels: overrides.tunnels ?? [],
     },
@@ -716,6 +741,1283 @@ describe('Pricing Engine', () => {
     });
   });
 
+  describe('weekend and after-14:00 unloading surcharges', () => {
+    const model: MarketModel = {
+      ...SOLO_MODELS.find((m) => m.id === 'solo-pl-eu')!,
+      surcharges: [
+        { type: 'weekend', amount: 150, description: 'Weekend delivery' },
+        { type: 'unloadingAfter14', amount: 80, description: 'Unloading after 14:00' },
+      ],
+    };
+
+    it('applies neither surcharge without pricingDateTime or flags', () => {
+      const routeFacts = createTestRouteFacts({ destinationCountry: 'DE' });
+
+      const result = calculatePrice(model, routeFacts);
+
+      expect(result.lineItems.surcharges).toHaveLength(0);
+    });
+
+    it('derives weekend from pricingDateTime in destination local time', () => {
+      const routeFacts = createTestRouteFacts({ distanceKm: 500, destinationCountry: 'IT' });
+
+      // Friday 23:30 UTC = Saturday 01:30 in Rome
+      const result = calculatePrice(model, routeFacts, {
+        pricingDateTime: '2026-10-16T23:30:00Z',
+      });
+
+      const weekend = result.lineItems.surcharges.find((s) => s.type === 'weekend');
+      expect(weekend).toBeDefined();
+      expect(weekend!.amount).toBe(150);
+      expect(weekend!.reason).toContain('Saturday 2026-10-17 01:30 Europe/Rome');
+      expect(weekend!.reason).toContain('destination IT');
+      expect(result.lineItems.surcharges.some((s) => s.type === 'unloadingAfter14')).toBe(false);
+      // (500 + 200) * 1.0 + 150 = 850
+      expect(result.finalPrice).toBe(850);
+    });
+
+    it('derives unloadingAfter14 from the local hour', () => {
+      const routeFacts = createTestRouteFacts({ destinationCountry: 'DEU' });
+
+      // 12:30 UTC = 14:30 in Berlin (summer time), a Wednesday
+      const result = calculatePrice(model, routeFacts, {
+        pricingDateTime: '2026-07-01T12:30:00Z',
+      });
+
+      expect(result.lineItems.surcharges).toHaveLength(1);
+      expect(result.lineItems.surcharges[0].type).toBe('unloadingAfter14');
+      expect(result.lineItems.surcharges[0].reason).toContain('14:30 Europe/Berlin');
+    });
+
+    it('does not apply unloadingAfter14 before 14:00 local time', () => {
+      const routeFacts = createTestRouteFacts({ destinationCountry: 'GB' });
+
+      // 13:30 UTC = 14:30 in Berlin but 13:30 in London (winter time)
+      const result = calculatePrice(model, routeFacts, {
+        pricingDateTime: '2026-01-14T13:30:00Z',
+      });
+
+      expect(result.lineItems.surcharges).toHaveLength(0);
+    });
+
+    it('lets explicit request flags override the derived values', () => {
+      const routeFacts = createTestRouteFacts({ destinationCountry: 'IT' });
+
+      const result = calculatePrice(model, routeFacts, {
+        pricingDateTime: '2026-10-17T16:00',
+        isWeekend: false,
+        unloadingAfter14: true,
+      });
+
+      expect(result.lineItems.surcharges).toHaveLength(1);
+      expect(result.lineItems.surcharges[0].type).toBe('unloadingAfter14');
+      expect(result.lineItems.surcharges[0].reason).toBe('unloadingAfter14 set on request');
+    });
+  });
+
+  describe('ADR surcharge', () => {
+    const model: MarketModel = {
+      id: 'test-adr',
+      name: 'Test ADR',
+      vehicleProfileId: 'solo_18t_23ep',
+      lane: { origin: 'PL', destination: 'EU' },
+      perKmRate: 2,
+      surcharges: [{ type: 'adr', amount: 150, description: 'ADR dangerous goods' }],
+    };
+
+    it('applies when the route carries dangerous goods', () => {
+      const routeFacts = createTestRouteFacts({ distanceKm: 100 });
+      routeFacts.regulatory.adrRequired = true;
+
+      const result = calculatePrice(model, routeFacts);
+
+      expect(result.lineItems.surcharges).toEqual([
+        { type: 'adr', description: 'ADR dangerous goods', amount: 150 },
+      ]);
+      expect(result.finalPrice).toBe(350);
+    });
+
+    it('does not apply when ADR is not required or unknown', () => {
+      const routeFacts = createTestRouteFacts({ distanceKm: 100 });
+
+      expect(calculatePrice(model, routeFacts).lineItems.surcharges).toEqual([]);
+      routeFacts.regulatory.adrRequired = false;
+      expect(calculatePrice(model, routeFacts).lineItems.surcharges).toEqual([]);
+    });
+  });
+
+  describe('regional surcharges', () => {
+    const model: MarketModel = {
+      id: 'test-regions',
+      name: 'Test regions',
+      vehicleProfileId: 'solo_18t_23ep',
+      lane: { origin: 'PL', destination: 'EU' },
+      perKmRate: 1,
+      surcharges: [
+        { type: 'scandinavia', amount: 150, description: 'Scandinavia surcharge' },
+        { type: 'baltic', amount: 120, description: 'Baltic states surcharge' },
+        { type: 'island', amount: 250, description: 'Island delivery surcharge' },
+      ],
+    };
+
+    it('applies the Baltic surcharge citing the Baltic countries on the route', () => {
+      const routeFacts = createTestRouteFacts({
+        distanceKm: 800,
+        destinationCountry: 'EE',
+        countriesCrossed: ['PL', 'LT', 'LV', 'EE'],
+      });
+      routeFacts.riskFlags.isBaltic = true;
+
+      const result = calculatePrice(model, routeFacts);
+
+      expect(result.lineItems.surcharges).toEqual([
+        { type: 'baltic', description: 'Baltic states surcharge', amount: 120, reason: 'Route reaches LT, LV, EE' },
+      ]);
+      expect(result.finalPrice).toBe(920);
+    });
+
+    it('cites the registered ferry into Scandinavia', () => {
+      const routeFacts = createTestRouteFacts({
+        distanceKm: 700,
+        destinationCountry: 'SE',
+        countriesCrossed: ['PL', 'SE'],
+        ferryCrossingIds: ['gdynia-karlskrona'],
+      });
+      routeFacts.riskFlags.isScandinavia = true;
+
+      expect(calculatePrice(model, routeFacts).lineItems.surcharges).toEqual([
+        {
+          type: 'scandinavia',
+          description: 'Scandinavia surcharge',
+          amount: 150,
+          reason: 'Route reaches SE via ferry Gdynia – Karlskrona',
+        },
+      ]);
+    });
+
+    it('leaves Great Britain to the ukFerry surcharge', () => {
+      const routeFacts = createTestRouteFacts({
+        destinationCountry: 'GB',
+        countriesCrossed: ['PL', 'DE', 'FR', 'GB'],
+        ferryCrossingIds: [null],
+        isUK: true,
+      });
+      routeFacts.riskFlags.isIsland = true;
+
+      expect(calculatePrice(model, routeFacts).lineItems.surcharges).toEqual([]);
+    });
+
+    it('does not apply without the risk flags', () => {
+      const routeFacts = createTestRouteFacts({ destinationCountry: 'SE', countriesCrossed: ['PL', 'SE'] });
+
+      expect(calculatePrice(model, routeFacts).lineItems.surcharges).toEqual([]);
+    });
+  });
+
+  describe('public holiday surcharge', () => {
+    const model: MarketModel = {
+      ...SOLO_MODELS.find((m) => m.id === 'solo-pl-eu')!,
+      surcharges: [
+        { type: 'publicHoliday', amount: 250, description: 'Public holiday surcharge' },
+      ],
+    };
+
+    it('applies when pricingDateTime is a holiday in the destination country', () => {
+      const routeFacts = createTestRouteFacts({ distanceKm: 1100, originCountry: 'PL', destinationCountry: 'IT' });
+
+      const result = calculatePrice(model, routeFacts, { pricingDateTime: '2026-06-02T09:00' });
+
+      expect(result.lineItems.surcharges).toHaveLength(1);
+      const holiday = result.lineItems.surcharges[0];
+      expect(holiday.type).toBe('publicHoliday');
+      expect(holiday.description).toBe('Public holiday surcharge: Republic Day');
+      expect(holiday.reason).toBe('Republic Day (IT, destination) on 2026-06-02');
+      // (1100 + 200) * 1.0 + 250 = 1550
+      expect(result.finalPrice).toBe(1550);
+      expect(result.warnings).toEqual([
+        'pricingDateTime falls on a public holiday: Republic Day (IT, destination) on 2026-06-02',
+      ]);
+    });
+
+    it('applies when only the origin country has a holiday', () => {
+      const routeFacts = createTestRouteFacts({ originCountry: 'POL', destinationCountry: 'DEU' });
+
+      // 3 May: Polish Constitution Day, regular Sunday in Germany
+      const result = calculatePrice(model, routeFacts, { pricingDateTime: '2026-05-03T10:00:00+02:00' });
+
+      expect(result.lineItems.surcharges).toHaveLength(1);
+      expect(result.lineItems.surcharges[0].reason).toContain('(PL, origin)');
+    });
+
+    it('charges once when both ends have a holiday', () => {
+      const routeFacts = createTestRouteFacts({ originCountry: 'PL', destinationCountry: 'DE' });
+
+      const result = calculatePrice(model, routeFacts, { pricingDateTime: '2026-12-25T08:00' });
+
+      expect(result.lineItems.surcharges).toHaveLength(1);
+      expect(result.lineItems.surcharges[0].description).toBe('Public holiday surcharge: Christmas Day');
+      expect(result.warnings).toHaveLength(2);
+    });
+
+    it('warns about holidays even when the model has no holiday surcharge', () => {
+      const plainModel = SOLO_MODELS.find((m) => m.id === 'solo-pl-eu')!;
+      const routeFacts = createTestRouteFacts({ originCountry: 'PL', destinationCountry: 'DE' });
+
+      const result = calculatePrice(plainModel, routeFacts, { pricingDateTime: '2026-10-03T12:00' });
+
+      expect(result.lineItems.surcharges).toHaveLength(0);
+      expect(result.warnings[0]).toContain('German Unity Day (DE, destination)');
+    });
+
+    it('does not apply on working days', () => {
+      const routeFacts = createTestRouteFacts({ originCountry: 'PL', destinationCountry: 'IT' });
+
+      const result = calculatePrice(model, routeFacts, { pricingDateTime: '2026-06-03T09:00' });
+
+      expect(result.lineItems.surcharges).toHaveLength(0);
+      expect(result.warnings).toEqual([]);
+    });
+  });
+
+  describe('toll policy', () => {
+    const baseModel = SOLO_MODELS.find((m) => m.id === 'solo-pl-eu')!;
+
+    it('has no toll line when the model declares no toll policy', () => {
+      const routeFacts = createTestRouteFacts({ distanceKm: 1000, tollCostEstimate: 120 });
+
+      const result = calculatePrice(baseModel, routeFacts);
+
+      expect(result.lineItems.tolls).toBeNull();
+      expect(result.finalPrice).toBe(1200);
+    });
+
+    it('shows included tolls as a zero line', () => {
+      const model: MarketModel = { ...baseModel, tollPolicy: { mode: 'included' } };
+      const routeFacts = createTestRouteFacts({ distanceKm: 1000, tollCostEstimate: 120 });
+
+      const result = calculatePrice(model, routeFacts);
+
+      expect(result.lineItems.tolls).toEqual({
+        mode: 'included',
+        description: 'Tolls included in rate',
+        costEstimate: 120,
+        markupPercent: 0,
+        amount: 0,
+      });
+      expect(result.finalPrice).toBe(1200);
+    });
+
+    it('passes tolls through at cost', () => {
+      const model: MarketModel = { ...baseModel, tollPolicy: { mode: 'passThrough' } };
+      const routeFacts = createTestRouteFacts({ distanceKm: 1000, tollCostEstimate: 120.4 });
+
+      const result = calculatePrice(model, routeFacts);
+
+      expect(result.lineItems.tolls?.description).toBe('Tolls (pass-through at cost)');
+      expect(result.lineItems.tolls?.amount).toBe(120.4);
+      // (1000 + 200) * 1.0 + 120.40
+      expect(result.finalPrice).toBe(1320.4);
+    });
+
+    it('applies the markup percentage on pass-through tolls', () => {
+      const model: MarketModel = {
+        ...baseModel,
+        tollPolicy: { mode: 'passThrough', markupPercent: 10 },
+      };
+      const routeFacts = createTestRouteFacts({ distanceKm: 1000, tollCostEstimate: 120 });
+
+      const result = calculatePrice(model, routeFacts);
+
+      expect(result.lineItems.tolls?.description).toBe('Tolls (pass-through +10%)');
+      expect(result.lineItems.tolls?.amount).toBe(132);
+      expect(result.finalPrice).toBe(1332);
+    });
+
+    it('adds pass-through tolls on top of the minimum price', () => {
+      const model: MarketModel = {
+        ...baseModel,
+        defaultMin: 1500,
+        tollPolicy: { mode: 'passThrough' },
+      };
+      const routeFacts = createTestRouteFacts({ distanceKm: 500, tollCostEstimate: 80 });
+
+      const result = calculatePrice(model, routeFacts);
+
+      // (500 + 200) * 1.0 = 700 -> raised to 1500, then + 80 tolls
+      expect(result.lineItems.minimumAdjustment).toBe(800);
+      expect(result.finalPrice).toBe(1580);
+    });
+
+    it('warns when toll roads have no cost estimate', () => {
+      const model: MarketModel = { ...baseModel, tollPolicy: { mode: 'passThrough' } };
+      const routeFacts = createTestRouteFacts({ distanceKm: 1000, tollCostEstimate: null });
+
+      const result = calculatePrice(model, routeFacts);
+
+      expect(result.lineItems.tolls?.amount).toBe(0);
+      expect(result.warnings).toContain(
+        'Toll roads on route but no toll cost estimate available; tolls not passed through'
+      );
+    });
+  });
+
+  describe('ferry crossings', () => {
+    const model: MarketModel = {
+      id: 'test-ferry',
+      name: 'Test ferry',
+      vehicleProfileId: 'ftl_13_6_33ep',
+      lane: { origin: 'PL', destination: 'EU' },
+      perKmRate: 1,
+      defaultMin: 2000,
+      surcharges: [{ type: 'ukFerry', amount: 400, description: 'UK ferry surcharge' }],
+      ferryPolicy: {},
+    };
+
+    afterEach(() => {
+      setExchangeRates([]);
+    });
+
+    it('charges each identified crossing at its registry cost for the vehicle', () => {
+      const routeFacts = createTestRouteFacts({
+        distanceKm: 900,
+        destinationCountry: 'SE',
+        ferryCrossingIds: ['gdynia-karlskrona', 'puttgarden-rodby'],
+      });
+
+      const result = calculatePrice(model, routeFacts);
+
+      expect(result.lineItems.ferries).toEqual([
+        { crossingId: 'gdynia-karlskrona', description: 'Ferry Gdynia – Karlskrona', cost: 640, markupPercent: 0, amount: 640 },
+        { crossingId: 'puttgarden-rodby', description: 'Ferry Puttgarden – Rødby', cost: 250, markupPercent: 0, amount: 250 },
+      ]);
+      // 900 km + 890 ferries counts towards the 2000 minimum
+      expect(result.lineItems.minimumAdjustment).toBe(210);
+      expect(result.finalPrice).toBe(2000);
+    });
+
+    it('replaces the flat UK ferry surcharge with the crossing', () => {
+      const routeFacts = createTestRouteFacts({
+        distanceKm: 1800,
+        destinationCountry: 'GB',
+        isUK: true,
+        ferryCrossingIds: ['calais-dover'],
+      });
+
+      const result = calculatePrice({ ...model, ferryPolicy: { markupPercent: 10 } }, routeFacts);
+
+      expect(result.lineItems.surcharges).toEqual([]);
+      expect(result.lineItems.ferries).toEqual([
+        { crossingId: 'calais-dover', description: 'Ferry Calais – Dover (+10%)', cost: 380, markupPercent: 10, amount: 418 },
+      ]);
+      expect(result.finalPrice).toBe(2218);
+    });
+
+    it('keeps the flat surcharge and warns when the crossing is not in the registry', () => {
+      const routeFacts = createTestRouteFacts({
+        distanceKm: 1800,
+        destinationCountry: 'GB',
+        isUK: true,
+        ferryCrossingIds: [null],
+      });
+
+      const result = calculatePrice(model, routeFacts);
+
+      expect(result.lineItems.ferries).toEqual([]);
+      expect(result.lineItems.surcharges.map((s) => s.type)).toEqual(['ukFerry']);
+      expect(result.warnings).toContain(
+        '1 ferry segment(s) not found in the ferry crossing registry; not charged per crossing'
+      );
+    });
+
+    it('charges Le Shuttle instead of the flat UK ferry surcharge on a tunnel route', () => {
+      const routeFacts = createTestRouteFacts({
+        distanceKm: 1800,
+        destinationCountry: 'GB',
+        isUK: true,
+        hasChannelTunnel: true,
+      });
+
+      const result = calculatePrice({ ...model, ferryPolicy: { markupPercent: 10 } }, routeFacts);
+
+      expect(result.lineItems.surcharges).toEqual([]);
+      expect(result.lineItems.ferries).toEqual([]);
+      expect(result.lineItems.channelTunnel).toEqual({
+        description: 'Le Shuttle Folkestone – Calais (+10%)',
+        cost: 420,
+        markupPercent: 10,
+        amount: 462,
+      });
+      expect(result.finalPrice).toBe(2262);
+    });
+
+    it('has no ferry lines for models without a ferry policy', () => {
+      const { ferryPolicy: _, ...flatModel } = model;
+      const routeFacts = createTestRouteFacts({ isUK: true, ferryCrossingIds: ['calais-dover'] });
+
+      const result = calculatePrice(flatModel, routeFacts);
+
+      expect(result.lineItems.ferries).toBeNull();
+      expect(result.lineItems.surcharges.map((s) => s.type)).toEqual(['ukFerry']);
+    });
+
+    it('keeps the flat UK ferry surcharge on a tunnel route for models without a ferry policy', () => {
+      const { ferryPolicy: _, ...flatModel } = model;
+      const routeFacts = createTestRouteFacts({ isUK: true, hasChannelTunnel: true });
+
+      const result = calculatePrice(flatModel, routeFacts);
+
+      expect(result.lineItems.channelTunnel).toBeNull();
+      expect(result.lineItems.surcharges.map((s) => s.type)).toEqual(['ukFerry']);
+    });
+
+    it('converts ferry amounts to the quote currency', () => {
+      setExchangeRates([{ currency: 'PLN', validFrom: '2020-01-01', ratePerEur: 4 }]);
+      const routeFacts = createTestRouteFacts({ distanceKm: 2000, ferryCrossingIds: ['gdynia-karlskrona'] });
+
+      const result = calculatePrice(model, routeFacts, { currency: 'PLN' });
+
+      expect(result.converted?.lineItems.ferries).toEqual([
+        expect.objectContaining({ cost: 2560, amount: 2560 }),
+      ]);
+    });
+  });
+
+  describe('indexed fuel surcharge', () => {
+    const model: MarketModel = {
+      ...SOLO_MODELS.find((m) => m.id === 'solo-pl-eu')!,
+      fuelClause: { basePricePerLitre: 1.5, sensitivityPercent: 30 },
+    };
+
+    afterEach(() => {
+      setFuelIndex([]);
+    });
+
+    it('uses the index value valid at pricingDateTime', () => {
+      setFuelIndex([
+        { validFrom: '2026-10-05', pricePerLitre: 1.6 },
+        { validFrom: '2026-10-12', pricePerLitre: 1.65 },
+      ]);
+      const routeFacts = createTestRouteFacts({ distanceKm: 800 });
+
+      const result = calculatePrice(model, routeFacts, { pricingDateTime: '2026-10-09T10:00' });
+
+      // (1.6 - 1.5) / 1.5 * 30 = 2% of (800 + 200) = 20
+      expect(result.lineItems.fuel).toMatchObject({
+        indexDate: '2026-10-05',
+        indexPricePerLitre: 1.6,
+        percent: 2,
+        amount: 20,
+      });
+      expect(result.lineItems.fuel?.description).toBe(
+        'Fuel surcharge +2% (diesel 1.600 EUR/l from 2026-10-05)'
+      );
+      expect(result.finalPrice).toBe(1020);
+    });
+
+    it('credits the customer when diesel is below the base price', () => {
+      setFuelIndex([{ validFrom: '2026-10-05', pricePerLitre: 1.35 }]);
+      const routeFacts = createTestRouteFacts({ distanceKm: 800 });
+
+      const result = calculatePrice(model, routeFacts, { pricingDateTime: '2026-10-19T10:00' });
+
+      // (1.35 - 1.5) / 1.5 * 30 = -3% of 1000 = -30
+      expect(result.lineItems.fuel?.percent).toBe(-3);
+      expect(result.lineItems.fuel?.amount).toBe(-30);
+      expect(result.finalPrice).toBe(970);
+    });
+
+    it('keeps a zero line and warns when no index value is valid', () => {
+      setFuelIndex([{ validFrom: '2026-10-05', pricePerLitre: 1.6 }]);
+      const routeFacts = createTestRouteFacts({ distanceKm: 800 });
+
+      const result = calculatePrice(model, routeFacts, { pricingDateTime: '2026-09-30T10:00' });
+
+      expect(result.lineItems.fuel?.amount).toBe(0);
+      expect(result.lineItems.fuel?.indexDate).toBeNull();
+      expect(result.warnings).toContain(
+        'No fuel index value valid on 2026-09-30; fuel surcharge not applied'
+      );
+      expect(result.finalPrice).toBe(1000);
+    });
+
+    it('has no fuel line for models without a fuel clause', () => {
+      setFuelIndex([{ validFrom: '2026-10-05', pricePerLitre: 1.6 }]);
+      const plainModel = SOLO_MODELS.find((m) => m.id === 'solo-pl-eu')!;
+
+      const result = calculatePrice(plainModel, createTestRouteFacts({}), {});
+
+      expect(result.lineItems.fuel).toBeNull();
+    });
+  });
+
+  describe('quote currency', () => {
+    const model = SOLO_MODELS.find((m) => m.id === 'solo-pl-eu')!;
+
+    afterEach(() => {
+      setExchangeRates([]);
+    });
+
+    it('quotes in EUR without conversion by default', () => {
+      const result = calculatePrice(model, createTestRouteFacts({ distanceKm: 800 }));
+
+      expect(result.currency).toBe('EUR');
+      expect(result.converted).toBeNull();
+    });
+
+    it('converts line items and final price at the rate valid on pricingDateTime', () => {
+      setExchangeRates([
+        { currency: 'PLN', validFrom: '2026-10-01', ratePerEur: 4.25 },
+        { currency: 'PLN', validFrom: '2026-10-20', ratePerEur: 4.4 },
+      ]);
+      const routeFacts = createTestRouteFacts({ distanceKm: 800 });
+
+      const result = calculatePrice(model, routeFacts, {
+        currency: 'pln',
+        pricingDateTime: '2026-10-19T09:00',
+      });
+
+      // EUR base is kept as-is
+      expect(result.currency).toBe('EUR');
+      expect(result.finalPrice).toBe(1000);
+      expect(result.converted).toMatchObject({
+        currency: 'PLN',
+        rate: 4.25,
+        rateDate: '2026-10-01',
+        finalPrice: 4250,
+      });
+      expect(result.converted?.lineItems.kmCharge).toBe(3400);
+      expect(result.converted?.lineItems.emptiesCharge).toBe(850);
+    });
+
+    it('converts surcharge amounts', () => {
+      setExchangeRates([{ currency: 'GBP', validFrom: '2026-10-01', ratePerEur: 0.86 }]);
+      const routeFacts = createTestRouteFacts({ destinationCountry: 'GB', isUK: true });
+
+      const result = calculatePrice(model, routeFacts, {
+        currency: 'GBP',
+        pricingDateTime: '2026-10-19T09:00',
+      });
+
+      expect(result.lineItems.surcharges[0].amount).toBe(400);
+      expect(result.converted?.lineItems.surcharges[0].amount).toBe(344);
+    });
+
+    it('throws when no rate is valid for the currency', () => {
+      const routeFacts = createTestRouteFacts({});
+
+      const quote = () => calculatePrice(model, routeFacts, { currency: 'PLN', pricingDateTime: '2026-10-19T09:00' });
+      expect(quote).toThrow(NoExchangeRateError);
+      expect(quote).toThrow('No exchange rate for PLN valid on 2026-10-19');
+    });
+  });
+
+  describe('distance bands', () => {
+    const baseModel = SOLO_MODELS.find((m) => m.id === 'solo-pl-eu')!;
+    const bands = [
+      { upToKm: 300, perKmRate: 1.4 },
+      { upToKm: 1000, perKmRate: 1.1 },
+      { perKmRate: 0.9 },
+    ];
+
+    it('charges marginal bands with one breakdown entry per band reached', () => {
+      const model: MarketModel = { ...baseModel, distanceBands: { mode: 'marginal', bands } };
+
+      const result = calculatePrice(model, createTestRouteFacts({ distanceKm: 1200 }));
+
+      expect(result.lineItems.kmBands).toEqual([
+        { description: 'Km 0-300 km', fromKm: 0, toKm: 300, km: 300, perKmRate: 1.4, amount: 420 },
+        { description: 'Km 300-1000 km', fromKm: 300, toKm: 1000, km: 700, perKmRate: 1.1, amount: 770 },
+        { description: 'Km 1000+ km', fromKm: 1000, toKm: null, km: 200, perKmRate: 0.9, amount: 180 },
+      ]);
+      // 420 + 770 + 180
+      expect(result.lineItems.kmCharge).toBe(1370);
+      // empties stay at perKmRate: 200 * 1.0
+      expect(result.lineItems.emptiesCharge).toBe(200);
+      expect(result.finalPrice).toBe(1570);
+    });
+
+    it('omits marginal bands the route does not reach', () => {
+      const model: MarketModel = { ...baseModel, distanceBands: { mode: 'marginal', bands } };
+
+      const result = calculatePrice(model, createTestRouteFacts({ distanceKm: 250 }));
+
+      expect(result.lineItems.kmBands).toHaveLength(1);
+      expect(result.lineItems.kmCharge).toBe(350);
+    });
+
+    it('prices all km at the band the distance falls into in whole-distance mode', () => {
+      const model: MarketModel = { ...baseModel, distanceBands: { mode: 'wholeDistance', bands } };
+
+      const result = calculatePrice(model, createTestRouteFacts({ distanceKm: 1000 }));
+
+      expect(result.lineItems.kmBands).toEqual([
+        {
+          description: 'All 1000 km at 300-1000 km band rate',
+          fromKm: 300,
+          toKm: 1000,
+          km: 1000,
+          perKmRate: 1.1,
+          amount: 1100,
+        },
+      ]);
+      expect(result.lineItems.kmCharge).toBe(1100);
+    });
+
+    it('uses the open-ended band beyond the last bound', () => {
+      const model: MarketModel = { ...baseModel, distanceBands: { mode: 'wholeDistance', bands } };
+
+      const result = calculatePrice(model, createTestRouteFacts({ distanceKm: 1500 }));
+
+      expect(result.lineItems.kmBands?.[0].perKmRate).toBe(0.9);
+      expect(result.lineItems.kmCharge).toBe(1350);
+    });
+
+    it('has no band breakdown without distance bands', () => {
+      const result = calculatePrice(baseModel, createTestRouteFacts({ distanceKm: 1200 }));
+
+      expect(result.lineItems.kmBands).toBeNull();
+      expect(result.lineItems.kmCharge).toBe(1200);
+    });
+  });
+
+  describe('effective-dated model versions', () => {
+    const current = SOLO_MODELS.find((m) => m.id === 'solo-pl-eu')!;
+    const october: MarketModel = { ...current, version: 3, validTo: '2026-10-31' };
+    const november: MarketModel = { ...current, version: 4, validFrom: '2026-11-01', perKmRate: 1.1 };
+
+    afterEach(() => {
+      resetMarketModels();
+    });
+
+    it('selects the version valid on the pricingDateTime date', () => {
+      setMarketModels([october, november]);
+      const routeFacts = createTestRouteFacts({ distanceKm: 800 });
+
+      const today = calculateQuote('solo_18t_23ep', routeFacts, { pricingDateTime: '2026-10-31T16:00' });
+      const nextMonth = calculateQuote('solo_18t_23ep', routeFacts, { pricingDateTime: '2026-11-01T08:00' });
+
+      expect(today.modelVersion).toBe(3);
+      expect(today.pricingDate).toBe('2026-10-31');
+      expect(today.finalPrice).toBe(1000);
+      expect(nextMonth.modelVersion).toBe(4);
+      // (800 + 200) * 1.1
+      expect(nextMonth.finalPrice).toBe(1100);
+    });
+
+    it('uses the destination local date for an instant near midnight', () => {
+      setMarketModels([october, november]);
+      const routeFacts = createTestRouteFacts({ destinationCountry: 'DE' });
+
+      // 23:30 UTC on Oct 31 is already Nov 1 in Berlin
+      const result = calculateQuote('solo_18t_23ep', routeFacts, {
+        pricingDateTime: '2026-10-31T23:30:00Z',
+      });
+
+      expect(result.modelVersion).toBe(4);
+    });
+
+    it('finds no model when no version is valid on the date', () => {
+      setMarketModels([{ ...november, validFrom: '2027-01-01' }]);
+      const routeFacts = createTestRouteFacts({});
+
+      expect(
+        findMatchingModel('solo_18t_23ep', routeFacts, { pricingDateTime: '2026-11-15T08:00' })
+      ).toBeNull();
+    });
+
+    it('reports version 1 for unversioned models', () => {
+      const result = calculatePrice(current, createTestRouteFacts({}));
+
+      expect(result.modelVersion).toBe(1);
+    });
+  });
+
+  describe('customer rate cards', () => {
+    const contractModel: MarketModel = {
+      id: 'acme-solo-pl-de',
+      name: 'ACME contract SOLO PL -> DE',
+      vehicleProfileId: 'solo_18t_23ep',
+      lane: { origin: 'PL', destination: 'DE' },
+      perKmRate: 0.9,
+      emptyKmFlat: 100,
+    };
+
+    afterEach(() => {
+      setRateCards([]);
+    });
+
+    it('prices with the contract model when it covers the lane', () => {
+      setRateCards([{ customerId: 'ACME', models: [contractModel] }]);
+      const routeFacts = createTestRouteFacts({ distanceKm: 1000, originCountry: 'PL', destinationCountry: 'DE' });
+
+      const result = calculateQuote('solo_18t_23ep', routeFacts, { customerId: 'ACME' });
+
+      expect(result.modelId).toBe('acme-solo-pl-de');
+      expect(result.source).toEqual({ type: 'contract', customerId: 'ACME' });
+      // (1000 + 100) * 0.9
+      expect(result.finalPrice).toBe(990);
+    });
+
+    it('falls back to the market model when the contract does not cover the lane', () => {
+      setRateCards([{ customerId: 'ACME', models: [contractModel] }]);
+      const routeFacts = createTestRouteFacts({ originCountry: 'PL', destinationCountry: 'FR' });
+
+      const result = calculateQuote('solo_18t_23ep', routeFacts, { customerId: 'ACME' });
+
+      expect(result.modelId).toBe('solo-pl-eu');
+      expect(result.source).toEqual({
+        type: 'market',
+        customerId: 'ACME',
+        fallbackReason: 'Rate card of ACME does not cover this lane for solo_18t_23ep',
+      });
+    });
+
+    it('falls back to the market model for customers without a rate card', () => {
+      const routeFacts = createTestRouteFacts({ originCountry: 'PL', destinationCountry: 'DE' });
+
+      const result = calculateQuote('solo_18t_23ep', routeFacts, { customerId: 'UNKNOWN' });
+
+      expect(result.modelId).toBe('solo-pl-eu');
+      expect(result.source.fallbackReason).toBe('No rate card for customer UNKNOWN');
+    });
+
+    it('ignores contract models for other vehicle profiles', () => {
+      setRateCards([{ customerId: 'ACME', models: [contractModel] }]);
+      const routeFacts = createTestRouteFacts({ originCountry: 'PL', destinationCountry: 'DE' });
+
+      const result = calculateQuote('ftl_13_6_33ep', routeFacts, { customerId: 'ACME' });
+
+      expect(result.source.type).toBe('market');
+    });
+
+    it('reports market source without a customerId', () => {
+      setRateCards([{ customerId: 'ACME', models: [contractModel] }]);
+      const routeFacts = createTestRouteFacts({ originCountry: 'PL', destinationCountry: 'DE' });
+
+      const result = calculateQuote('solo_18t_23ep', routeFacts);
+
+      expect(result.modelId).toBe('solo-pl-eu');
+      expect(result.source).toEqual({ type: 'market', customerId: null });
+    });
+  });
+
+  describe('postal-code region lanes', () => {
+    const italyModel = SOLO_MODELS.find((m) => m.id === 'solo-it-eu')!;
+    const northItaly: MarketModel = {
+      ...italyModel,
+      id: 'solo-it-north-eu',
+      lane: { ...italyModel.lane, originPostalCodes: [{ from: '10', to: '47' }] },
+      perKmRate: 1.1,
+    };
+    const southItaly: MarketModel = {
+      ...italyModel,
+      id: 'solo-it-south-eu',
+      lane: { ...italyModel.lane, originPostalCodes: [{ from: '70', to: '98' }] },
+      perKmRate: 1.4,
+    };
+
+    afterEach(() => {
+      resetMarketModels();
+    });
+
+    it('selects the lane whose postal range covers the origin', () => {
+      setMarketModels([northItaly, southItaly, italyModel]);
+
+      const milan = createTestRouteFacts({ originCountry: 'ITA', originPostalCode: '20121' });
+      const bari = createTestRouteFacts({ originCountry: 'ITA', originPostalCode: '70121' });
+      const rome = createTestRouteFacts({ originCountry: 'ITA', originPostalCode: '00184' });
+
+      expect(findMatchingModel('solo_18t_23ep', milan)?.id).toBe('solo-it-north-eu');
+      expect(findMatchingModel('solo_18t_23ep', bari)?.id).toBe('solo-it-south-eu');
+      expect(findMatchingModel('solo_18t_23ep', rome)?.id).toBe('solo-it-eu');
+    });
+
+    it('ignores a country prefix on the postal code', () => {
+      setMarketModels([northItaly, southItaly, italyModel]);
+
+      const milan = createTestRouteFacts({ originCountry: 'ITA', originPostalCode: 'I-20121' });
+      const bari = createTestRouteFacts({ originCountry: 'ITA', originPostalCode: 'IT 70-121' });
+
+      expect(findMatchingModel('solo_18t_23ep', milan)?.id).toBe('solo-it-north-eu');
+      expect(findMatchingModel('solo_18t_23ep', bari)?.id).toBe('solo-it-south-eu');
+    });
+
+    it('falls through to the country lane when the postal code is unknown', () => {
+      setMarketModels([northItaly, italyModel]);
+      const routeFacts = createTestRouteFacts({ originCountry: 'ITA' });
+
+      expect(findMatchingModel('solo_18t_23ep', routeFacts)?.id).toBe('solo-it-eu');
+    });
+
+    it('matches destination ranges ignoring spaces and case', () => {
+      const london: MarketModel = {
+        ...italyModel,
+        id: 'solo-it-london',
+        lane: { origin: 'IT', destination: 'UK', destinationPostalCodes: [{ from: 'E' }, { from: 'SW' }] },
+      };
+      setMarketModels([london]);
+
+      const routeFacts = createTestRouteFacts({
+        originCountry: 'ITA',
+        destinationCountry: 'GBR',
+        destinationPostalCode: 'sw1a 1aa',
+      });
+
+      expect(findMatchingModel('solo_18t_23ep', routeFacts)?.id).toBe('solo-it-london');
+      expect(
+        findMatchingModel('solo_18t_23ep', { ...routeFacts, geography: { ...routeFacts.geography, destinationPostalCode: 'N1 9GU' } })
+      ).toBeNull();
+    });
+
+    it('keeps the letters of a letter-led postal code', () => {
+      const valletta: MarketModel = {
+        ...italyModel,
+        id: 'solo-it-valletta',
+        lane: { origin: 'IT', destination: 'EU', destinationPostalCodes: [{ from: 'VLT' }] },
+      };
+      setMarketModels([valletta]);
+
+      const routeFacts = createTestRouteFacts({
+        originCountry: 'ITA',
+        destinationCountry: 'MLT',
+        destinationPostalCode: 'VLT 1117',
+      });
+
+      expect(findMatchingModel('solo_18t_23ep', routeFacts)?.id).toBe('solo-it-valletta');
+      expect(
+        findMatchingModel('solo_18t_23ep', { ...routeFacts, geography: { ...routeFacts.geography, destinationPostalCode: 'BKR 4012' } })
+      ).toBeNull();
+    });
+  });
+
+  describe('configured country groups', () => {
+    const beneluxModel: MarketModel = {
+      id: 'solo-benelux-eu-ex-it',
+      name: 'SOLO BENELUX -> EU (without IT)',
+      vehicleProfileId: 'solo_18t_23ep',
+      lane: { origin: 'BENELUX', destination: 'EU_EX_IT' },
+      perKmRate: 1.3,
+    };
+
+    afterEach(() => {
+      resetCountryGroups();
+      resetMarketModels();
+    });
+
+    it('matches lanes on configured groups with exclusions', () => {
+      setCountryGroups({
+        ...DEFAULT_COUNTRY_GROUPS,
+        BENELUX: { countries: ['BE', 'NL', 'LU'] },
+        EU_EX_IT: { groups: ['EU'], excludeCountries: ['IT'] },
+      });
+      setMarketModels([beneluxModel]);
+
+      const toGermany = createTestRouteFacts({ originCountry: 'NLD', destinationCountry: 'DEU' });
+      const toItaly = createTestRouteFacts({ originCountry: 'NLD', destinationCountry: 'ITA' });
+
+      expect(findMatchingModel('solo_18t_23ep', toGermany)?.id).toBe('solo-benelux-eu-ex-it');
+      expect(findMatchingModel('solo_18t_23ep', toItaly)).toBeNull();
+    });
+
+    it('lists the country groups in the no-model error', () => {
+      const routeFacts = createTestRouteFacts({ originCountry: 'CH', destinationCountry: 'SE' });
+
+      expect(() => calculateQuote('solo_18t_23ep', routeFacts)).toThrow(
+        'No pricing model found for vehicle solo_18t_23ep from CH to SE (groups: SCANDI, EU)'
+      );
+    });
+  });
+
+  describe('model selection explanation', () => {
+    afterEach(() => {
+      resetMarketModels();
+      setRateCards([]);
+    });
+
+    it('lists every candidate in order and marks later matches as shadowed', () => {
+      const plToUk: MarketModel = {
+        id: 'solo-pl-uk',
+        name: 'SOLO PL -> UK',
+        vehicleProfileId: 'solo_18t_23ep',
+        lane: { origin: 'PL', destination: 'UK' },
+        perKmRate: 1.5,
+      };
+      // Generic lane listed before the specific one: the ordering bug to spot
+      setMarketModels([SOLO_MODELS[0], plToUk]);
+      const routeFacts = createTestRouteFacts({ originCountry: 'PL', destinationCountry: 'GB' });
+
+      const selection = explainModelSelection('solo_18t_23ep', routeFacts, { pricingDateTime: '2026-10-19T10:00' });
+
+      expect(selection.pricingDate).toBe('2026-10-19');
+      expect(selection.origin.groups).toEqual(['PL', 'EU']);
+      expect(selection.destination.groups).toEqual(['UK', 'EU']);
+      expect(selection.candidates).toEqual([
+        {
+          modelId: 'solo-pl-eu',
+          modelName: 'SOLO PL -> EU',
+          modelVersion: 1,
+          source: 'market',
+          validOnPricingDate: true,
+          origin: { group: 'PL', countryMatched: true, postalCodeMatched: true },
+          destination: { group: 'EU', countryMatched: true, postalCodeMatched: true },
+          selected: true,
+          rejectionReasons: [],
+        },
+        expect.objectContaining({
+          modelId: 'solo-pl-uk',
+          selected: false,
+          rejectionReasons: ['Lane matches, but solo-pl-eu v1 comes first'],
+        }),
+      ]);
+    });
+
+    it('reports validity, country and postal-code rejections', () => {
+      const base = SOLO_MODELS[0];
+      setMarketModels([
+        { ...base, id: 'expired', validTo: '2026-01-31' },
+        { ...base, id: 'north', lane: { ...base.lane, originPostalCodes: [{ from: '80' }] } },
+        { ...base, id: 'italy', lane: { origin: 'IT', destination: 'EU' } },
+      ]);
+      const routeFacts = createTestRouteFacts({ originCountry: 'PL', destinationCountry: 'DE', originPostalCode: '00-001' });
+
+      const selection = explainModelSelection('solo_18t_23ep', routeFacts, { pricingDateTime: '2026-10-19T10:00' });
+
+      expect(selection.candidates.map((c) => c.rejectionReasons)).toEqual([
+        ['Not valid on 2026-10-19 (valid always to 2026-01-31)'],
+        ['Origin postal code 00-001 is outside the lane ranges'],
+        ['Origin PL is not in group IT'],
+      ]);
+    });
+
+    it('evaluates contract models before market models', () => {
+      setRateCards([{
+        customerId: 'ACME',
+        models: [{ ...SOLO_MODELS[0], id: 'acme-pl-de', lane: { origin: 'PL', destination: 'DE' } }],
+      }]);
+      const routeFacts = createTestRouteFacts({ originCountry: 'PL', destinationCountry: 'FR' });
+
+      const result = calculateQuote('solo_18t_23ep', routeFacts, { customerId: 'ACME' });
+
+      expect(result.modelSelection?.candidates.slice(0, 2).map((c) => [c.modelId, c.source, c.selected])).toEqual([
+        ['acme-pl-de', 'contract', false],
+        ['solo-pl-eu', 'market', true],
+      ]);
+    });
+
+    it('attaches the explanation to the no-model error', () => {
+      const routeFacts = createTestRouteFacts({ originCountry: 'ES', destinationCountry: 'PT' });
+
+      let error: unknown;
+      try {
+        calculateQuote('solo_18t_23ep', routeFacts);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(NoPricingModelError);
+      const { selection } = error as NoPricingModelError;
+      expect(selection.candidates.every((c) => !c.selected)).toBe(true);
+      expect(selection.candidates).toHaveLength(SOLO_MODELS.length);
+    });
+  });
+
+  describe('stop fees', () => {
+    const model: MarketModel = {
+      id: 'test-stops',
+      name: 'Test stops',
+      vehicleProfileId: 'solo_18t_23ep',
+      lane: { origin: 'PL', destination: 'EU' },
+      perKmRate: 2,
+      defaultMin: 1200,
+      stopFees: { loading: 50, unloading: 80, freeStops: 1 },
+    };
+
+    it('charges each stop after the free allowance by its type', () => {
+      const result = calculatePrice(model, createTestRouteFacts({ distanceKm: 1000 }), {
+        stops: [
+          { type: 'unloading', label: 'Berlin' },
+          { type: 'loading', label: 'Hamburg' },
+          { type: 'unloading' },
+        ],
+      });
+
+      expect(result.lineItems.stops).toEqual([
+        { stopNumber: 1, type: 'unloading', description: 'Unloading stop 1: Berlin (included)', free: true, amount: 0 },
+        { stopNumber: 2, type: 'loading', description: 'Loading stop 2: Hamburg', free: false, amount: 50 },
+        { stopNumber: 3, type: 'unloading', description: 'Unloading stop 3', free: false, amount: 80 },
+      ]);
+      expect(result.finalPrice).toBe(2130);
+    });
+
+    it('counts stop fees towards the minimum', () => {
+      const result = calculatePrice(model, createTestRouteFacts({ distanceKm: 500 }), {
+        stops: [{ type: 'loading' }, { type: 'loading' }],
+      });
+
+      expect(result.lineItems.minimumAdjustment).toBe(150);
+      expect(result.finalPrice).toBe(1200);
+    });
+
+    it('has an empty stop list for direct routes and null without stop fees', () => {
+      const routeFacts = createTestRouteFacts({ distanceKm: 1000 });
+
+      expect(calculatePrice(model, routeFacts).lineItems.stops).toEqual([]);
+      expect(calculatePrice({ ...model, stopFees: undefined }, routeFacts).lineItems.stops).toBeNull();
+    });
+
+    it('warns when stops are not charged by the model', () => {
+      const result = calculatePrice({ ...model, stopFees: undefined }, createTestRouteFacts({}), {
+        stops: [{ type: 'unloading' }],
+      });
+
+      expect(result.warnings).toEqual([
+        'Route has 1 intermediate stop(s) but model test-stops has no stop fees; stops not charged',
+      ]);
+    });
+  });
+
+  describe('waiting time', () => {
+    const model: MarketModel = {
+      id: 'test-demurrage',
+      name: 'Test demurrage',
+      vehicleProfileId: 'ftl_13_6_33ep',
+      lane: { origin: 'PL', destination: 'EU' },
+      perKmRate: 1.5,
+      defaultMin: 1000,
+      demurrage: { ratePerHour: 40, freeLoadingHours: 2, freeUnloadingHours: 2 },
+    };
+
+    it('charges hours beyond the free allowance at each site, after the minimum', () => {
+      const result = calculatePrice(model, createTestRouteFacts({ distanceKm: 400 }), {
+        loadingHours: 3.5,
+        unloadingHours: 1,
+      });
+
+      expect(result.lineItems.waitingTime).toEqual({
+        description: 'Waiting time: 1.5 h beyond the free allowance',
+        loadingHours: 3.5,
+        unloadingHours: 1,
+        freeLoadingHours: 2,
+        freeUnloadingHours: 2,
+        chargeableHours: 1.5,
+        ratePerHour: 40,
+        amount: 60,
+      });
+      expect(result.lineItems.minimumAdjustment).toBe(400);
+      expect(result.finalPrice).toBe(1060);
+    });
+
+    it('adds loading and unloading to the driving time', () => {
+      const result = calculatePrice(model, createTestRouteFacts({}), { loadingHours: 3.5, unloadingHours: 1 });
+
+      expect(result.transitTime).toEqual({
+        drivingHours: 6,
+        loadingHours: 3.5,
+        unloadingHours: 1,
+        totalHours: 10.5,
+        // 45 min break after 4.5 h at the wheel
+        plan: expect.objectContaining({ crew: 'single', totalHours: 11.25 }),
+      });
+    });
+
+    it('has a zero line within the allowance and no line without demurrage rates', () => {
+      const routeFacts = createTestRouteFacts({});
+
+      expect(calculatePrice(model, routeFacts, { loadingHours: 2 }).lineItems.waitingTime?.amount).toBe(0);
+      const withoutRates = calculatePrice({ ...model, demurrage: undefined }, routeFacts, { unloadingHours: 4 });
+      expect(withoutRates.lineItems.waitingTime).toBeNull();
+      expect(withoutRates.warnings).toEqual(['Model test-demurrage has no demurrage rates; waiting time not charged']);
+    });
+
+    it('is not reduced by the partial-load share', () => {
+      const result = calculatePrice(model, createTestRouteFacts({ distanceKm: 1000 }), {
+        shipment: { pallets: 11 },
+        unloadingHours: 4,
+      });
+
+      // 1500 full vehicle / 3 + 2 h x 40
+      expect(result.finalPrice).toBe(580);
+    });
+  });
+
+  describe('partial loads', () => {
+    const model: MarketModel = {
+      id: 'test-partial',
+      name: 'Test partial load',
+      vehicleProfileId: 'solo_18t_23ep',
+      lane: { origin: 'PL', destination: 'EU' },
+      perKmRate: 2,
+      defaultMin: 1200,
+      tollPolicy: { mode: 'passThrough' },
+    };
+
+    afterEach(() => {
+      setExchangeRates([]);
+    });
+
+    it('prices the share of the full vehicle, minimum and passed-through tolls included', () => {
+      const routeFacts = createTestRouteFacts({ distanceKm: 500, tollCostEstimate: 100 });
+
+      const result = calculatePrice(model, routeFacts, { shipment: { loadingMetres: 2.3 } });
+
+      // full vehicle: 1000 km charge raised to 1200 minimum + 100 tolls
+      expect(result.lineItems.partialLoad).toMatchObject({
+        sharePercent: 25,
+        billedSharePercent: 25,
+        fullVehiclePrice: 1300,
+        amount: -975,
+      });
+      expect(result.finalPrice).toBe(325);
+    });
+
+    it('has no partial-load line for full loads', () => {
+      const result = calculatePrice(model, createTestRouteFacts({}));
+
+      expect(result.lineItems.partialLoad).toBeNull();
+    });
+
+    it('applies the model minimum share', () => {
+      const routeFacts = createTestRouteFacts({ distanceKm: 1000 });
+
+      const result = calculatePrice(
+        { ...model, partialLoad: { minSharePercent: 30, minPallets: 4 } },
+        routeFacts,
+        { shipment: { pallets: 2, weightKg: 500 } }
+      );
+
+      expect(result.lineItems.partialLoad?.sharePercent).toBe(8.7);
+      expect(result.lineItems.partialLoad?.billedSharePercent).toBe(30);
+      expect(result.lineItems.partialLoad?.description).toBe(
+        'Partial load: 2 pallets, 500 kg = 8.7% of vehicle, minimum 30% applies'
+      );
+      expect(result.finalPrice).toBe(600);
+    });
+
+    it('converts the partial-load amounts to the quote currency', () => {
+      setExchangeRates([{ currency: 'PLN', validFrom: '2020-01-01', ratePerEur: 4 }]);
+
+      const result = calculatePrice(model, createTestRouteFacts({ distanceKm: 1000 }), {
+        shipment: { loadingMetres: 4.6 },
+        currency: 'PLN',
+      });
+
+      expect(result.converted?.lineItems.partialLoad).toMatchObject({
+        fullVehiclePrice: 8000,
+        amount: -4000,
+      });
+      expect(result.converted?.finalPrice).toBe(4000);
+    });
+
+    it('rejects shipments exceeding the vehicle capacity before selecting a model', () => {
+      const routeFacts = createTestRouteFacts({ originCountry: 'ES', destinationCountry: 'PT' });
+
+      expect(() => calculateQuote('van_8ep', routeFacts, { shipment: { pallets: 10, weightKg: 900 } }))
+        .toThrow(ShipmentCapacityError);
+      expect(() => calculateQuote('van_8ep', routeFacts, { shipment: { pallets: 10, weightKg: 900 } }))
+        .toThrow('Shipment exceeds the capacity of vehicle van_8ep: 10 pallets (capacity 8)');
+    });
+  });
+
+  describe('price rounding', () => {
+    const model: MarketModel = {
+      id: 'test-rounding',
+      name: 'Test rounding',
+      vehicleProfileId: 'ftl_13_6_33ep',
+      lane: { origin: 'PL', destination: 'EU' },
+      perKmRate: 1.37,
+    };
+
+    afterEach(() => {
+      resetDefaultRoundingPolicy();
+      setExchangeRates([]);
+    });
+
+    it('keeps two decimals without a rounding policy', () => {
+      const result = calculatePrice(model, createTestRouteFacts({ distanceKm: 903 }));
+
+      expect(result.lineItems.rounding).toBeNull();
+      expect(result.finalPrice).toBe(1237.11);
+    });
+
+    it('rounds with the model policy and records the delta as a line item', () => {
+      const result = calculatePrice(
+        { ...model, rounding: { mode: 'up', step: 10 } },
+        createTestRouteFacts({ distanceKm: 903 })
+      );
+
+      expect(result.lineItems.rounding).toEqual({
+        description: 'Rounded up to 10 EUR: 1237.11 -> 1240',
+        mode: 'up',
+        step: 10,
+        ending: 0,
+        unroundedPrice: 1237.11,
+        amount: 2.89,
+      });
+      expect(result.finalPrice).toBe(1240);
+    });
+
+    it('uses the global default for models without their own policy', () => {
+      setDefaultRoundingPolicy({ mode: 'nearest', step: 100, ending: 90 });
+
+      const result = calculatePrice(model, createTestRouteFacts({ distanceKm: 903 }));
+
+      expect(result.lineItems.rounding?.description).toBe('Rounded to nearest 100 EUR ending in 90: 1237.11 -> 1190');
+      expect(result.finalPrice).toBe(1190);
+      expect(
+        calculatePrice({ ...model, rounding: { mode: 'down', step: 50 } }, createTestRouteFacts({ distanceKm: 903 }))
+          .finalPrice
+      ).toBe(1200);
+    });
+
+    it('rounds after waiting time so the line items still add up', () => {
+      const result = calculatePrice(
+        {
+          ...model,
+          demurrage: { ratePerHour: 45, freeLoadingHours: 0, freeUnloadingHours: 0 },
+          rounding: { mode: 'up', step: 100 },
+        },
+        createTestRouteFacts({ distanceKm: 903 }),
+        { unloadingHours: 1 }
+      );
+
+      const { kmCharge, waitingTime, rounding } = result.lineItems;
+      expect(rounding?.unroundedPrice).toBe(1282.11);
+      expect(kmCharge + waitingTime!.amount + rounding!.amount).toBe(result.finalPrice);
+      expect(result.finalPrice).toBe(1300);
+    });
+
+    it('applies the rounding policy to the converted price, not the rounded EUR price', () => {
+      setExchangeRates([{ currency: 'PLN', validFrom: '2020-01-01', ratePerEur: 4 }]);
+
+      const result = calculatePrice(
+        { ...model, rounding: { mode: 'up', step: 10 } },
+        createTestRouteFacts({ distanceKm: 903 }),
+        { currency: 'PLN' }
+      );
+
+      expect(result.converted?.lineItems.rounding).toMatchObject({ unroundedPrice: 4948.44, amount: 1.56 });
+      expect(result.converted?.finalPrice).toBe(4950);
+    });
+
+    it('rounds the converted price in the quote currency', () => {
+      setExchangeRates([{ currency: 'PLN', validFrom: '2020-01-01', ratePerEur: 4.2731 }]);
+
+      const result = calculatePrice(
+        { ...model, rounding: { mode: 'up', step: 10 } },
+        createTestRouteFacts({ distanceKm: 903 }),
+        { currency: 'PLN' }
+      );
+
+      expect(result.finalPrice).toBe(1240);
+      expect(result.converted?.finalPrice).toBe(5290);
+      expect(result.converted?.lineItems.rounding).toMatchObject({
+        description: 'Rounded up to 10 PLN: 5286.29 -> 5290',
+        unroundedPrice: 5286.29,
+        amount: 3.71,
+      });
+    });
+  });
+
   describe('edge cases', () => {
     it('handles zero distance', () => {
       const model = SOLO_MODELS.find((m) => m.id === 'solo-pl-eu')!;
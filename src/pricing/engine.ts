@@ -4,15 +4,52 @@
 
 import type { RouteFacts } from '../types/route-facts.js';
 import type { VehicleProfileId } from '../here/vehicle-profiles.js';
+import { findFerryCrossingById } from '../here/ferry-crossings.js';
+import { CHANNEL_TUNNEL } from '../here/channel-crossing.js';
+import { isBaltic, isScandinavia } from '../geo/countries.js';
 import {
   type MarketModel,
   type PricingResult,
   type SurchargeLineItem,
+  type TollLineItem,
+  type FerryLineItem,
+  type ChannelTunnelLineItem,
+  type FuelLineItem,
+  type PricingLineItems,
+  type KmBandLineItem,
+  type StopLineItem,
+  type WaitingTimeLineItem,
+  type TransitTime,
+  type Stop,
+  type ConvertedPrice,
+  type RoundingPolicy,
+  type PricingSource,
   type QuoteOptions,
-  countryMatchesGroup,
-  getCountryGroup,
+  type ModelSelection,
+  type CandidateModel,
+  type LaneSideMatch,
+  type SelectionPoint,
+  postalCodeMatchesRanges,
 } from './types.js';
 import { getModelsForVehicle } from './market-models.js';
+import { countryMatchesGroup, getCountryGroupsOf } from './country-groups.js';
+import { getRateCard } from './rate-cards.js';
+import {
+  toLocalDateTime,
+  toIsoLocalDateTime,
+  toTimeZone,
+  getTimeZoneForCountry,
+  isWeekendDay,
+  formatLocalDateTime,
+  type LocalDateTime,
+} from './calendar.js';
+import { findPublicHoliday, type PublicHoliday } from './holidays.js';
+import { findFuelIndexValue } from './fuel-index.js';
+import { BASE_CURRENCY, findExchangeRate } from './exchange-rates.js';
+import { buildRoundingLineItem, getDefaultRoundingPolicy, roundAmount } from './rounding.js';
+import { buildPartialLoadLineItem, calculateLoadShare } from './partial-load.js';
+import { planTransit } from './transit-planner.js';
+import { NoExchangeRateError, NoPricingModelError } from './errors.js';
 
 /**
  * Check if route goes to/through UK
@@ -76,27 +113,716 @@ function hasAlpineTunnel(routeFacts: RouteFacts): boolean {
 }
 
 /**
- * Find matching market model for route
+ * Outcome of a time- or region-dependent surcharge condition
+ */
+interface SurchargeCondition {
+  applies: boolean;
+  /** Explanation recorded on the surcharge line item */
+  reason?: string;
+}
+
+/**
+ * Resolve weekend and after-14:00 unloading conditions
+ * Explicit request flags win; otherwise both are derived from pricingDateTime
+ * in the destination country's local time.
+ */
+function resolveDeliveryTiming(
+  routeFacts: RouteFacts,
+  options: QuoteOptions
+): { weekend: SurchargeCondition; unloadingAfter14: SurchargeCondition } {
+  const destCountry = routeFacts.geography.destinationCountry;
+  const local = options.pricingDateTime
+    ? toLocalDateTime(options.pricingDateTime, destCountry)
+    : null;
+  const localLabel = local
+    ? `pricingDateTime is ${formatLocalDateTime(local)} (destination ${destCountry ?? 'unknown'})`
+    : undefined;
+
+  let weekend: SurchargeCondition = { applies: false };
+  if (options.isWeekend !== undefined) {
+    weekend = { applies: options.isWeekend, reason: 'isWeekend set on request' };
+  } else if (local) {
+    weekend = { applies: isWeekendDay(local), reason: localLabel };
+  }
+
+  let unloadingAfter14: SurchargeCondition = { applies: false };
+  if (options.unloadingAfter14 !== undefined) {
+    unloadingAfter14 = { applies: options.unloadingAfter14, reason: 'unloadingAfter14 set on request' };
+  } else if (local) {
+    unloadingAfter14 = { applies: local.hour >= 14, reason: localLabel };
+  }
+
+  return { weekend, unloadingAfter14 };
+}
+
+/**
+ * Names of the registered ferry crossings on the route calling at a port in a
+ * matching country
+ */
+function ferriesReaching(routeFacts: RouteFacts, matches: (country: string) => boolean): string[] {
+  return routeFacts.infrastructure.ferryCrossings.flatMap(({ crossingId }) => {
+    const crossing = findFerryCrossingById(crossingId);
+    return crossing?.ports.some((port) => matches(port.country)) ? [crossing.name] : [];
+  });
+}
+
+/**
+ * Resolve the Scandinavia, Baltic and island conditions from the route's risk
+ * flags, citing the countries and ferries that raised them
+ * UK routes are left out of the island condition: ukFerry prices them.
+ */
+function resolveRegionalConditions(
+  routeFacts: RouteFacts,
+  isUK: boolean
+): { scandinavia: SurchargeCondition; baltic: SurchargeCondition; island: SurchargeCondition } {
+  const { riskFlags, geography } = routeFacts;
+
+  const region = (flag: boolean, matches: (country: string) => boolean): SurchargeCondition => {
+    if (!flag) return { applies: false };
+    const countries = geography.countriesCrossed.filter(matches);
+    const ferries = ferriesReaching(routeFacts, matches);
+    return {
+      applies: true,
+      reason: `Route reaches ${countries.join(', ') || 'unknown country'}` +
+        (ferries.length > 0 ? ` via ferry ${ferries.join(', ')}` : ''),
+    };
+  };
+
+  const destination = geography.destinationCountry;
+  let island: SurchargeCondition = { applies: false };
+  if (riskFlags.isIsland && !isUK) {
+    const ferries = ferriesReaching(routeFacts, (country) => country === destination);
+    island = {
+      applies: true,
+      reason: `Destination ${destination ?? 'unknown'} reached by ferry` +
+        (ferries.length > 0 ? ` ${ferries.join(', ')}` : ''),
+    };
+  }
+
+  return {
+    scandinavia: region(riskFlags.isScandinavia, isScandinavia),
+    baltic: region(riskFlags.isBaltic, isBaltic),
+    island,
+  };
+}
+
+/**
+ * Public holiday hit at one end of the route
+ */
+interface RouteHoliday {
+  end: 'origin' | 'destination';
+  holiday: PublicHoliday;
+}
+
+/**
+ * Find public holidays on the pricingDateTime local date in the origin and
+ * destination countries (each evaluated in its own time zone)
+ */
+function findRouteHolidays(routeFacts: RouteFacts, options: QuoteOptions): RouteHoliday[] {
+  if (!options.pricingDateTime) return [];
+
+  const hits: RouteHoliday[] = [];
+  const ends: Array<[RouteHoliday['end'], string | null]> = [
+    ['origin', routeFacts.geography.originCountry],
+    ['destination', routeFacts.geography.destinationCountry],
+  ];
+
+  for (const [end, country] of ends) {
+    const local = toLocalDateTime(options.pricingDateTime, country);
+    if (!local) continue;
+
+    const holiday = findPublicHoliday(country, local.date);
+    if (holiday) hits.push({ end, holiday });
+  }
+
+  return hits;
+}
+
+function describeRouteHoliday({ end, holiday }: RouteHoliday): string {
+  return `${holiday.name} (${holiday.countryCode}, ${end}) on ${holiday.date}`;
+}
+
+function describeBand(fromKm: number, toKm: number | null): string {
+  return toKm !== null ? `${fromKm}-${toKm} km` : `${fromKm}+ km`;
+}
+
+/**
+ * Split route km across the model's distance bands
+ * Marginal mode yields one entry per band the route reaches; whole-distance
+ * mode yields the single band the total distance falls into.
+ */
+function buildKmBands(model: MarketModel, distanceKm: number): KmBandLineItem[] | null {
+  const pricing = model.distanceBands;
+  if (!pricing || pricing.bands.length === 0) return null;
+
+  const items: KmBandLineItem[] = [];
+  let fromKm = 0;
+
+  for (const [index, band] of pricing.bands.entries()) {
+    const isLast = index === pricing.bands.length - 1;
+    const toKm = !isLast && band.upToKm !== undefined ? band.upToKm : null;
+
+    if (pricing.mode === 'wholeDistance') {
+      if (toKm === null || distanceKm <= toKm) {
+        return [{
+          description: `All ${distanceKm} km at ${describeBand(fromKm, toKm)} band rate`,
+          fromKm,
+          toKm,
+          km: distanceKm,
+          perKmRate: band.perKmRate,
+          amount: roundAmount(distanceKm * band.perKmRate),
+        }];
+      }
+    } else {
+      const km = Math.max(0, Math.min(distanceKm, toKm ?? distanceKm) - fromKm);
+      if (km > 0) {
+        items.push({
+          description: `Km ${describeBand(fromKm, toKm)}`,
+          fromKm,
+          toKm,
+          km: Math.round(km * 100) / 100,
+          perKmRate: band.perKmRate,
+          amount: roundAmount(km * band.perKmRate),
+        });
+      }
+    }
+
+    if (toKm === null) break;
+    fromKm = toKm;
+  }
+
+  return items;
+}
+
+/**
+ * Build the toll line item from the model's toll policy
+ * Pass-through tolls bill HERE's EUR estimate (plus markup); when HERE returned
+ * no fares nothing is billed and the caller is expected to warn.
+ */
+function buildTollLineItem(model: MarketModel, routeFacts: RouteFacts): TollLineItem | null {
+  const policy = model.tollPolicy;
+  if (!policy) return null;
+
+  const costEstimate = routeFacts.infrastructure.tollCostEstimate;
+
+  if (policy.mode === 'included') {
+    return {
+      mode: 'included',
+      description: 'Tolls included in rate',
+      costEstimate,
+      markupPercent: 0,
+      amount: 0,
+    };
+  }
+
+  const markupPercent = policy.markupPercent ?? 0;
+  const amount = costEstimate !== null ? costEstimate * (1 + markupPercent / 100) : 0;
+
+  return {
+    mode: 'passThrough',
+    description: markupPercent > 0
+      ? `Tolls (pass-through +${markupPercent}%)`
+      : 'Tolls (pass-through at cost)',
+    costEstimate,
+    markupPercent,
+    amount: roundAmount(amount),
+  };
+}
+
+/**
+ * Build one line per ferry crossing identified in the ferry registry
+ * @returns null when the model has no ferry policy; `unidentified` counts
+ * ferry segments that could not be priced per crossing
+ */
+function buildFerryLineItems(
+  model: MarketModel,
+  routeFacts: RouteFacts
+): { ferries: FerryLineItem[] | null; unidentified: number } {
+  const policy = model.ferryPolicy;
+  if (!policy) return { ferries: null, unidentified: 0 };
+
+  const markupPercent = policy.markupPercent ?? 0;
+  const ferries: FerryLineItem[] = [];
+  let unidentified = 0;
+
+  for (const { crossingId } of routeFacts.infrastructure.ferryCrossings) {
+    const crossing = findFerryCrossingById(crossingId);
+    if (!crossingId || !crossing) {
+      unidentified++;
+      continue;
+    }
+
+    const cost = crossing.costs[model.vehicleProfileId];
+    ferries.push({
+      crossingId,
+      description: markupPercent > 0 ? `Ferry ${crossing.name} (+${markupPercent}%)` : `Ferry ${crossing.name}`,
+      cost,
+      markupPercent,
+      amount: roundAmount(cost * (1 + markupPercent / 100)),
+    });
+  }
+
+  return { ferries, unidentified };
+}
+
+/**
+ * Build the Le Shuttle line for a route through the Channel Tunnel
+ * @returns null when the route does not take the tunnel or the model has no
+ * ferry policy (its flat ukFerry surcharge then covers either crossing)
+ */
+function buildChannelTunnelLineItem(
+  model: MarketModel,
+  routeFacts: RouteFacts
+): ChannelTunnelLineItem | null {
+  const policy = model.ferryPolicy;
+  if (!policy || !routeFacts.infrastructure.hasChannelTunnel) return null;
+
+  const markupPercent = policy.markupPercent ?? 0;
+  const cost = CHANNEL_TUNNEL.costs[model.vehicleProfileId];
+  return {
+    description: markupPercent > 0 ? `${CHANNEL_TUNNEL.name} (+${markupPercent}%)` : CHANNEL_TUNNEL.name,
+    cost,
+    markupPercent,
+    amount: roundAmount(cost * (1 + markupPercent / 100)),
+  };
+}
+
+/**
+ * Date dated reference data (fuel index, exchange rates) is read at: the
+ * pricingDateTime local date at the destination, or today (UTC) without one
+ */
+function resolvePricingDate(routeFacts: RouteFacts, options: QuoteOptions): string {
+  const local = options.pricingDateTime
+    ? toLocalDateTime(options.pricingDateTime, routeFacts.geography.destinationCountry)
+    : null;
+  return local?.date ?? new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Build the indexed fuel surcharge line from the model's fuel clause
+ * percent = (index - base) / base * sensitivity, applied to km + empties charge.
+ * Without an index value for the date the line is kept at zero.
+ */
+function buildFuelLineItem(
+  model: MarketModel,
+  indexDate: string,
+  linehaul: number
+): FuelLineItem | null {
+  const clause = model.fuelClause;
+  if (!clause) return null;
+
+  const indexValue = findFuelIndexValue(indexDate);
+  if (!indexValue) {
+    return {
+      description: 'Fuel surcharge (no index value available)',
+      indexDate: null,
+      indexPricePerLitre: null,
+      basePricePerLitre: clause.basePricePerLitre,
+      sensitivityPercent: clause.sensitivityPercent,
+      percent: 0,
+      amount: 0,
+    };
+  }
+
+  const change = (indexValue.pricePerLitre - clause.basePricePerLitre) / clause.basePricePerLitre;
+  const percent = Math.round(change * clause.sensitivityPercent * 100) / 100;
+
+  return {
+    description: `Fuel surcharge ${percent >= 0 ? '+' : ''}${percent}% ` +
+      `(diesel ${indexValue.pricePerLitre.toFixed(3)} EUR/l from ${indexValue.validFrom})`,
+    indexDate: indexValue.validFrom,
+    indexPricePerLitre: indexValue.pricePerLitre,
+    basePricePerLitre: clause.basePricePerLitre,
+    sensitivityPercent: clause.sensitivityPercent,
+    percent,
+    amount: Math.round(linehaul * percent) / 100,
+  };
+}
+
+/**
+ * Convert EUR amounts to the quote currency at the rate valid on the pricing date
+ * @throws NoExchangeRateError if no exchange rate is available for the currency and date
+ */
+function convertPrice(
+  currency: string,
+  date: string,
+  lineItems: PricingLineItems,
+  finalPrice: number,
+  roundingPolicy: RoundingPolicy | null
+): ConvertedPrice {
+  const rate = findExchangeRate(currency, date);
+  if (!rate) {
+    throw new NoExchangeRateError(currency, date);
+  }
+
+  const convert = (amount: number) => roundAmount(amount * rate.ratePerEur);
+
+  // The policy rounds the converted price, so quotes come out in whole steps of the currency
+  const rounding = roundingPolicy && lineItems.rounding
+    ? buildRoundingLineItem(roundingPolicy, convert(lineItems.rounding.unroundedPrice), rate.currency)
+    : null;
+
+  return {
+    currency: rate.currency,
+    rate: rate.ratePerEur,
+    rateDate: rate.validFrom,
+    lineItems: {
+      kmCharge: convert(lineItems.kmCharge),
+      kmBands: lineItems.kmBands && lineItems.kmBands.map((b) => ({ ...b, amount: convert(b.amount) })),
+      emptiesCharge: convert(lineItems.emptiesCharge),
+      surcharges: lineItems.surcharges.map((s) => ({ ...s, amount: convert(s.amount) })),
+      stops: lineItems.stops && lineItems.stops.map((s) => ({ ...s, amount: convert(s.amount) })),
+      tolls: lineItems.tolls && {
+        ...lineItems.tolls,
+        costEstimate: lineItems.tolls.costEstimate !== null
+          ? convert(lineItems.tolls.costEstimate)
+          : null,
+        amount: convert(lineItems.tolls.amount),
+      },
+      ferries: lineItems.ferries && lineItems.ferries.map((f) => ({
+        ...f,
+        cost: convert(f.cost),
+        amount: convert(f.amount),
+      })),
+      channelTunnel: lineItems.channelTunnel && {
+        ...lineItems.channelTunnel,
+        cost: convert(lineItems.channelTunnel.cost),
+        amount: convert(lineItems.channelTunnel.amount),
+      },
+      fuel: lineItems.fuel && { ...lineItems.fuel, amount: convert(lineItems.fuel.amount) },
+      minimumAdjustment: lineItems.minimumAdjustment !== null
+        ? convert(lineItems.minimumAdjustment)
+        : null,
+      partialLoad: lineItems.partialLoad && {
+        ...lineItems.partialLoad,
+        fullVehiclePrice: convert(lineItems.partialLoad.fullVehiclePrice),
+        amount: convert(lineItems.partialLoad.amount),
+      },
+      waitingTime: lineItems.waitingTime && {
+        ...lineItems.waitingTime,
+        ratePerHour: convert(lineItems.waitingTime.ratePerHour),
+        amount: convert(lineItems.waitingTime.amount),
+      },
+      rounding,
+    },
+    finalPrice: rounding ? roundAmount(rounding.unroundedPrice + rounding.amount) : convert(finalPrice),
+  };
+}
+
+/**
+ * Check if a model version is valid on a date (YYYY-MM-DD, bounds inclusive)
+ */
+function isModelValidOn(model: MarketModel, date: string): boolean {
+  if (model.validFrom !== undefined && date < model.validFrom) return false;
+  if (model.validTo !== undefined && date > model.validTo) return false;
+  return true;
+}
+
+/**
+ * Evaluate a candidate model's lane and validity against the route
+ * Lanes match on country group plus, when set, postal-code ranges.
+ */
+function evaluateCandidate(
+  model: MarketModel,
+  source: PricingSource['type'],
+  origin: SelectionPoint,
+  destination: SelectionPoint,
+  pricingDate: string
+): CandidateModel {
+  const originMatch: LaneSideMatch = {
+    group: model.lane.origin,
+    countryMatched: countryMatchesGroup(origin.country, model.lane.origin),
+    postalCodeMatched: postalCodeMatchesRanges(origin.postalCode, model.lane.originPostalCodes),
+  };
+  const destinationMatch: LaneSideMatch = {
+    group: model.lane.destination,
+    countryMatched: countryMatchesGroup(destination.country, model.lane.destination),
+    postalCodeMatched: postalCodeMatchesRanges(destination.postalCode, model.lane.destinationPostalCodes),
+  };
+  const validOnPricingDate = isModelValidOn(model, pricingDate);
+
+  const rejectionReasons: string[] = [];
+  if (!validOnPricingDate) {
+    rejectionReasons.push(
+      `Not valid on ${pricingDate} (valid ${model.validFrom ?? 'always'} to ${model.validTo ?? 'open end'})`
+    );
+  }
+  const sides = [
+    ['Origin', origin, originMatch],
+    ['Destination', destination, destinationMatch],
+  ] as const;
+  for (const [label, point, match] of sides) {
+    if (!match.countryMatched) {
+      rejectionReasons.push(`${label} ${point.country ?? 'unknown'} is not in group ${match.group}`);
+    } else if (!match.postalCodeMatched) {
+      rejectionReasons.push(`${label} postal code ${point.postalCode ?? 'unknown'} is outside the lane ranges`);
+    }
+  }
+
+  return {
+    modelId: model.id,
+    modelName: model.name,
+    modelVersion: model.version ?? 1,
+    source,
+    validOnPricingDate,
+    origin: originMatch,
+    destination: destinationMatch,
+    selected: false,
+    rejectionReasons,
+  };
+}
+
+/**
+ * Evaluate every contract (when options.customerId has a rate card) and market
+ * model for the vehicle in order; the first candidate without rejection
+ * reasons is selected and later matching candidates are marked as shadowed
+ */
+function runModelSelection(
+  vehicleProfileId: VehicleProfileId,
+  routeFacts: RouteFacts,
+  options: QuoteOptions
+): { selection: ModelSelection; model: MarketModel | null } {
+  const pricingDate = resolvePricingDate(routeFacts, options);
+  const customerId = options.customerId ?? null;
+  const { geography } = routeFacts;
+  const origin: SelectionPoint = {
+    country: geography.originCountry,
+    postalCode: geography.originPostalCode,
+    groups: getCountryGroupsOf(geography.originCountry),
+  };
+  const destination: SelectionPoint = {
+    country: geography.destinationCountry,
+    postalCode: geography.destinationPostalCode,
+    groups: getCountryGroupsOf(geography.destinationCountry),
+  };
+
+  const contractModels = customerId
+    ? (getRateCard(customerId)?.models ?? []).filter((m) => m.vehicleProfileId === vehicleProfileId)
+    : [];
+  const evaluated = [
+    ...contractModels.map((model) => ({
+      model,
+      candidate: evaluateCandidate(model, 'contract', origin, destination, pricingDate),
+    })),
+    ...getModelsForVehicle(vehicleProfileId).map((model) => ({
+      model,
+      candidate: evaluateCandidate(model, 'market', origin, destination, pricingDate),
+    })),
+  ];
+
+  // First match wins (order matters - more specific first)
+  let selected: { model: MarketModel; candidate: CandidateModel } | null = null;
+  for (const entry of evaluated) {
+    if (entry.candidate.rejectionReasons.length > 0) continue;
+    if (selected) {
+      entry.candidate.rejectionReasons.push(
+        `Lane matches, but ${selected.candidate.modelId} v${selected.candidate.modelVersion} comes first`
+      );
+    } else {
+      entry.candidate.selected = true;
+      selected = entry;
+    }
+  }
+
+  return {
+    selection: {
+      vehicleProfileId,
+      pricingDate,
+      customerId,
+      origin,
+      destination,
+      candidates: evaluated.map((entry) => entry.candidate),
+    },
+    model: selected?.model ?? null,
+  };
+}
+
+/**
+ * Explain model selection for a route: every candidate model in evaluation
+ * order with its lane match results and rejection reasons
+ */
+export function explainModelSelection(
+  vehicleProfileId: VehicleProfileId,
+  routeFacts: RouteFacts,
+  options: QuoteOptions = {}
+): ModelSelection {
+  return runModelSelection(vehicleProfileId, routeFacts, options).selection;
+}
+
+/**
+ * Source of a selected model; explains why a customer's contract was not used
+ */
+function describeSource(selection: ModelSelection): PricingSource {
+  const { vehicleProfileId, customerId } = selection;
+  const chosen = selection.candidates.find((c) => c.selected);
+
+  if (chosen?.source === 'contract' && customerId) {
+    return { type: 'contract', customerId };
+  }
+  if (!customerId) {
+    return { type: 'market', customerId: null };
+  }
+
+  const fallbackReason = getRateCard(customerId)
+    ? `Rate card of ${customerId} does not cover this lane for ${vehicleProfileId}`
+    : `No rate card for customer ${customerId}`;
+  return { type: 'market', customerId, fallbackReason };
+}
+
+/**
+ * Select the model pricing a route, with the source it came from
+ * The customer's contract rate card wins when it covers the lane; otherwise
+ * the market models are used and the fallback is explained. The selection is
+ * returned even when no model matches, to explain the rejections.
+ */
+export function selectPricingModel(
+  vehicleProfileId: VehicleProfileId,
+  routeFacts: RouteFacts,
+  options: QuoteOptions = {}
+): { selection: ModelSelection; selected: { model: MarketModel; source: PricingSource } | null } {
+  const { selection, model } = runModelSelection(vehicleProfileId, routeFacts, options);
+
+  return {
+    selection,
+    selected: model ? { model, source: describeSource(selection) } : null,
+  };
+}
+
+/**
+ * Find matching model for route (contract model first when options.customerId is set)
+ * Only model versions valid on the pricing date (pricingDateTime local date at
+ * the destination, or today) are considered.
  */
 export function findMatchingModel(
   vehicleProfileId: VehicleProfileId,
-  routeFacts: RouteFacts
+  routeFacts: RouteFacts,
+  options: QuoteOptions = {}
 ): MarketModel | null {
-  const models = getModelsForVehicle(vehicleProfileId);
-  const originCountry = routeFacts.geography.originCountry;
-  const destCountry = routeFacts.geography.destinationCountry;
+  return selectPricingModel(vehicleProfileId, routeFacts, options).selected?.model ?? null;
+}
 
-  // Find first matching model (order matters - more specific first)
-  for (const model of models) {
-    const originMatch = countryMatchesGroup(originCountry, model.lane.origin);
-    const destMatch = countryMatchesGroup(destCountry, model.lane.destination);
+/**
+ * Check if a vehicle has any market model, or contract model of the customer
+ * Lanes and validity dates are not considered.
+ */
+export function hasPricingModels(vehicleProfileId: VehicleProfileId, customerId?: string): boolean {
+  const contractModels = customerId ? (getRateCard(customerId)?.models ?? []) : [];
+  return (
+    contractModels.some((m) => m.vehicleProfileId === vehicleProfileId) ||
+    getModelsForVehicle(vehicleProfileId).length > 0
+  );
+}
 
-    if (originMatch && destMatch) {
-      return model;
-    }
+/**
+ * Build one fee line per stop; the first freeStops stops are free
+ * Returns null when the model has no stop fees.
+ */
+function buildStopLineItems(model: MarketModel, stops: Stop[]): StopLineItem[] | null {
+  const fees = model.stopFees;
+  if (!fees) return null;
+
+  const freeStops = fees.freeStops ?? 0;
+  return stops.map((stop, index) => {
+    const free = index < freeStops;
+    const typeLabel = stop.type === 'loading' ? 'Loading' : 'Unloading';
+    return {
+      stopNumber: index + 1,
+      type: stop.type,
+      description: `${typeLabel} stop ${index + 1}${stop.label ? `: ${stop.label}` : ''}${free ? ' (included)' : ''}`,
+      free,
+      amount: free ? 0 : fees[stop.type],
+    };
+  });
+}
+
+/**
+ * Build the demurrage line for waiting beyond the free loading/unloading hours
+ * Returns null when the model has no demurrage rates.
+ */
+function buildWaitingTimeLineItem(
+  model: MarketModel,
+  loadingHours: number,
+  unloadingHours: number
+): WaitingTimeLineItem | null {
+  const rates = model.demurrage;
+  if (!rates) return null;
+
+  const chargeableHours = roundAmount(
+    Math.max(0, loadingHours - rates.freeLoadingHours) +
+    Math.max(0, unloadingHours - rates.freeUnloadingHours)
+  );
+
+  return {
+    description: chargeableHours > 0
+      ? `Waiting time: ${chargeableHours} h beyond the free allowance`
+      : 'Waiting time within the free allowance',
+    loadingHours,
+    unloadingHours,
+    freeLoadingHours: rates.freeLoadingHours,
+    freeUnloadingHours: rates.freeUnloadingHours,
+    chargeableHours,
+    ratePerHour: rates.ratePerHour,
+    amount: roundAmount(chargeableHours * rates.ratePerHour),
+  };
+}
+
+/**
+ * Start of driving the transit plan is dated from, in origin local time:
+ * departureTime, or pricingDateTime when no departure time is given
+ */
+function resolvePlanDeparture(routeFacts: RouteFacts, options: QuoteOptions): LocalDateTime | null {
+  const { originCountry, destinationCountry } = routeFacts.geography;
+  if (options.departureTime) {
+    return toLocalDateTime(options.departureTime, originCountry);
   }
+  if (!options.pricingDateTime) return null;
+
+  const local = toLocalDateTime(options.pricingDateTime, destinationCountry);
+  return local && toTimeZone(local, getTimeZoneForCountry(originCountry) ?? local.timeZone);
+}
+
+/**
+ * Expected transit time: HERE driving time plus loading and unloading, and
+ * the driver-hours plan dated from resolvePlanDeparture
+ */
+function buildTransitTime(
+  routeFacts: RouteFacts,
+  options: QuoteOptions,
+  loadingHours: number,
+  unloadingHours: number
+): TransitTime {
+  const drivingHours = routeFacts.route.durationHours;
+  const departure = resolvePlanDeparture(routeFacts, options);
+
+  return {
+    drivingHours,
+    loadingHours,
+    unloadingHours,
+    totalHours: drivingHours !== null
+      ? roundAmount(drivingHours + loadingHours + unloadingHours)
+      : null,
+    plan: planTransit(routeFacts, { crew: options.crew ?? 'single', loadingHours, unloadingHours, departure }),
+  };
+}
+
+/**
+ * Warn when the planned delivery is later than the requested delivery time,
+ * which the timed surcharges are based on
+ * Only a plan dated from departureTime is checked; one dated from
+ * pricingDateTime always ends after it.
+ */
+function checkPlannedDelivery(transitTime: TransitTime, routeFacts: RouteFacts, options: QuoteOptions): string | null {
+  const plan = transitTime.plan;
+  if (!plan?.estimatedDelivery || !options.departureTime || !options.pricingDateTime) return null;
+
+  const requested = toLocalDateTime(options.pricingDateTime, routeFacts.geography.destinationCountry);
+  if (!requested || requested.timeZone !== plan.deliveryTimeZone) return null;
 
-  return null;
+  const requestedDelivery = toIsoLocalDateTime(requested);
+  return plan.estimatedDelivery > requestedDelivery
+    ? `Estimated delivery ${plan.estimatedDelivery} ${plan.deliveryTimeZone} is after pricingDateTime ` +
+      `${requestedDelivery}; surcharges are based on pricingDateTime`
+    : null;
 }
 
 /**
@@ -105,28 +831,29 @@ export function findMatchingModel(
 export function calculatePrice(
   model: MarketModel,
   routeFacts: RouteFacts,
-  _options: QuoteOptions = {}
+  options: QuoteOptions = {},
+  source: PricingSource = { type: 'market', customerId: null }
 ): PricingResult {
   const distanceKm = routeFacts.route.distanceKm;
   const surcharges: SurchargeLineItem[] = [];
 
-  // Calculate base km charge
-  let kmCharge: number;
+  // Calculate base km charge (per distance band when the model defines bands)
+  const kmBands = buildKmBands(model, distanceKm);
+  const kmCharge = kmBands
+    ? kmBands.reduce((sum, band) => sum + band.amount, 0)
+    : distanceKm * model.perKmRate;
   let emptiesCharge: number;
 
   if (model.emptyKmFlat !== undefined) {
     // Add empty km to distance and multiply by rate
     // Formula: (routeKm + emptyKm) * rate
-    kmCharge = distanceKm * model.perKmRate;
     emptiesCharge = model.emptyKmFlat * model.perKmRate;
   } else if (model.emptyFeeFlat !== undefined) {
     // Use flat empty fee
     // Formula: (routeKm * rate) + emptyFee
-    kmCharge = distanceKm * model.perKmRate;
     emptiesCharge = model.emptyFeeFlat;
   } else {
     // No empties
-    kmCharge = distanceKm * model.perKmRate;
     emptiesCharge = 0;
   }
 
@@ -138,14 +865,28 @@ export function calculatePrice(
   // via polyline bbox or waypoint proximity (not by action-text mentions alone),
   // so the alpsTunnel surcharge keys on this flag directly.
   const crossesAlps = routeFacts.riskFlags.crossesAlps;
+  const timing = resolveDeliveryTiming(routeFacts, options);
+  const regions = resolveRegionalConditions(routeFacts, isUK);
+  const holidays = findRouteHolidays(routeFacts, options);
+  const warnings = holidays.map(
+    (h) => `pricingDateTime falls on a public holiday: ${describeRouteHoliday(h)}`
+  );
+
+  const { ferries, unidentified: unidentifiedFerries } = buildFerryLineItems(model, routeFacts);
+  if (unidentifiedFerries > 0) {
+    warnings.push(`${unidentifiedFerries} ferry segment(s) not found in the ferry crossing registry; not charged per crossing`);
+  }
+  const channelTunnel = buildChannelTunnelLineItem(model, routeFacts);
 
   if (model.surcharges) {
     for (const surchargeConfig of model.surcharges) {
       let applies = false;
+      let reason: string | undefined;
 
       switch (surchargeConfig.type) {
         case 'ukFerry':
-          applies = isUK;
+          // Identified crossings and Le Shuttle are billed per crossing instead
+          applies = isUK && !(ferries && ferries.length > 0) && !channelTunnel;
           break;
         case 'frejusOrMontBlanc':
           applies = hasFrejusMontBlanc;
@@ -157,28 +898,74 @@ export function calculatePrice(
         case 'alpineTunnel':
           applies = hasAlpine;
           break;
-        // TODO: Handle weekend and unloadingAfter14 based on options
         case 'weekend':
-          // applies = options.isWeekend ?? false;
+          ({ applies, reason } = timing.weekend);
           break;
         case 'unloadingAfter14':
-          // applies = options.unloadingAfter14 ?? false;
+          ({ applies, reason } = timing.unloadingAfter14);
+          break;
+        case 'publicHoliday':
+          applies = holidays.length > 0;
+          reason = holidays.map(describeRouteHoliday).join('; ');
+          break;
+        case 'adr':
+          applies = routeFacts.regulatory.adrRequired === true;
+          break;
+        case 'scandinavia':
+        case 'baltic':
+        case 'island':
+          ({ applies, reason } = regions[surchargeConfig.type]);
           break;
       }
 
       if (applies) {
+        const holidayNames = surchargeConfig.type === 'publicHoliday'
+          ? `: ${[...new Set(holidays.map((h) => h.holiday.name))].join(', ')}`
+          : '';
         surcharges.push({
           type: surchargeConfig.type,
-          description: surchargeConfig.description,
+          description: surchargeConfig.description + holidayNames,
           amount: surchargeConfig.amount,
+          ...(reason ? { reason } : {}),
         });
       }
     }
   }
 
+  const stopCount = options.stops?.length ?? 0;
+  const stops = buildStopLineItems(model, options.stops ?? []);
+  if (!stops && stopCount > 0) {
+    warnings.push(`Route has ${stopCount} intermediate stop(s) but model ${model.id} has no stop fees; stops not charged`);
+  }
+
+  const loadingHours = options.loadingHours ?? 0;
+  const unloadingHours = options.unloadingHours ?? 0;
+  const waitingTime = buildWaitingTimeLineItem(model, loadingHours, unloadingHours);
+  if (!waitingTime && loadingHours + unloadingHours > 0) {
+    warnings.push(`Model ${model.id} has no demurrage rates; waiting time not charged`);
+  }
+
+  const tolls = buildTollLineItem(model, routeFacts);
+  if (
+    tolls?.mode === 'passThrough' &&
+    tolls.costEstimate === null &&
+    routeFacts.infrastructure.hasTollRoads
+  ) {
+    warnings.push('Toll roads on route but no toll cost estimate available; tolls not passed through');
+  }
+
+  const pricingDate = resolvePricingDate(routeFacts, options);
+  const fuel = buildFuelLineItem(model, pricingDate, kmCharge + emptiesCharge);
+  if (fuel && fuel.indexDate === null) {
+    warnings.push(`No fuel index value valid on ${pricingDate}; fuel surcharge not applied`);
+  }
+
   // Calculate subtotal
   const surchargesTotal = surcharges.reduce((sum, s) => sum + s.amount, 0);
-  let subtotal = kmCharge + emptiesCharge + surchargesTotal;
+  const stopsTotal = stops?.reduce((sum, s) => sum + s.amount, 0) ?? 0;
+  const ferriesTotal = ferries?.reduce((sum, f) => sum + f.amount, 0) ?? 0;
+  let subtotal = kmCharge + emptiesCharge + (fuel?.amount ?? 0) + surchargesTotal + stopsTotal + ferriesTotal +
+    (channelTunnel?.amount ?? 0);
 
   // Apply minimum
   let minimumAdjustment: number | null = null;
@@ -195,49 +982,105 @@ export function calculatePrice(
     subtotal = minimum;
   }
 
-  // Round to 2 decimal places
-  const finalPrice = Math.round(subtotal * 100) / 100;
+  // Passed-through tolls are added after the minimum so they are never absorbed by it
+  if (tolls) {
+    subtotal += tolls.amount;
+  }
+
+  // A partial load pays its share of the whole vehicle, minimum and tolls included
+  const partialLoad = options.shipment
+    ? buildPartialLoadLineItem(model, options.shipment, subtotal)
+    : null;
+  if (partialLoad) {
+    subtotal += partialLoad.amount;
+  }
+
+  // Waiting time is caused by this shipment alone, so it is not shared
+  if (waitingTime) {
+    subtotal += waitingTime.amount;
+  }
+
+  // Sales rounding is the last step and shows as its own line item
+  const unroundedPrice = roundAmount(subtotal);
+  const roundingPolicy = model.rounding ?? getDefaultRoundingPolicy();
+  const rounding = roundingPolicy ? buildRoundingLineItem(roundingPolicy, unroundedPrice) : null;
+  const finalPrice = roundAmount(unroundedPrice + (rounding?.amount ?? 0));
+
+  const lineItems: PricingLineItems = {
+    kmCharge: roundAmount(kmCharge),
+    kmBands,
+    emptiesCharge: roundAmount(emptiesCharge),
+    surcharges,
+    stops,
+    tolls,
+    ferries,
+    channelTunnel,
+    fuel,
+    minimumAdjustment: minimumAdjustment !== null ? roundAmount(minimumAdjustment) : null,
+    partialLoad,
+    waitingTime,
+    rounding,
+  };
+
+  const transitTime = buildTransitTime(routeFacts, options, loadingHours, unloadingHours);
+  const lateDelivery = checkPlannedDelivery(transitTime, routeFacts, options);
+  if (lateDelivery) {
+    warnings.push(lateDelivery);
+  }
+
+  const quoteCurrency = options.currency?.toUpperCase() ?? BASE_CURRENCY;
+  const converted = quoteCurrency !== BASE_CURRENCY
+    ? convertPrice(quoteCurrency, pricingDate, lineItems, finalPrice, roundingPolicy)
+    : null;
 
   return {
     modelId: model.id,
     modelName: model.name,
+    modelVersion: model.version ?? 1,
+    source,
+    pricingDate,
     distanceKm,
-    lineItems: {
-      kmCharge: Math.round(kmCharge * 100) / 100,
-      emptiesCharge: Math.round(emptiesCharge * 100) / 100,
-      surcharges,
-      minimumAdjustment: minimumAdjustment !== null
-        ? Math.round(minimumAdjustment * 100) / 100
-        : null,
-    },
+    lineItems,
     finalPrice,
-    currency: 'EUR',
+    currency: BASE_CURRENCY,
+    converted,
+    transitTime,
+    warnings,
   };
 }
 
 /**
  * Calculate quote for a route
- * @throws Error if no matching model found
+ * @throws ShipmentCapacityError if the shipment does not fit the vehicle
+ * @throws NoPricingModelError if no matching model found
  */
 export function calculateQuote(
   vehicleProfileId: VehicleProfileId,
   routeFacts: RouteFacts,
   options: QuoteOptions = {}
 ): PricingResult {
-  const model = findMatchingModel(vehicleProfileId, routeFacts);
+  if (options.shipment) {
+    calculateLoadShare(vehicleProfileId, options.shipment);
+  }
 
-  if (!model) {
-    const origin = routeFacts.geography.originCountry ?? 'unknown';
-    const dest = routeFacts.geography.destinationCountry ?? 'unknown';
-    const originGroup = getCountryGroup(origin);
-    const destGroup = getCountryGroup(dest);
+  const { selection, selected } = selectPricingModel(vehicleProfileId, routeFacts, options);
 
-    throw new Error(
+  if (!selected) {
+    const origin = selection.origin.country ?? 'unknown';
+    const dest = selection.destination.country ?? 'unknown';
+    const originGroups = selection.origin.groups;
+    const destGroups = selection.destination.groups;
+
+    throw new NoPricingModelError(
       `No pricing model found for vehicle ${vehicleProfileId} ` +
-      `from ${origin}${originGroup ? ` (group: ${originGroup})` : ''} ` +
-      `to ${dest}${destGroup ? ` (group: ${destGroup})` : ''}`
+      `from ${origin}${originGroups.length > 0 ? ` (groups: ${originGroups.join(', ')})` : ''} ` +
+      `to ${dest}${destGroups.length > 0 ? ` (groups: ${destGroups.join(', ')})` : ''}`,
+      selection
     );
   }
 
-  return calculatePrice(model, routeFacts, options);
+  return {
+    ...calculatePrice(selected.model, routeFacts, options, selected.source),
+    modelSelection: selection,
+  };
 }
@@ -0,0 +1,57 @@
+/**
+ * Pricing error types
+ * Kept apart from the engine so the API error mapping can check them with
+ * instanceof without importing pricing logic.
+ */
+
+import type { VehicleProfileId } from '../here/vehicle-profiles.js';
+import type { ModelSelection } from './types.js';
+
+/**
+ * No model covers the route; `selection` explains why each candidate was rejected
+ */
+export class NoPricingModelError extends Error {
+  constructor(
+    message: string,
+    public readonly selection: ModelSelection
+  ) {
+    super(message);
+    this.name = 'NoPricingModelError';
+  }
+}
+
+/**
+ * Capacity dimension a shipment can exceed
+ */
+export interface CapacityExcess {
+  dimension: 'pallets' | 'loadingMetres' | 'weightKg';
+  requested: number;
+  capacity: number;
+}
+
+/**
+ * Shipment does not fit the vehicle profile
+ */
+export class ShipmentCapacityError extends Error {
+  constructor(
+    message: string,
+    public readonly vehicleProfileId: VehicleProfileId,
+    public readonly exceeded: CapacityExcess[]
+  ) {
+    super(message);
+    this.name = 'ShipmentCapacityError';
+  }
+}
+
+/**
+ * No exchange rate for the quote currency is valid on the pricing date
+ */
+export class NoExchangeRateError extends Error {
+  constructor(
+    public readonly currency: string,
+    public readonly date: string
+  ) {
+    super(`No exchange rate for ${currency} valid on ${date}`);
+    this.name = 'NoExchangeRateError';
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  getExchangeRates,
+  setExchangeRates,
+  upsertExchangeRates,
+  findExchangeRate,
+  loadExchangeRatesFile,
+  saveExchangeRatesFile,
+} from './exchange-rates.js';
+
+describe('exchange rates', () => {
+  afterEach(() => {
+    setExchangeRates([]);
+  });
+
+  describe('findExchangeRate', () => {
+    it('returns the latest rate for the currency valid on the date', () => {
+      setExchangeRates([
+        { currency: 'PLN', validFrom: '2026-10-01', ratePerEur: 4.25 },
+        { currency: 'PLN', validFrom: '2026-10-15', ratePerEur: 4.3 },
+        { currency: 'GBP', validFrom: '2026-10-10', ratePerEur: 0.86 },
+      ]);
+
+      expect(findExchangeRate('PLN', '2026-10-14')?.ratePerEur).toBe(4.25);
+      expect(findExchangeRate('pln', '2026-10-19')?.ratePerEur).toBe(4.3);
+      expect(findExchangeRate('GBP', '2026-10-19')?.ratePerEur).toBe(0.86);
+    });
+
+    it('returns null for unknown currencies or dates before the first rate', () => {
+      setExchangeRates([{ currency: 'GBP', validFrom: '2026-10-10', ratePerEur: 0.86 }]);
+
+      expect(findExchangeRate('GBP', '2026-10-09')).toBeNull();
+      expect(findExchangeRate('CHF', '2026-10-19')).toBeNull();
+    });
+
+    it('converts EUR at 1 without a table entry', () => {
+      expect(findExchangeRate('EUR', '2026-10-19')).toEqual({
+        currency: 'EUR',
+        validFrom: '2026-10-19',
+        ratePerEur: 1,
+      });
+    });
+  });
+
+  describe('upsertExchangeRates', () => {
+    it('replaces rates for the same currency and date', () => {
+      setExchangeRates([{ currency: 'PLN', validFrom: '2026-10-01', ratePerEur: 4.25 }]);
+
+      upsertExchangeRates([
+        { currency: 'PLN', validFrom: '2026-10-01', ratePerEur: 4.26 },
+        { currency: 'GBP', validFrom: '2026-10-01', ratePerEur: 0.86 },
+      ]);
+
+      expect(getExchangeRates()).toEqual([
+        { currency: 'GBP', validFrom: '2026-10-01', ratePerEur: 0.86 },
+        { currency: 'PLN', validFrom: '2026-10-01', ratePerEur: 4.26 },
+      ]);
+    });
+  });
+
+  describe('file storage', () => {
+    let dir: string;
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('round-trips the table through a JSON file', async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'exchange-rates-'));
+      const filePath = path.join(dir, 'exchange-rates.json');
+      setExchangeRates([{ currency: 'PLN', validFrom: '2026-10-01', ratePerEur: 4.25 }]);
+
+      await saveExchangeRatesFile(filePath);
+      setExchangeRates([]);
+
+      expect(await loadExchangeRatesFile(filePath)).toEqual([
+        { currency: 'PLN', validFrom: '2026-10-01', ratePerEur: 4.25 },
+      ]);
+    });
+
+    it('rejects invalid currency codes', async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'exchange-rates-'));
+      const filePath = path.join(dir, 'exchange-rates.json');
+      await writeFile(filePath, JSON.stringify([{ currency: 'zloty', validFrom: '2026-10-01', ratePerEur: 4.25 }]));
+
+      await expect(loadExchangeRatesFile(filePath)).rejects.toThrow('Invalid exchange rates file');
+    });
+
+    it('rejects a file that is not valid JSON', async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'exchange-rates-'));
+      const filePath = path.join(dir, 'exchange-rates.json');
+      await writeFile(filePath, 'not json');
+
+      await expect(loadExchangeRatesFile(filePath)).rejects.toThrow(/Invalid exchange rates file .*not valid JSON/);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Exchange-rate table for quoting in currencies other than EUR
+ * Dated EUR -> currency rates kept in memory and persisted to a local JSON
+ * file (no live FX service); each rate is valid from its date until the next
+ * rate for the same currency.
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod/v4';
+
+/**
+ * Base currency all market models are priced in
+ */
+export const BASE_CURRENCY = 'EUR';
+
+/**
+ * EUR -> currency rate valid from a given date
+ */
+export const ExchangeRateEntrySchema = z.object({
+  /** ISO 4217 currency code (e.g. PLN, GBP) */
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 code like PLN'),
+  /** First day the rate applies (YYYY-MM-DD) */
+  validFrom: z.iso.date(),
+  /** Units of currency per 1 EUR */
+  ratePerEur: z.number().positive(),
+});
+
+export type ExchangeRateEntry = z.infer<typeof ExchangeRateEntrySchema>;
+
+/**
+ * Current table, sorted by currency then validFrom with unique (currency, date)
+ */
+let exchangeRates: ExchangeRateEntry[] = [];
+
+function rateKey(entry: ExchangeRateEntry): string {
+  return `${entry.currency}|${entry.validFrom}`;
+}
+
+/**
+ * Get the current exchange-rate table
+ */
+export function getExchangeRates(): readonly ExchangeRateEntry[] {
+  return exchangeRates;
+}
+
+/**
+ * Replace the whole exchange-rate table
+ */
+export function setExchangeRates(entries: ExchangeRateEntry[]): void {
+  exchangeRates = [];
+  upsertExchangeRates(entries);
+}
+
+/**
+ * Add or replace rates; an entry for an existing currency and date replaces it
+ * @returns the updated table
+ */
+export function upsertExchangeRates(entries: ExchangeRateEntry[]): readonly ExchangeRateEntry[] {
+  const byKey = new Map(exchangeRates.map((entry) => [rateKey(entry), entry]));
+  for (const entry of entries) {
+    byKey.set(rateKey(entry), {
+      currency: entry.currency,
+      validFrom: entry.validFrom,
+      ratePerEur: entry.ratePerEur,
+    });
+  }
+  exchangeRates = Array.from(byKey.values()).sort(
+    (a, b) => a.currency.localeCompare(b.currency) || a.validFrom.localeCompare(b.validFrom)
+  );
+  return exchangeRates;
+}
+
+/**
+ * Find the EUR -> currency rate valid on a date (latest validFrom <= date)
+ * EUR itself always converts at 1.
+ */
+export function findExchangeRate(currency: string, date: string): ExchangeRateEntry | null {
+  const code = currency.toUpperCase();
+  if (code === BASE_CURRENCY) {
+    return { currency: BASE_CURRENCY, validFrom: date, ratePerEur: 1 };
+  }
+
+  let match: ExchangeRateEntry | null = null;
+  for (const entry of exchangeRates) {
+    if (entry.currency !== code || entry.validFrom > date) continue;
+    match = entry;
+  }
+  return match;
+}
+
+/**
+ * Load the exchange-rate table from a JSON file (array of entries)
+ * A missing file leaves the table empty.
+ */
+export async function loadExchangeRatesFile(filePath: string): Promise<readonly ExchangeRateEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      setExchangeRates([]);
+      return exchangeRates;
+    }
+    throw error;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid exchange rates file ${filePath}: not valid JSON: ${reason}`);
+  }
+
+  const result = z.array(ExchangeRateEntrySchema).safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid exchange rates file ${filePath}: ${z.prettifyError(result.error)}`);
+  }
+
+  setExchangeRates(result.data);
+  return exchangeRates;
+}
+
+/**
+ * Persist the current exchange-rate table to a JSON file
+ */
+export async function saveExchangeRatesFile(filePath: string): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(exchangeRates, null, 2) + '\n', 'utf8');
+}
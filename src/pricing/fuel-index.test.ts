@@ -0,0 +1,102 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readFile, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  getFuelIndex,
+  setFuelIndex,
+  upsertFuelIndexEntries,
+  findFuelIndexValue,
+  loadFuelIndexFile,
+  saveFuelIndexFile,
+} from './fuel-index.js';
+
+describe('fuel index', () => {
+  afterEach(() => {
+    setFuelIndex([]);
+  });
+
+  describe('findFuelIndexValue', () => {
+    it('returns the latest entry valid on the date', () => {
+      setFuelIndex([
+        { validFrom: '2026-10-12', pricePerLitre: 1.62 },
+        { validFrom: '2026-10-05', pricePerLitre: 1.58 },
+        { validFrom: '2026-10-19', pricePerLitre: 1.65 },
+      ]);
+
+      expect(findFuelIndexValue('2026-10-05')?.pricePerLitre).toBe(1.58);
+      expect(findFuelIndexValue('2026-10-18')?.pricePerLitre).toBe(1.62);
+      expect(findFuelIndexValue('2027-01-01')?.pricePerLitre).toBe(1.65);
+    });
+
+    it('returns null before the first entry or for an empty index', () => {
+      expect(findFuelIndexValue('2026-10-19')).toBeNull();
+
+      setFuelIndex([{ validFrom: '2026-10-05', pricePerLitre: 1.58 }]);
+      expect(findFuelIndexValue('2026-10-04')).toBeNull();
+    });
+  });
+
+  describe('upsertFuelIndexEntries', () => {
+    it('adds new dates and replaces existing ones', () => {
+      setFuelIndex([{ validFrom: '2026-10-05', pricePerLitre: 1.58 }]);
+
+      const entries = upsertFuelIndexEntries([
+        { validFrom: '2026-10-12', pricePerLitre: 1.62 },
+        { validFrom: '2026-10-05', pricePerLitre: 1.59 },
+      ]);
+
+      expect(entries).toEqual([
+        { validFrom: '2026-10-05', pricePerLitre: 1.59 },
+        { validFrom: '2026-10-12', pricePerLitre: 1.62 },
+      ]);
+      expect(getFuelIndex()).toEqual(entries);
+    });
+  });
+
+  describe('file storage', () => {
+    let dir: string;
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('round-trips the index through a JSON file', async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'fuel-index-'));
+      const filePath = path.join(dir, 'nested', 'fuel-index.json');
+      setFuelIndex([{ validFrom: '2026-10-05', pricePerLitre: 1.58 }]);
+
+      await saveFuelIndexFile(filePath);
+      setFuelIndex([]);
+      const loaded = await loadFuelIndexFile(filePath);
+
+      expect(loaded).toEqual([{ validFrom: '2026-10-05', pricePerLitre: 1.58 }]);
+      expect(JSON.parse(await readFile(filePath, 'utf8'))).toEqual(loaded);
+    });
+
+    it('starts empty when the file does not exist', async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'fuel-index-'));
+      setFuelIndex([{ validFrom: '2026-10-05', pricePerLitre: 1.58 }]);
+
+      const loaded = await loadFuelIndexFile(path.join(dir, 'missing.json'));
+
+      expect(loaded).toEqual([]);
+    });
+
+    it('rejects invalid entries', async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'fuel-index-'));
+      const filePath = path.join(dir, 'fuel-index.json');
+      await writeFile(filePath, JSON.stringify([{ validFrom: '05.10.2026', pricePerLitre: -1 }]));
+
+      await expect(loadFuelIndexFile(filePath)).rejects.toThrow('Invalid fuel index file');
+    });
+
+    it('rejects a file that is not valid JSON', async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'fuel-index-'));
+      const filePath = path.join(dir, 'fuel-index.json');
+      await writeFile(filePath, '[{ "validFrom": ');
+
+      await expect(loadFuelIndexFile(filePath)).rejects.toThrow(/Invalid fuel index file .*not valid JSON/);
+    });
+  });
+});
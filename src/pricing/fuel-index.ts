@@ -0,0 +1,111 @@
+/**
+ * Diesel fuel index for indexed fuel surcharges (diesel floater)
+ * A dated table of diesel prices kept in memory and persisted to a local JSON
+ * file; each entry is valid from its date until the next entry.
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod/v4';
+
+/**
+ * Diesel price valid from a given date
+ */
+export const FuelIndexEntrySchema = z.object({
+  /** First day the value applies (YYYY-MM-DD) */
+  validFrom: z.iso.date(),
+  /** Diesel price in EUR per litre */
+  pricePerLitre: z.number().positive(),
+});
+
+export type FuelIndexEntry = z.infer<typeof FuelIndexEntrySchema>;
+
+/**
+ * Current index, sorted by validFrom ascending with unique dates
+ */
+let fuelIndex: FuelIndexEntry[] = [];
+
+function sortByValidFrom(entries: FuelIndexEntry[]): FuelIndexEntry[] {
+  return [...entries].sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+}
+
+/**
+ * Get the current fuel index (sorted by validFrom)
+ */
+export function getFuelIndex(): readonly FuelIndexEntry[] {
+  return fuelIndex;
+}
+
+/**
+ * Replace the whole fuel index
+ */
+export function setFuelIndex(entries: FuelIndexEntry[]): void {
+  fuelIndex = [];
+  upsertFuelIndexEntries(entries);
+}
+
+/**
+ * Add or replace index values; an entry for an existing date replaces it
+ * @returns the updated index
+ */
+export function upsertFuelIndexEntries(entries: FuelIndexEntry[]): readonly FuelIndexEntry[] {
+  const byDate = new Map(fuelIndex.map((entry) => [entry.validFrom, entry]));
+  for (const entry of entries) {
+    byDate.set(entry.validFrom, { validFrom: entry.validFrom, pricePerLitre: entry.pricePerLitre });
+  }
+  fuelIndex = sortByValidFrom(Array.from(byDate.values()));
+  return fuelIndex;
+}
+
+/**
+ * Find the index value valid on a date (latest entry with validFrom <= date)
+ */
+export function findFuelIndexValue(date: string): FuelIndexEntry | null {
+  let match: FuelIndexEntry | null = null;
+  for (const entry of fuelIndex) {
+    if (entry.validFrom > date) break;
+    match = entry;
+  }
+  return match;
+}
+
+/**
+ * Load the fuel index from a JSON file (array of entries)
+ * A missing file leaves the index empty.
+ */
+export async function loadFuelIndexFile(filePath: string): Promise<readonly FuelIndexEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      setFuelIndex([]);
+      return fuelIndex;
+    }
+    throw error;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid fuel index file ${filePath}: not valid JSON: ${reason}`);
+  }
+
+  const result = z.array(FuelIndexEntrySchema).safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid fuel index file ${filePath}: ${z.prettifyError(result.error)}`);
+  }
+
+  setFuelIndex(result.data);
+  return fuelIndex;
+}
+
+/**
+ * Persist the current fuel index to a JSON file
+ */
+export async function saveFuelIndexFile(filePath: string): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(fuelIndex, null, 2) + '\n', 'utf8');
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HOLIDAY_CALENDARS,
+  westernEaster,
+  orthodoxEaster,
+  getPublicHolidays,
+  findPublicHoliday,
+  hasHolidayCalendar,
+} from './holidays.js';
+import { EU_COUNTRIES } from '../geo/countries.js';
+
+describe('holidays', () => {
+  describe('Easter computation', () => {
+    it('computes Western Easter Sunday', () => {
+      expect(westernEaster(2024)).toEqual({ month: 3, day: 31 });
+      expect(westernEaster(2025)).toEqual({ month: 4, day: 20 });
+      expect(westernEaster(2026)).toEqual({ month: 4, day: 5 });
+    });
+
+    it('computes Orthodox Easter Sunday as a Gregorian date', () => {
+      expect(orthodoxEaster(2024)).toEqual({ month: 5, day: 5 });
+      expect(orthodoxEaster(2025)).toEqual({ month: 4, day: 20 });
+      expect(orthodoxEaster(2026)).toEqual({ month: 4, day: 12 });
+    });
+  });
+
+  describe('coverage', () => {
+    it('has a calendar for every EU member state plus GB, CH and NO', () => {
+      for (const code of [...EU_COUNTRIES, 'GB', 'CH', 'NO']) {
+        expect(HOLIDAY_CALENDARS[code], code).toBeDefined();
+      }
+    });
+
+    it('accepts alpha-3 and UK codes', () => {
+      expect(hasHolidayCalendar('ITA')).toBe(true);
+      expect(hasHolidayCalendar('UK')).toBe(true);
+      expect(hasHolidayCalendar('TR')).toBe(false);
+      expect(getPublicHolidays('TR', 2026)).toEqual([]);
+    });
+  });
+
+  describe('findPublicHoliday', () => {
+    it('finds fixed-date holidays', () => {
+      expect(findPublicHoliday('IT', '2026-06-02')?.name).toBe('Republic Day');
+      expect(findPublicHoliday('POL', '2026-11-11')?.name).toBe('Independence Day');
+      expect(findPublicHoliday('DE', '2026-10-03')?.name).toBe('German Unity Day');
+    });
+
+    it('finds Easter-based holidays', () => {
+      // Corpus Christi 2026 = Easter (5 Apr) + 60 days
+      expect(findPublicHoliday('PL', '2026-06-04')?.name).toBe('Corpus Christi');
+      expect(findPublicHoliday('DE', '2026-04-03')?.name).toBe('Good Friday');
+      // Orthodox Good Friday 2026
+      expect(findPublicHoliday('GR', '2026-04-10')?.name).toBe('Orthodox Good Friday');
+    });
+
+    it('finds weekday-based holidays', () => {
+      expect(findPublicHoliday('GB', '2026-05-25')?.name).toBe('Spring Bank Holiday');
+      expect(findPublicHoliday('SE', '2026-06-19')?.name).toBe('Midsummer Eve');
+      expect(findPublicHoliday('IE', '2026-02-02')?.name).toBe("St Brigid's Day");
+    });
+
+    it('respects validity years', () => {
+      expect(findPublicHoliday('PL', '2024-12-24')).toBeNull();
+      expect(findPublicHoliday('PL', '2025-12-24')?.name).toBe('Christmas Eve');
+    });
+
+    it('returns null on regular working days and unknown countries', () => {
+      expect(findPublicHoliday('DE', '2026-10-14')).toBeNull();
+      expect(findPublicHoliday(null, '2026-12-25')).toBeNull();
+    });
+  });
+});
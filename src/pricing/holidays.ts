@@ -0,0 +1,515 @@
+/**
+ * Offline public holiday calendars per country
+ * Rule-based (fixed dates, Easter offsets, nth weekday) so no external
+ * service or yearly data refresh is needed.
+ *
+ * Calendars cover nationwide public holidays only. Regional holidays
+ * (German Länder, Swiss cantons, Spanish communities, Scotland/Northern
+ * Ireland bank holidays) and substitute days are not included. A few de facto
+ * non-working days relevant for deliveries (e.g. Swedish Midsummer Eve) are.
+ */
+
+import { toAlpha2 } from '../geo/countries.js';
+
+/**
+ * Holiday rule definitions
+ * - fixed: same calendar date every year
+ * - easter / orthodoxEaster: offset in days from (Western / Orthodox) Easter Sunday
+ * - nthWeekday: nth weekday of a month (n = -1 means last)
+ * - weekdayOnOrAfter: first given weekday on or after a date (e.g. Midsummer)
+ * - custom: computed date, for rules that don't fit the above
+ */
+export type HolidayRule = { name: string; fromYear?: number; toYear?: number } & (
+  | { type: 'fixed'; month: number; day: number }
+  | { type: 'easter'; offset: number }
+  | { type: 'orthodoxEaster'; offset: number }
+  | { type: 'nthWeekday'; month: number; weekday: number; n: number }
+  | { type: 'weekdayOnOrAfter'; month: number; day: number; weekday: number }
+  | { type: 'custom'; date: (year: number) => { month: number; day: number } }
+);
+
+/**
+ * Public holiday on a specific date
+ */
+export interface PublicHoliday {
+  /** Calendar date (YYYY-MM-DD) */
+  date: string;
+  name: string;
+  /** ISO 3166-1 alpha-2 */
+  countryCode: string;
+}
+
+// Weekday numbers (Date#getUTCDay)
+const MON = 1;
+const FRI = 5;
+const SAT = 6;
+
+// Shared rules
+const NEW_YEAR: HolidayRule = { type: 'fixed', month: 1, day: 1, name: "New Year's Day" };
+const EPIPHANY: HolidayRule = { type: 'fixed', month: 1, day: 6, name: 'Epiphany' };
+const GOOD_FRIDAY: HolidayRule = { type: 'easter', offset: -2, name: 'Good Friday' };
+const EASTER_SUNDAY: HolidayRule = { type: 'easter', offset: 0, name: 'Easter Sunday' };
+const EASTER_MONDAY: HolidayRule = { type: 'easter', offset: 1, name: 'Easter Monday' };
+const LABOUR_DAY: HolidayRule = { type: 'fixed', month: 5, day: 1, name: 'Labour Day' };
+const ASCENSION: HolidayRule = { type: 'easter', offset: 39, name: 'Ascension Day' };
+const WHIT_SUNDAY: HolidayRule = { type: 'easter', offset: 49, name: 'Whit Sunday' };
+const WHIT_MONDAY: HolidayRule = { type: 'easter', offset: 50, name: 'Whit Monday' };
+const CORPUS_CHRISTI: HolidayRule = { type: 'easter', offset: 60, name: 'Corpus Christi' };
+const ASSUMPTION: HolidayRule = { type: 'fixed', month: 8, day: 15, name: 'Assumption Day' };
+const ALL_SAINTS: HolidayRule = { type: 'fixed', month: 11, day: 1, name: "All Saints' Day" };
+const IMMACULATE_CONCEPTION: HolidayRule = { type: 'fixed', month: 12, day: 8, name: 'Immaculate Conception' };
+const CHRISTMAS_EVE: HolidayRule = { type: 'fixed', month: 12, day: 24, name: 'Christmas Eve' };
+const CHRISTMAS: HolidayRule = { type: 'fixed', month: 12, day: 25, name: 'Christmas Day' };
+const ST_STEPHEN: HolidayRule = { type: 'fixed', month: 12, day: 26, name: "St Stephen's Day" };
+const ORTHODOX_GOOD_FRIDAY: HolidayRule = { type: 'orthodoxEaster', offset: -2, name: 'Orthodox Good Friday' };
+const ORTHODOX_EASTER: HolidayRule = { type: 'orthodoxEaster', offset: 0, name: 'Orthodox Easter Sunday' };
+const ORTHODOX_EASTER_MONDAY: HolidayRule = { type: 'orthodoxEaster', offset: 1, name: 'Orthodox Easter Monday' };
+
+/**
+ * Holiday calendars keyed by ISO 3166-1 alpha-2
+ * Covers every EU member state plus GB, CH and NO.
+ */
+export const HOLIDAY_CALENDARS: Record<string, HolidayRule[]> = {
+  AT: [
+    NEW_YEAR, EPIPHANY, EASTER_MONDAY,
+    { type: 'fixed', month: 5, day: 1, name: 'State Holiday' },
+    ASCENSION, WHIT_MONDAY, CORPUS_CHRISTI, ASSUMPTION,
+    { type: 'fixed', month: 10, day: 26, name: 'National Day' },
+    ALL_SAINTS, IMMACULATE_CONCEPTION, CHRISTMAS, ST_STEPHEN,
+  ],
+  BE: [
+    NEW_YEAR, EASTER_MONDAY, LABOUR_DAY, ASCENSION, WHIT_MONDAY,
+    { type: 'fixed', month: 7, day: 21, name: 'Belgian National Day' },
+    ASSUMPTION, ALL_SAINTS,
+    { type: 'fixed', month: 11, day: 11, name: 'Armistice Day' },
+    CHRISTMAS,
+  ],
+  BG: [
+    NEW_YEAR,
+    { type: 'fixed', month: 3, day: 3, name: 'Liberation Day' },
+    ORTHODOX_GOOD_FRIDAY,
+    { type: 'orthodoxEaster', offset: -1, name: 'Orthodox Holy Saturday' },
+    ORTHODOX_EASTER, ORTHODOX_EASTER_MONDAY, LABOUR_DAY,
+    { type: 'fixed', month: 5, day: 6, name: "St George's Day" },
+    { type: 'fixed', month: 5, day: 24, name: 'Bulgarian Education and Culture Day' },
+    { type: 'fixed', month: 9, day: 6, name: 'Unification Day' },
+    { type: 'fixed', month: 9, day: 22, name: 'Independence Day' },
+    CHRISTMAS_EVE, CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Second Day of Christmas' },
+  ],
+  HR: [
+    NEW_YEAR, EPIPHANY, EASTER_SUNDAY, EASTER_MONDAY, LABOUR_DAY,
+    { type: 'fixed', month: 5, day: 30, name: 'Statehood Day' },
+    CORPUS_CHRISTI,
+    { type: 'fixed', month: 6, day: 22, name: 'Anti-Fascist Struggle Day' },
+    { type: 'fixed', month: 8, day: 5, name: 'Victory and Homeland Thanksgiving Day' },
+    ASSUMPTION, ALL_SAINTS,
+    { type: 'fixed', month: 11, day: 18, name: 'Remembrance Day' },
+    CHRISTMAS, ST_STEPHEN,
+  ],
+  CY: [
+    NEW_YEAR, EPIPHANY,
+    { type: 'orthodoxEaster', offset: -48, name: 'Green Monday' },
+    { type: 'fixed', month: 3, day: 25, name: 'Greek Independence Day' },
+    { type: 'fixed', month: 4, day: 1, name: 'Cyprus National Day' },
+    ORTHODOX_GOOD_FRIDAY, ORTHODOX_EASTER, ORTHODOX_EASTER_MONDAY, LABOUR_DAY,
+    { type: 'orthodoxEaster', offset: 50, name: 'Kataklysmos (Orthodox Whit Monday)' },
+    ASSUMPTION,
+    { type: 'fixed', month: 10, day: 1, name: 'Cyprus Independence Day' },
+    { type: 'fixed', month: 10, day: 28, name: 'Ochi Day' },
+    CHRISTMAS_EVE, CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Boxing Day' },
+  ],
+  CZ: [
+    { type: 'fixed', month: 1, day: 1, name: 'Restoration Day of the Independent Czech State' },
+    GOOD_FRIDAY, EASTER_MONDAY, LABOUR_DAY,
+    { type: 'fixed', month: 5, day: 8, name: 'Liberation Day' },
+    { type: 'fixed', month: 7, day: 5, name: 'Saints Cyril and Methodius Day' },
+    { type: 'fixed', month: 7, day: 6, name: 'Jan Hus Day' },
+    { type: 'fixed', month: 9, day: 28, name: 'St Wenceslas Day' },
+    { type: 'fixed', month: 10, day: 28, name: 'Independent Czechoslovak State Day' },
+    { type: 'fixed', month: 11, day: 17, name: 'Struggle for Freedom and Democracy Day' },
+    CHRISTMAS_EVE, CHRISTMAS, ST_STEPHEN,
+  ],
+  DK: [
+    NEW_YEAR,
+    { type: 'easter', offset: -3, name: 'Maundy Thursday' },
+    GOOD_FRIDAY, EASTER_SUNDAY, EASTER_MONDAY,
+    { type: 'easter', offset: 26, name: 'Great Prayer Day', toYear: 2023 },
+    ASCENSION, WHIT_SUNDAY, WHIT_MONDAY,
+    { type: 'fixed', month: 6, day: 5, name: 'Constitution Day' },
+    CHRISTMAS_EVE, CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Second Day of Christmas' },
+  ],
+  EE: [
+    NEW_YEAR,
+    { type: 'fixed', month: 2, day: 24, name: 'Independence Day' },
+    GOOD_FRIDAY, EASTER_SUNDAY,
+    { type: 'fixed', month: 5, day: 1, name: 'Spring Day' },
+    WHIT_SUNDAY,
+    { type: 'fixed', month: 6, day: 23, name: 'Victory Day' },
+    { type: 'fixed', month: 6, day: 24, name: 'Midsummer Day' },
+    { type: 'fixed', month: 8, day: 20, name: 'Restoration of Independence Day' },
+    CHRISTMAS_EVE, CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Boxing Day' },
+  ],
+  FI: [
+    NEW_YEAR, EPIPHANY, GOOD_FRIDAY, EASTER_SUNDAY, EASTER_MONDAY,
+    { type: 'fixed', month: 5, day: 1, name: 'May Day' },
+    ASCENSION, WHIT_SUNDAY,
+    { type: 'weekdayOnOrAfter', month: 6, day: 19, weekday: FRI, name: 'Midsummer Eve' },
+    { type: 'weekdayOnOrAfter', month: 6, day: 20, weekday: SAT, name: 'Midsummer Day' },
+    { type: 'weekdayOnOrAfter', month: 10, day: 31, weekday: SAT, name: "All Saints' Day" },
+    { type: 'fixed', month: 12, day: 6, name: 'Independence Day' },
+    CHRISTMAS_EVE, CHRISTMAS, ST_STEPHEN,
+  ],
+  FR: [
+    NEW_YEAR, EASTER_MONDAY, LABOUR_DAY,
+    { type: 'fixed', month: 5, day: 8, name: 'Victory in Europe Day' },
+    ASCENSION, WHIT_MONDAY,
+    { type: 'fixed', month: 7, day: 14, name: 'Bastille Day' },
+    ASSUMPTION, ALL_SAINTS,
+    { type: 'fixed', month: 11, day: 11, name: 'Armistice Day' },
+    CHRISTMAS,
+  ],
+  DE: [
+    NEW_YEAR, GOOD_FRIDAY, EASTER_MONDAY, LABOUR_DAY, ASCENSION, WHIT_MONDAY,
+    { type: 'fixed', month: 10, day: 3, name: 'German Unity Day' },
+    CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Second Day of Christmas' },
+  ],
+  GR: [
+    NEW_YEAR, EPIPHANY,
+    { type: 'orthodoxEaster', offset: -48, name: 'Clean Monday' },
+    { type: 'fixed', month: 3, day: 25, name: 'Independence Day' },
+    ORTHODOX_GOOD_FRIDAY, ORTHODOX_EASTER, ORTHODOX_EASTER_MONDAY, LABOUR_DAY,
+    { type: 'orthodoxEaster', offset: 50, name: 'Orthodox Whit Monday' },
+    ASSUMPTION,
+    { type: 'fixed', month: 10, day: 28, name: 'Ochi Day' },
+    CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Synaxis of the Mother of God' },
+  ],
+  HU: [
+    NEW_YEAR,
+    { type: 'fixed', month: 3, day: 15, name: '1848 Revolution Memorial Day' },
+    GOOD_FRIDAY, EASTER_MONDAY, LABOUR_DAY, WHIT_MONDAY,
+    { type: 'fixed', month: 8, day: 20, name: "St Stephen's Day (State Foundation)" },
+    { type: 'fixed', month: 10, day: 23, name: '1956 Revolution Memorial Day' },
+    ALL_SAINTS, CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Second Day of Christmas' },
+  ],
+  IE: [
+    NEW_YEAR,
+    {
+      // 1 February when it is a Friday, otherwise the first Monday of February
+      type: 'custom',
+      name: "St Brigid's Day",
+      fromYear: 2023,
+      date: (year) => {
+        const feb1 = new Date(Date.UTC(year, 1, 1)).getUTCDay();
+        return { month: 2, day: feb1 === FRI ? 1 : 1 + ((MON - feb1 + 7) % 7) };
+      },
+    },
+    { type: 'fixed', month: 3, day: 17, name: "St Patrick's Day" },
+    EASTER_MONDAY,
+    { type: 'nthWeekday', month: 5, weekday: MON, n: 1, name: 'May Bank Holiday' },
+    { type: 'nthWeekday', month: 6, weekday: MON, n: 1, name: 'June Bank Holiday' },
+    { type: 'nthWeekday', month: 8, weekday: MON, n: 1, name: 'August Bank Holiday' },
+    { type: 'nthWeekday', month: 10, weekday: MON, n: -1, name: 'October Bank Holiday' },
+    CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: "St Stephen's Day" },
+  ],
+  IT: [
+    NEW_YEAR, EPIPHANY, EASTER_SUNDAY, EASTER_MONDAY,
+    { type: 'fixed', month: 4, day: 25, name: 'Liberation Day' },
+    LABOUR_DAY,
+    { type: 'fixed', month: 6, day: 2, name: 'Republic Day' },
+    { type: 'fixed', month: 8, day: 15, name: 'Ferragosto (Assumption Day)' },
+    { type: 'fixed', month: 10, day: 4, name: 'St Francis of Assisi Day', fromYear: 2026 },
+    ALL_SAINTS, IMMACULATE_CONCEPTION, CHRISTMAS, ST_STEPHEN,
+  ],
+  LV: [
+    NEW_YEAR, GOOD_FRIDAY, EASTER_SUNDAY, EASTER_MONDAY, LABOUR_DAY,
+    { type: 'fixed', month: 5, day: 4, name: 'Restoration of Independence Day' },
+    { type: 'fixed', month: 6, day: 23, name: 'Līgo Day' },
+    { type: 'fixed', month: 6, day: 24, name: 'Jāņi (Midsummer Day)' },
+    { type: 'fixed', month: 11, day: 18, name: 'Proclamation Day' },
+    CHRISTMAS_EVE, CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Second Day of Christmas' },
+    { type: 'fixed', month: 12, day: 31, name: "New Year's Eve" },
+  ],
+  LT: [
+    NEW_YEAR,
+    { type: 'fixed', month: 2, day: 16, name: 'Restoration of the State Day' },
+    { type: 'fixed', month: 3, day: 11, name: 'Restoration of Independence Day' },
+    EASTER_SUNDAY, EASTER_MONDAY, LABOUR_DAY,
+    { type: 'fixed', month: 6, day: 24, name: "St John's Day" },
+    { type: 'fixed', month: 7, day: 6, name: 'Statehood Day' },
+    ASSUMPTION, ALL_SAINTS,
+    { type: 'fixed', month: 11, day: 2, name: "All Souls' Day" },
+    CHRISTMAS_EVE, CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Second Day of Christmas' },
+  ],
+  LU: [
+    NEW_YEAR, EASTER_MONDAY, LABOUR_DAY,
+    { type: 'fixed', month: 5, day: 9, name: 'Europe Day' },
+    ASCENSION, WHIT_MONDAY,
+    { type: 'fixed', month: 6, day: 23, name: 'National Day' },
+    ASSUMPTION, ALL_SAINTS, CHRISTMAS, ST_STEPHEN,
+  ],
+  MT: [
+    NEW_YEAR,
+    { type: 'fixed', month: 2, day: 10, name: "St Paul's Shipwreck" },
+    { type: 'fixed', month: 3, day: 19, name: "St Joseph's Day" },
+    { type: 'fixed', month: 3, day: 31, name: 'Freedom Day' },
+    GOOD_FRIDAY, LABOUR_DAY,
+    { type: 'fixed', month: 6, day: 7, name: 'Sette Giugno' },
+    { type: 'fixed', month: 6, day: 29, name: 'Feast of St Peter and St Paul' },
+    ASSUMPTION,
+    { type: 'fixed', month: 9, day: 8, name: 'Victory Day' },
+    { type: 'fixed', month: 9, day: 21, name: 'Independence Day' },
+    IMMACULATE_CONCEPTION,
+    { type: 'fixed', month: 12, day: 13, name: 'Republic Day' },
+    CHRISTMAS,
+  ],
+  NL: [
+    NEW_YEAR, GOOD_FRIDAY, EASTER_SUNDAY, EASTER_MONDAY,
+    {
+      // 27 April, moved to the 26th when it falls on a Sunday
+      type: 'custom',
+      name: "King's Day",
+      date: (year) => {
+        const apr27 = new Date(Date.UTC(year, 3, 27)).getUTCDay();
+        return { month: 4, day: apr27 === 0 ? 26 : 27 };
+      },
+    },
+    { type: 'fixed', month: 5, day: 5, name: 'Liberation Day' },
+    ASCENSION, WHIT_SUNDAY, WHIT_MONDAY, CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Second Day of Christmas' },
+  ],
+  PL: [
+    NEW_YEAR, EPIPHANY, EASTER_SUNDAY, EASTER_MONDAY, LABOUR_DAY,
+    { type: 'fixed', month: 5, day: 3, name: 'Constitution Day' },
+    WHIT_SUNDAY, CORPUS_CHRISTI, ASSUMPTION, ALL_SAINTS,
+    { type: 'fixed', month: 11, day: 11, name: 'Independence Day' },
+    { ...CHRISTMAS_EVE, fromYear: 2025 },
+    CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Second Day of Christmas' },
+  ],
+  PT: [
+    NEW_YEAR, GOOD_FRIDAY, EASTER_SUNDAY,
+    { type: 'fixed', month: 4, day: 25, name: 'Freedom Day' },
+    LABOUR_DAY, CORPUS_CHRISTI,
+    { type: 'fixed', month: 6, day: 10, name: 'Portugal Day' },
+    ASSUMPTION,
+    { type: 'fixed', month: 10, day: 5, name: 'Republic Day' },
+    ALL_SAINTS,
+    { type: 'fixed', month: 12, day: 1, name: 'Restoration of Independence' },
+    IMMACULATE_CONCEPTION, CHRISTMAS,
+  ],
+  RO: [
+    NEW_YEAR,
+    { type: 'fixed', month: 1, day: 2, name: 'Day after New Year' },
+    { type: 'fixed', month: 1, day: 6, name: 'Epiphany', fromYear: 2024 },
+    { type: 'fixed', month: 1, day: 7, name: 'Synaxis of St John the Baptist', fromYear: 2024 },
+    { type: 'fixed', month: 1, day: 24, name: 'Union Day' },
+    ORTHODOX_GOOD_FRIDAY, ORTHODOX_EASTER, ORTHODOX_EASTER_MONDAY, LABOUR_DAY,
+    { type: 'fixed', month: 6, day: 1, name: "Children's Day" },
+    { type: 'orthodoxEaster', offset: 49, name: 'Orthodox Pentecost' },
+    { type: 'orthodoxEaster', offset: 50, name: 'Orthodox Whit Monday' },
+    ASSUMPTION,
+    { type: 'fixed', month: 11, day: 30, name: "St Andrew's Day" },
+    { type: 'fixed', month: 12, day: 1, name: 'Great Union Day' },
+    CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Second Day of Christmas' },
+  ],
+  SK: [
+    { type: 'fixed', month: 1, day: 1, name: 'Day of the Establishment of the Slovak Republic' },
+    EPIPHANY, GOOD_FRIDAY, EASTER_MONDAY, LABOUR_DAY,
+    { type: 'fixed', month: 5, day: 8, name: 'Day of Victory over Fascism' },
+    { type: 'fixed', month: 7, day: 5, name: 'Saints Cyril and Methodius Day' },
+    { type: 'fixed', month: 8, day: 29, name: 'Slovak National Uprising Anniversary' },
+    { type: 'fixed', month: 9, day: 1, name: 'Constitution Day', toYear: 2023 },
+    { type: 'fixed', month: 9, day: 15, name: 'Our Lady of Sorrows' },
+    ALL_SAINTS,
+    { type: 'fixed', month: 11, day: 17, name: 'Struggle for Freedom and Democracy Day' },
+    CHRISTMAS_EVE, CHRISTMAS, ST_STEPHEN,
+  ],
+  SI: [
+    NEW_YEAR,
+    { type: 'fixed', month: 1, day: 2, name: 'New Year Holiday' },
+    { type: 'fixed', month: 2, day: 8, name: 'Prešeren Day' },
+    EASTER_SUNDAY, EASTER_MONDAY,
+    { type: 'fixed', month: 4, day: 27, name: 'Day of Uprising Against Occupation' },
+    LABOUR_DAY,
+    { type: 'fixed', month: 5, day: 2, name: 'Labour Day Holiday' },
+    WHIT_SUNDAY,
+    { type: 'fixed', month: 6, day: 25, name: 'Statehood Day' },
+    ASSUMPTION,
+    { type: 'fixed', month: 10, day: 31, name: 'Reformation Day' },
+    { type: 'fixed', month: 11, day: 1, name: 'Remembrance Day' },
+    CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Independence and Unity Day' },
+  ],
+  ES: [
+    NEW_YEAR, EPIPHANY, GOOD_FRIDAY, LABOUR_DAY, ASSUMPTION,
+    { type: 'fixed', month: 10, day: 12, name: 'Fiesta Nacional de España' },
+    ALL_SAINTS,
+    { type: 'fixed', month: 12, day: 6, name: 'Constitution Day' },
+    IMMACULATE_CONCEPTION, CHRISTMAS,
+  ],
+  SE: [
+    NEW_YEAR, EPIPHANY, GOOD_FRIDAY, EASTER_SUNDAY, EASTER_MONDAY,
+    { type: 'fixed', month: 5, day: 1, name: 'May Day' },
+    ASCENSION, WHIT_SUNDAY,
+    { type: 'fixed', month: 6, day: 6, name: 'National Day of Sweden' },
+    { type: 'weekdayOnOrAfter', month: 6, day: 19, weekday: FRI, name: 'Midsummer Eve' },
+    { type: 'weekdayOnOrAfter', month: 6, day: 20, weekday: SAT, name: 'Midsummer Day' },
+    { type: 'weekdayOnOrAfter', month: 10, day: 31, weekday: SAT, name: "All Saints' Day" },
+    CHRISTMAS_EVE, CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Second Day of Christmas' },
+    { type: 'fixed', month: 12, day: 31, name: "New Year's Eve" },
+  ],
+  // England and Wales bank holidays (substitute days not included)
+  GB: [
+    NEW_YEAR, GOOD_FRIDAY, EASTER_MONDAY,
+    { type: 'nthWeekday', month: 5, weekday: MON, n: 1, name: 'Early May Bank Holiday' },
+    { type: 'nthWeekday', month: 5, weekday: MON, n: -1, name: 'Spring Bank Holiday' },
+    { type: 'nthWeekday', month: 8, weekday: MON, n: -1, name: 'Summer Bank Holiday' },
+    CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Boxing Day' },
+  ],
+  // Federal holiday (1 August) plus holidays observed in nearly all cantons
+  CH: [
+    NEW_YEAR, GOOD_FRIDAY, EASTER_MONDAY, ASCENSION, WHIT_MONDAY,
+    { type: 'fixed', month: 8, day: 1, name: 'Swiss National Day' },
+    CHRISTMAS, ST_STEPHEN,
+  ],
+  NO: [
+    NEW_YEAR,
+    { type: 'easter', offset: -3, name: 'Maundy Thursday' },
+    GOOD_FRIDAY, EASTER_SUNDAY, EASTER_MONDAY, LABOUR_DAY,
+    { type: 'fixed', month: 5, day: 17, name: 'Constitution Day' },
+    ASCENSION, WHIT_SUNDAY, WHIT_MONDAY, CHRISTMAS,
+    { type: 'fixed', month: 12, day: 26, name: 'Second Day of Christmas' },
+  ],
+};
+
+/**
+ * Western (Gregorian) Easter Sunday - anonymous Gregorian algorithm
+ */
+export function westernEaster(year: number): { month: number; day: number } {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return { month, day };
+}
+
+/**
+ * Orthodox Easter Sunday as a Gregorian date (Meeus Julian algorithm)
+ * The +13 day Julian/Gregorian offset is valid for 1900-2099.
+ */
+export function orthodoxEaster(year: number): { month: number; day: number } {
+  const a = year % 4;
+  const b = year % 7;
+  const c = year % 19;
+  const d = (19 * c + 15) % 30;
+  const e = (2 * a + 4 * b - d + 34) % 7;
+  const julianMonth = Math.floor((d + e + 114) / 31);
+  const julianDay = ((d + e + 114) % 31) + 1;
+  const gregorian = new Date(Date.UTC(year, julianMonth - 1, julianDay + 13));
+  return { month: gregorian.getUTCMonth() + 1, day: gregorian.getUTCDate() };
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(base: { month: number; day: number }, year: number, offset: number): Date {
+  return new Date(Date.UTC(year, base.month - 1, base.day + offset));
+}
+
+/**
+ * Resolve a rule to its date in a given year (null if not in force that year)
+ */
+function resolveRule(rule: HolidayRule, year: number): Date | null {
+  if (rule.fromYear !== undefined && year < rule.fromYear) return null;
+  if (rule.toYear !== undefined && year > rule.toYear) return null;
+
+  switch (rule.type) {
+    case 'fixed':
+      return new Date(Date.UTC(year, rule.month - 1, rule.day));
+    case 'easter':
+      return addDays(westernEaster(year), year, rule.offset);
+    case 'orthodoxEaster':
+      return addDays(orthodoxEaster(year), year, rule.offset);
+    case 'nthWeekday': {
+      if (rule.n > 0) {
+        const first = new Date(Date.UTC(year, rule.month - 1, 1)).getUTCDay();
+        const day = 1 + ((rule.weekday - first + 7) % 7) + (rule.n - 1) * 7;
+        return new Date(Date.UTC(year, rule.month - 1, day));
+      }
+      // Last weekday of month: day 0 of the next month is the last day
+      const last = new Date(Date.UTC(year, rule.month, 0));
+      const back = (last.getUTCDay() - rule.weekday + 7) % 7;
+      return new Date(Date.UTC(year, rule.month - 1, last.getUTCDate() - back));
+    }
+    case 'weekdayOnOrAfter': {
+      const start = new Date(Date.UTC(year, rule.month - 1, rule.day)).getUTCDay();
+      return new Date(Date.UTC(year, rule.month - 1, rule.day + ((rule.weekday - start + 7) % 7)));
+    }
+    case 'custom': {
+      const { month, day } = rule.date(year);
+      return new Date(Date.UTC(year, month - 1, day));
+    }
+  }
+}
+
+/**
+ * Check whether a holiday calendar exists for a country
+ */
+export function hasHolidayCalendar(countryCode: string | null): boolean {
+  const alpha2 = toAlpha2(countryCode);
+  return alpha2 !== null && HOLIDAY_CALENDARS[alpha2] !== undefined;
+}
+
+/**
+ * List public holidays of a country in a year, sorted by date
+ * Returns an empty list for countries without a calendar.
+ */
+export function getPublicHolidays(countryCode: string | null, year: number): PublicHoliday[] {
+  const alpha2 = toAlpha2(countryCode);
+  const rules = alpha2 ? HOLIDAY_CALENDARS[alpha2] : undefined;
+  if (!alpha2 || !rules) return [];
+
+  const holidays: PublicHoliday[] = [];
+  for (const rule of rules) {
+    const date = resolveRule(rule, year);
+    if (date) {
+      holidays.push({ date: toIsoDate(date), name: rule.name, countryCode: alpha2 });
+    }
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Find the public holiday on a date (YYYY-MM-DD) in a country, if any
+ */
+export function findPublicHoliday(countryCode: string | null, date: string): PublicHoliday | null {
+  const year = Number(date.slice(0, 4));
+  if (!Number.isInteger(year)) return null;
+
+  return getPublicHolidays(countryCode, year).find((h) => h.date === date) ?? null;
+}
@@ -5,3 +5,14 @@
 export * from './types.js';
 export * from './market-models.js';
 export * from './engine.js';
+export * from './errors.js';
+export * from './fuel-index.js';
+export * from './exchange-rates.js';
+export * from './model-config.js';
+export * from './rate-cards.js';
+export * from './country-groups.js';
+export * from './cost-models.js';
+export * from './cost.js';
+export * from './partial-load.js';
+export * from './rounding.js';
+export * from './transit-planner.js';
@@ -26,7 +26,23 @@ export const SOLO_MODELS: MarketModel[] = [
         amount: 400,
         description: 'UK ferry surcharge',
       },
+      {
+        type: 'scandinavia',
+        amount: 150,
+        description: 'Scandinavia surcharge',
+      },
+      {
+        type: 'baltic',
+        amount: 120,
+        description: 'Baltic states surcharge',
+      },
+      {
+        type: 'island',
+        amount: 250,
+        description: 'Island delivery surcharge',
+      },
     ],
+    ferryPolicy: {},
   },
   // IT -> UK must come before IT -> EU (more specific first)
   {
@@ -52,6 +68,7 @@ export const SOLO_MODELS: MarketModel[] = [
         description: 'Fréjus/Mont Blanc tunnel surcharge',
       },
     ],
+    ferryPolicy: {},
   },
   {
     id: 'solo-it-eu',
@@ -76,7 +93,23 @@ export const SOLO_MODELS: MarketModel[] = [
         amount: 200,
         description: 'Fréjus/Mont Blanc tunnel surcharge',
       },
+      {
+        type: 'scandinavia',
+        amount: 150,
+        description: 'Scandinavia surcharge',
+      },
+      {
+        type: 'baltic',
+        amount: 120,
+        description: 'Baltic states surcharge',
+      },
+      {
+        type: 'island',
+        amount: 250,
+        description: 'Island delivery surcharge',
+      },
     ],
+    ferryPolicy: {},
   },
 ];
 
@@ -101,7 +134,23 @@ export const VAN_MODELS: MarketModel[] = [
         amount: 250,
         description: 'UK ferry surcharge',
       },
+      {
+        type: 'scandinavia',
+        amount: 100,
+        description: 'Scandinavia surcharge',
+      },
+      {
+        type: 'baltic',
+        amount: 80,
+        description: 'Baltic states surcharge',
+      },
+      {
+        type: 'island',
+        amount: 150,
+        description: 'Island delivery surcharge',
+      },
     ],
+    ferryPolicy: {},
   },
 ];
 
@@ -131,7 +180,23 @@ export const FTL_MODELS: MarketModel[] = [
         amount: 300,
         description: 'Fréjus/Mont Blanc tunnel surcharge',
       },
+      {
+        type: 'scandinavia',
+        amount: 200,
+        description: 'Scandinavia surcharge',
+      },
+      {
+        type: 'baltic',
+        amount: 150,
+        description: 'Baltic states surcharge',
+      },
+      {
+        type: 'island',
+        amount: 300,
+        description: 'Island delivery surcharge',
+      },
     ],
+    ferryPolicy: {},
   },
   {
     id: 'ftl-it-eu',
@@ -156,12 +221,28 @@ export const FTL_MODELS: MarketModel[] = [
         amount: 300,
         description: 'Fréjus/Mont Blanc tunnel surcharge',
       },
+      {
+        type: 'scandinavia',
+        amount: 200,
+        description: 'Scandinavia surcharge',
+      },
+      {
+        type: 'baltic',
+        amount: 150,
+        description: 'Baltic states surcharge',
+      },
+      {
+        type: 'island',
+        amount: 300,
+        description: 'Island delivery surcharge',
+      },
     ],
+    ferryPolicy: {},
   },
 ];
 
 /**
- * All market models
+ * Built-in market models (used until a market models file is loaded)
  */
 export const ALL_MARKET_MODELS: MarketModel[] = [
   ...SOLO_MODELS,
@@ -169,9 +250,35 @@ export const ALL_MARKET_MODELS: MarketModel[] = [
   ...FTL_MODELS,
 ];
 
+/**
+ * Market models currently used for pricing
+ */
+let activeModels: MarketModel[] = ALL_MARKET_MODELS;
+
+/**
+ * Get all market models currently used for pricing
+ */
+export function getMarketModels(): readonly MarketModel[] {
+  return activeModels;
+}
+
+/**
+ * Replace the market models used for pricing (e.g. from a config file)
+ */
+export function setMarketModels(models: MarketModel[]): void {
+  activeModels = models;
+}
+
+/**
+ * Restore the built-in market models
+ */
+export function resetMarketModels(): void {
+  activeModels = ALL_MARKET_MODELS;
+}
+
 /**
  * Get market models for a specific vehicle
  */
 export function getModelsForVehicle(vehicleProfileId: string): MarketModel[] {
-  return ALL_MARKET_MODELS.filter((m) => m.vehicleProfileId === vehicleProfileId);
+  return activeModels.filter((m) => m.vehicleProfileId === vehicleProfileId);
 }
@@ -0,0 +1,362 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  parseMarketModelsConfig,
+  parseRateCardsConfig,
+  parseCountryGroupsConfig,
+  loadMarketModelsFile,
+  loadRateCardsFile,
+  loadCountryGroupsFile,
+  watchMarketModelsFile,
+  MarketModelConfigError,
+} from './model-config.js';
+import {
+  ALL_MARKET_MODELS,
+  getMarketModels,
+  getModelsForVehicle,
+  resetMarketModels,
+} from './market-models.js';
+import { getRateCard, setRateCards } from './rate-cards.js';
+import { getDefaultRoundingPolicy, resetDefaultRoundingPolicy } from './rounding.js';
+import { DEFAULT_COUNTRY_GROUPS, isCountryGroup, resetCountryGroups } from './country-groups.js';
+import type { MarketModel } from './types.js';
+
+const CONFIG_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../config');
+const EXAMPLE_FILE = path.join(CONFIG_DIR, 'market-models.example.json');
+const RATE_CARDS_EXAMPLE_FILE = path.join(CONFIG_DIR, 'rate-cards.example.json');
+const COUNTRY_GROUPS_EXAMPLE_FILE = path.join(CONFIG_DIR, 'country-groups.example.json');
+
+const VAN_MODEL: MarketModel = {
+  id: 'van-any',
+  name: 'VAN ANY',
+  vehicleProfileId: 'van_8ep',
+  lane: { origin: 'ANY', destination: 'ANY' },
+  perKmRate: 0.7,
+  defaultMin: 300,
+};
+
+function configJson(models: unknown[]): string {
+  return JSON.stringify({ models });
+}
+
+function captureError(fn: () => unknown): MarketModelConfigError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof MarketModelConfigError) return error;
+    throw error;
+  }
+  throw new Error('Expected MarketModelConfigError');
+}
+
+describe('market model config', () => {
+  afterEach(() => {
+    resetMarketModels();
+    setRateCards([]);
+    resetCountryGroups();
+    resetDefaultRoundingPolicy();
+  });
+
+  describe('parseMarketModelsConfig', () => {
+    it('accepts the example file mirroring the built-in models', async () => {
+      const content = await readFile(EXAMPLE_FILE, 'utf8');
+
+      expect(parseMarketModelsConfig(content, EXAMPLE_FILE)).toEqual(ALL_MARKET_MODELS);
+    });
+
+    it('reports every invalid field with its path', () => {
+      const error = captureError(() =>
+        parseMarketModelsConfig(
+          configJson([
+            { ...VAN_MODEL, perKmRate: -1 },
+            { ...VAN_MODEL, id: 'van-2', lane: { origin: 'XX', destination: 'ANY' } },
+            { ...VAN_MODEL, id: 'van-3', surcharges: [{ type: 'ferry', amount: 10, description: 'x' }] },
+          ]),
+          'models.json'
+        )
+      );
+
+      expect(error.message).toContain('Invalid market models file models.json');
+      expect(error.issues.map((issue) => issue.split(':')[0])).toEqual([
+        'models.0.perKmRate',
+        'models.1.lane.origin',
+        'models.2.surcharges.0.type',
+      ]);
+    });
+
+    it('rejects unknown keys, e.g. typos', () => {
+      const error = captureError(() =>
+        parseMarketModelsConfig(configJson([{ ...VAN_MODEL, perKmRte: 1 }]), 'models.json')
+      );
+
+      expect(error.issues[0]).toContain('perKmRte');
+    });
+
+    it('rejects duplicate ids and non-contiguous distance bands', () => {
+      const error = captureError(() =>
+        parseMarketModelsConfig(
+          configJson([
+            VAN_MODEL,
+            {
+              ...VAN_MODEL,
+              distanceBands: {
+                mode: 'marginal',
+                bands: [{ upToKm: 500, perKmRate: 1 }, { upToKm: 300, perKmRate: 0.9 }, { perKmRate: 0.8 }],
+              },
+            },
+          ]),
+          'models.json'
+        )
+      );
+
+      expect(error.issues).toEqual([
+        'models.1.distanceBands.bands.1.upToKm: Band bounds must be ascending',
+        'models.1.version: Duplicate model id "van-any" version 1',
+      ]);
+    });
+
+    it('accepts versions of one id with consecutive validity periods', () => {
+      const models = parseMarketModelsConfig(
+        configJson([
+          { ...VAN_MODEL, version: 1, validTo: '2026-10-31' },
+          { ...VAN_MODEL, version: 2, validFrom: '2026-11-01', perKmRate: 0.75 },
+        ]),
+        'models.json'
+      );
+
+      expect(models.map((m) => m.version)).toEqual([1, 2]);
+    });
+
+    it('rejects overlapping versions and inverted validity', () => {
+      const error = captureError(() =>
+        parseMarketModelsConfig(
+          configJson([
+            { ...VAN_MODEL, version: 1, validTo: '2026-11-15' },
+            { ...VAN_MODEL, version: 2, validFrom: '2026-11-01' },
+            { ...VAN_MODEL, id: 'van-2', validFrom: '2026-12-01', validTo: '2026-11-01' },
+          ]),
+          'models.json'
+        )
+      );
+
+      expect(error.issues).toEqual([
+        'models.2.validTo: validFrom must not be after validTo',
+        'models.1.validFrom: Validity overlaps version 1 of model "van-any"',
+      ]);
+    });
+
+    it('accepts postal-code ranges on lanes and rejects malformed prefixes', () => {
+      const models = parseMarketModelsConfig(
+        configJson([{ ...VAN_MODEL, lane: { ...VAN_MODEL.lane, originPostalCodes: [{ from: '20', to: '29' }] } }]),
+        'models.json'
+      );
+      expect(models[0].lane.originPostalCodes).toEqual([{ from: '20', to: '29' }]);
+
+      const error = captureError(() =>
+        parseMarketModelsConfig(
+          configJson([{ ...VAN_MODEL, lane: { ...VAN_MODEL.lane, destinationPostalCodes: [{ from: '20-' }] } }]),
+          'models.json'
+        )
+      );
+      expect(error.issues[0]).toMatch(/^models\.0\.lane\.destinationPostalCodes\.0\.from:/);
+    });
+
+    it('accepts rounding policies and rejects an ending outside the step', () => {
+      const models = parseMarketModelsConfig(
+        configJson([{ ...VAN_MODEL, rounding: { mode: 'up', step: 100, ending: 90 } }]),
+        'models.json'
+      );
+      expect(models[0].rounding).toEqual({ mode: 'up', step: 100, ending: 90 });
+
+      const error = captureError(() =>
+        parseMarketModelsConfig(
+          JSON.stringify({ models: [VAN_MODEL], rounding: { mode: 'up', step: 10, ending: 10 } }),
+          'models.json'
+        )
+      );
+      expect(error.issues).toEqual(['rounding.ending: ending must be smaller than step']);
+    });
+
+    it('reports malformed JSON', () => {
+      const error = captureError(() => parseMarketModelsConfig('{ "models": [', 'models.json'));
+
+      expect(error.issues[0]).toMatch(/^not valid JSON/);
+    });
+  });
+
+  describe('parseRateCardsConfig', () => {
+    it('accepts the example rate cards file', async () => {
+      const content = await readFile(RATE_CARDS_EXAMPLE_FILE, 'utf8');
+
+      const rateCards = parseRateCardsConfig(content, RATE_CARDS_EXAMPLE_FILE);
+
+      expect(rateCards.map((card) => card.customerId)).toEqual(['ACME-001']);
+    });
+
+    it('validates contract models like market models and rejects duplicate customers', () => {
+      const error = captureError(() =>
+        parseRateCardsConfig(
+          JSON.stringify({
+            rateCards: [
+              { customerId: 'ACME', models: [{ ...VAN_MODEL, perKmRate: -1 }] },
+              { customerId: 'ACME', models: [VAN_MODEL] },
+            ],
+          }),
+          'rate-cards.json'
+        )
+      );
+
+      expect(error.message).toContain('Invalid rate cards file rate-cards.json');
+      expect(error.issues).toEqual([
+        'rateCards.0.models.0.perKmRate: Too small: expected number to be >=0',
+        'rateCards.1.customerId: Duplicate rate card for customer "ACME"',
+      ]);
+    });
+  });
+
+  describe('parseCountryGroupsConfig', () => {
+    it('accepts the example file extending the built-in groups', async () => {
+      const content = await readFile(COUNTRY_GROUPS_EXAMPLE_FILE, 'utf8');
+
+      const groups = parseCountryGroupsConfig(content, COUNTRY_GROUPS_EXAMPLE_FILE);
+
+      expect(groups).toMatchObject(DEFAULT_COUNTRY_GROUPS);
+      expect(groups.EU_EX_IT).toEqual({ groups: ['EU'], excludeCountries: ['IT'] });
+    });
+
+    it('reports bad codes and unresolvable references', () => {
+      const error = captureError(() =>
+        parseCountryGroupsConfig(
+          JSON.stringify({ groups: { BENELUX: { countries: ['NLD'] }, EU_EX_IT: { groups: ['EUROPE'] } } }),
+          'groups.json'
+        )
+      );
+
+      expect(error.message).toContain('Invalid country groups file groups.json');
+      expect(error.issues[0]).toMatch(/^groups\.BENELUX\.countries\.0: Expected an ISO alpha-2 code/);
+      expect(error.issues[1]).toBe('groups.EU_EX_IT: Unknown country group "EUROPE" referenced by "EU_EX_IT"');
+
+      const cycle = captureError(() =>
+        parseCountryGroupsConfig(JSON.stringify({ groups: { A: { groups: ['A'] } } }), 'groups.json')
+      );
+      expect(cycle.issues).toEqual(['groups.A: Country group cycle: A -> A']);
+    });
+  });
+
+  describe('loading and reloading', () => {
+    let dir: string;
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('makes loaded models live for pricing', async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'market-models-'));
+      const filePath = path.join(dir, 'models.json');
+      await writeFile(filePath, configJson([VAN_MODEL]));
+
+      await loadMarketModelsFile(filePath);
+
+      expect(getModelsForVehicle('van_8ep')).toEqual([VAN_MODEL]);
+      expect(getModelsForVehicle('solo_18t_23ep')).toEqual([]);
+    });
+
+    it('makes the file rounding policy the global default and clears it when removed', async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'market-models-'));
+      const filePath = path.join(dir, 'models.json');
+      await writeFile(filePath, JSON.stringify({ models: [VAN_MODEL], rounding: { mode: 'up', step: 10 } }));
+
+      await loadMarketModelsFile(filePath);
+      expect(getDefaultRoundingPolicy()).toEqual({ mode: 'up', step: 10 });
+
+      await writeFile(filePath, configJson([VAN_MODEL]));
+      await loadMarketModelsFile(filePath);
+      expect(getDefaultRoundingPolicy()).toBeNull();
+    });
+
+    it('makes loaded rate cards live', async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'market-models-'));
+      const filePath = path.join(dir, 'rate-cards.json');
+      await writeFile(filePath, JSON.stringify({ rateCards: [{ customerId: 'ACME', models: [VAN_MODEL] }] }));
+
+      await loadRateCardsFile(filePath);
+
+      expect(getRateCard('ACME')?.models).toEqual([VAN_MODEL]);
+      expect(getRateCard('OTHER')).toBeNull();
+    });
+
+    it('makes loaded country groups usable in model lanes', async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'market-models-'));
+      const groupsPath = path.join(dir, 'groups.json');
+      await writeFile(groupsPath, await readFile(COUNTRY_GROUPS_EXAMPLE_FILE, 'utf8'));
+
+      expect(() =>
+        parseMarketModelsConfig(configJson([{ ...VAN_MODEL, lane: { origin: 'BENELUX', destination: 'ANY' } }]), 'models.json')
+      ).toThrow('Unknown country group "BENELUX"');
+
+      await loadCountryGroupsFile(groupsPath);
+
+      const models = parseMarketModelsConfig(
+        configJson([{ ...VAN_MODEL, lane: { origin: 'BENELUX', destination: 'ANY' } }]),
+        'models.json'
+      );
+      expect(models[0].lane.origin).toBe('BENELUX');
+    });
+
+    it('rejects country groups that active models still use', async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'market-models-'));
+      const groupsPath = path.join(dir, 'groups.json');
+      await writeFile(groupsPath, JSON.stringify({ groups: { IBERIA: { countries: ['ES', 'PT'] } } }));
+
+      const error = await loadCountryGroupsFile(groupsPath).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(MarketModelConfigError);
+      expect((error as MarketModelConfigError).issues[0]).toBe(
+        'model "solo-pl-eu" lane.origin: country group "PL" is still in use'
+      );
+      expect(isCountryGroup('PL')).toBe(true);
+      expect(isCountryGroup('IBERIA')).toBe(false);
+    });
+
+    it('keeps the previous models when the file is invalid', async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'market-models-'));
+      const filePath = path.join(dir, 'models.json');
+      await writeFile(filePath, configJson([{ ...VAN_MODEL, perKmRate: 'cheap' }]));
+
+      await expect(loadMarketModelsFile(filePath)).rejects.toThrow(MarketModelConfigError);
+      expect(getMarketModels()).toBe(ALL_MARKET_MODELS);
+    });
+
+    it('reloads on file change and rejects broken edits', async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'market-models-'));
+      const filePath = path.join(dir, 'models.json');
+      await writeFile(filePath, configJson([VAN_MODEL]));
+      await loadMarketModelsFile(filePath);
+
+      const reloads: MarketModel[][] = [];
+      const errors: Error[] = [];
+      const stop = watchMarketModelsFile(filePath, {
+        intervalMs: 20,
+        onReload: (models) => reloads.push(models),
+        onError: (error) => errors.push(error),
+      });
+
+      try {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        await writeFile(filePath, configJson([{ ...VAN_MODEL, perKmRate: 0.8 }]));
+        await vi.waitFor(() => expect(reloads).toHaveLength(1), { timeout: 2000 });
+        expect(getModelsForVehicle('van_8ep')[0].perKmRate).toBe(0.8);
+
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        await writeFile(filePath, '{ broken');
+        await vi.waitFor(() => expect(errors).toHaveLength(1), { timeout: 2000 });
+        expect(getModelsForVehicle('van_8ep')[0].perKmRate).toBe(0.8);
+      } finally {
+        stop();
+      }
+    });
+  });
+});
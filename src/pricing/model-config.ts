@@ -0,0 +1,462 @@
+/**
+ * Market models, customer rate cards and country groups from external JSON
+ * config files
+ * Files are validated against a schema mirroring MarketModel, loaded at
+ * startup and reloaded when they change. An invalid file is rejected with an
+ * error report and the previously loaded models stay live.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { watchFile, unwatchFile, type Stats } from 'node:fs';
+import { z } from 'zod/v4';
+import { VehicleProfileIdSchema } from '../here/vehicle-profiles.js';
+import {
+  ROUNDING_MODES,
+  SURCHARGE_TYPES,
+  type MarketModel,
+  type CustomerRateCard,
+} from './types.js';
+import { getMarketModels, setMarketModels } from './market-models.js';
+import { setDefaultRoundingPolicy } from './rounding.js';
+import { getRateCards, setRateCards } from './rate-cards.js';
+import {
+  ANY_COUNTRY_GROUP,
+  CountryGroupError,
+  isCountryGroup,
+  resolveCountryGroups,
+  setCountryGroups,
+  type CountryGroupDefinitions,
+} from './country-groups.js';
+
+/**
+ * Lane group name; must be defined in the active country groups
+ */
+const LaneGroupSchema = z.string().min(1).superRefine((name, ctx) => {
+  if (!isCountryGroup(name)) {
+    ctx.addIssue({ code: 'custom', message: `Unknown country group "${name}"` });
+  }
+});
+
+const PostalCodeRangeSchema = z.strictObject({
+  from: z.string().regex(/^[A-Za-z0-9]+$/, 'Expected a postal-code prefix like "20"'),
+  to: z.string().regex(/^[A-Za-z0-9]+$/, 'Expected a postal-code prefix like "49"').optional(),
+});
+
+const SurchargeConfigSchema = z.strictObject({
+  type: z.enum(SURCHARGE_TYPES),
+  amount: z.number(),
+  description: z.string().min(1),
+});
+
+const DistanceBandPricingSchema = z.strictObject({
+  mode: z.enum(['marginal', 'wholeDistance']),
+  bands: z.array(z.strictObject({
+    upToKm: z.number().positive().optional(),
+    perKmRate: z.number().nonnegative(),
+  })).min(1),
+}).superRefine((pricing, ctx) => {
+  let previous = 0;
+  pricing.bands.forEach((band, index) => {
+    const isLast = index === pricing.bands.length - 1;
+    if (isLast && band.upToKm !== undefined) {
+      ctx.addIssue({ code: 'custom', message: 'Last band must be open-ended (no upToKm)', path: ['bands', index, 'upToKm'] });
+    }
+    if (!isLast && band.upToKm === undefined) {
+      ctx.addIssue({ code: 'custom', message: 'Only the last band may omit upToKm', path: ['bands', index, 'upToKm'] });
+    }
+    if (band.upToKm !== undefined) {
+      if (band.upToKm <= previous) {
+        ctx.addIssue({ code: 'custom', message: 'Band bounds must be ascending', path: ['bands', index, 'upToKm'] });
+      }
+      previous = band.upToKm;
+    }
+  });
+});
+
+const RoundingPolicySchema = z.strictObject({
+  mode: z.enum(ROUNDING_MODES),
+  step: z.number().positive(),
+  ending: z.number().nonnegative().optional(),
+}).refine(
+  (policy) => policy.ending === undefined || policy.ending < policy.step,
+  { message: 'ending must be smaller than step', path: ['ending'] }
+);
+
+/**
+ * Schema for a single market model (mirrors MarketModel in types.ts)
+ */
+export const MarketModelSchema = z.strictObject({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  version: z.number().int().positive().optional(),
+  validFrom: z.iso.date().optional(),
+  validTo: z.iso.date().optional(),
+  vehicleProfileId: VehicleProfileIdSchema,
+  lane: z.strictObject({
+    origin: LaneGroupSchema,
+    destination: LaneGroupSchema,
+    originPostalCodes: z.array(PostalCodeRangeSchema).min(1).optional(),
+    destinationPostalCodes: z.array(PostalCodeRangeSchema).min(1).optional(),
+  }),
+  perKmRate: z.number().nonnegative(),
+  distanceBands: DistanceBandPricingSchema.optional(),
+  emptyKmFlat: z.number().nonnegative().optional(),
+  emptyFeeFlat: z.number().nonnegative().optional(),
+  defaultMin: z.number().nonnegative().optional(),
+  ukMin: z.number().nonnegative().optional(),
+  surcharges: z.array(SurchargeConfigSchema).optional(),
+  tollPolicy: z.strictObject({
+    mode: z.enum(['included', 'passThrough']),
+    markupPercent: z.number().nonnegative().optional(),
+  }).optional(),
+  ferryPolicy: z.strictObject({
+    markupPercent: z.number().nonnegative().optional(),
+  }).optional(),
+  fuelClause: z.strictObject({
+    basePricePerLitre: z.number().positive(),
+    sensitivityPercent: z.number().min(0).max(100),
+  }).optional(),
+  partialLoad: z.strictObject({
+    minSharePercent: z.number().min(0).max(100).optional(),
+    minPallets: z.number().int().positive().optional(),
+  }).optional(),
+  stopFees: z.strictObject({
+    loading: z.number().nonnegative(),
+    unloading: z.number().nonnegative(),
+    freeStops: z.number().int().nonnegative().optional(),
+  }).optional(),
+  demurrage: z.strictObject({
+    ratePerHour: z.number().nonnegative(),
+    freeLoadingHours: z.number().nonnegative(),
+    freeUnloadingHours: z.number().nonnegative(),
+  }).optional(),
+  rounding: RoundingPolicySchema.optional(),
+}).refine(
+  (model) => !model.validFrom || !model.validTo || model.validFrom <= model.validTo,
+  { message: 'validFrom must not be after validTo', path: ['validTo'] }
+);
+
+/**
+ * Check if two validity periods (inclusive, open-ended when omitted) overlap
+ */
+function periodsOverlap(
+  a: { validFrom?: string; validTo?: string },
+  b: { validFrom?: string; validTo?: string }
+): boolean {
+  const aStartsBeforeBEnds = !a.validFrom || !b.validTo || a.validFrom <= b.validTo;
+  const bStartsBeforeAEnds = !b.validFrom || !a.validTo || b.validFrom <= a.validTo;
+  return aStartsBeforeBEnds && bStartsBeforeAEnds;
+}
+
+/**
+ * Schema for the market models file: `{ "models": [...] }` in matching order
+ * Several versions may share an id as long as their versions are distinct
+ * and their validity periods do not overlap. An optional top-level
+ * `rounding` is the default policy for models without their own.
+ */
+export const MarketModelsFileSchema = z.strictObject({
+  models: z.array(MarketModelSchema).min(1),
+  rounding: RoundingPolicySchema.optional(),
+}).superRefine((file, ctx) => {
+  file.models.forEach((model, index) => {
+    for (let earlier = 0; earlier < index; earlier++) {
+      const other = file.models[earlier];
+      if (other.id !== model.id) continue;
+
+      if ((other.version ?? 1) === (model.version ?? 1)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Duplicate model id "${model.id}" version ${model.version ?? 1}`,
+          path: ['models', index, 'version'],
+        });
+      } else if (periodsOverlap(other, model)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Validity overlaps version ${other.version ?? 1} of model "${model.id}"`,
+          path: ['models', index, 'validFrom'],
+        });
+      }
+    }
+  });
+});
+
+// Compile-time check that the schema stays in sync with MarketModel
+type Equals<A, B> = [A, keyof A] extends [B, keyof B]
+  ? ([B, keyof B] extends [A, keyof A] ? true : false)
+  : false;
+const schemaMatchesMarketModel: Equals<z.infer<typeof MarketModelSchema>, MarketModel> = true;
+void schemaMatchesMarketModel;
+
+/**
+ * Invalid market models file; `issues` lists every problem as "path: message"
+ */
+export class MarketModelConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[]
+  ) {
+    super(`${message}\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'MarketModelConfigError';
+  }
+}
+
+/**
+ * Parse and validate market models file content, including the default rounding policy
+ * @throws MarketModelConfigError listing all validation issues
+ */
+function parseMarketModelsFile(content: string, source: string): z.infer<typeof MarketModelsFileSchema> {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new MarketModelConfigError(`Invalid market models file ${source}`, [`not valid JSON: ${reason}`]);
+  }
+
+  const result = MarketModelsFileSchema.safeParse(json);
+  if (!result.success) {
+    throw new MarketModelConfigError(
+      `Invalid market models file ${source}`,
+      result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Parse and validate market models file content
+ * @throws MarketModelConfigError listing all validation issues
+ */
+export function parseMarketModelsConfig(content: string, source: string): MarketModel[] {
+  return parseMarketModelsFile(content, source).models;
+}
+
+/**
+ * Load market models and the default rounding policy from a file and make them live
+ * On any error the currently active models are left untouched.
+ * @throws MarketModelConfigError if the file is invalid
+ */
+export async function loadMarketModelsFile(filePath: string): Promise<MarketModel[]> {
+  const content = await readFile(filePath, 'utf8');
+  const { models, rounding } = parseMarketModelsFile(content, filePath);
+  setMarketModels(models);
+  setDefaultRoundingPolicy(rounding ?? null);
+  return models;
+}
+
+export interface ConfigFileWatchOptions<T> {
+  /** Polling interval in ms (default 1000) */
+  intervalMs?: number;
+  /** Called after a successful reload */
+  onReload?: (loaded: T) => void;
+  /** Called when a changed file is rejected (previously loaded data stays live) */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Re-run a loader whenever a config file changes
+ * Uses stat polling so editors that replace the file on save are picked up.
+ * @returns function that stops watching
+ */
+function watchConfigFile<T>(
+  filePath: string,
+  load: (filePath: string) => Promise<T>,
+  options: ConfigFileWatchOptions<T>
+): () => void {
+  const listener = (current: Stats, previous: Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) return;
+    // File removed: keep the current data
+    if (current.nlink === 0) return;
+
+    load(filePath).then(
+      (loaded) => options.onReload?.(loaded),
+      (error: unknown) => options.onError?.(error instanceof Error ? error : new Error(String(error)))
+    );
+  };
+
+  watchFile(filePath, { interval: options.intervalMs ?? 1000 }, listener);
+  return () => unwatchFile(filePath, listener);
+}
+
+/**
+ * Reload market models whenever the file changes
+ * @returns function that stops watching
+ */
+export function watchMarketModelsFile(
+  filePath: string,
+  options: ConfigFileWatchOptions<MarketModel[]> = {}
+): () => void {
+  return watchConfigFile(filePath, loadMarketModelsFile, options);
+}
+
+/**
+ * Schema for the customer rate cards file: `{ "rateCards": [...] }`
+ * Each card holds contract models with the same structure as market models.
+ */
+export const RateCardsFileSchema = z.strictObject({
+  rateCards: z.array(z.strictObject({
+    customerId: z.string().min(1),
+    customerName: z.string().min(1).optional(),
+    models: MarketModelsFileSchema.shape.models,
+  })),
+}).superRefine((file, ctx) => {
+  const seen = new Set<string>();
+  file.rateCards.forEach((card, index) => {
+    if (seen.has(card.customerId)) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Duplicate rate card for customer "${card.customerId}"`,
+        path: ['rateCards', index, 'customerId'],
+      });
+    }
+    seen.add(card.customerId);
+  });
+});
+
+/**
+ * Parse and validate customer rate cards file content
+ * @throws MarketModelConfigError listing all validation issues
+ */
+export function parseRateCardsConfig(content: string, source: string): CustomerRateCard[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new MarketModelConfigError(`Invalid rate cards file ${source}`, [`not valid JSON: ${reason}`]);
+  }
+
+  const result = RateCardsFileSchema.safeParse(json);
+  if (!result.success) {
+    throw new MarketModelConfigError(
+      `Invalid rate cards file ${source}`,
+      result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+
+  return result.data.rateCards;
+}
+
+/**
+ * Load customer rate cards from a file and make them live
+ * On any error the currently active rate cards are left untouched.
+ * @throws MarketModelConfigError if the file is invalid
+ */
+export async function loadRateCardsFile(filePath: string): Promise<CustomerRateCard[]> {
+  const content = await readFile(filePath, 'utf8');
+  const rateCards = parseRateCardsConfig(content, filePath);
+  setRateCards(rateCards);
+  return rateCards;
+}
+
+/**
+ * Reload customer rate cards whenever the file changes
+ * @returns function that stops watching
+ */
+export function watchRateCardsFile(
+  filePath: string,
+  options: ConfigFileWatchOptions<CustomerRateCard[]> = {}
+): () => void {
+  return watchConfigFile(filePath, loadRateCardsFile, options);
+}
+
+const GROUP_NAME = /^[A-Z][A-Z0-9_]*$/;
+const GroupNameSchema = z.string().regex(GROUP_NAME, 'Expected an upper-case group name like BENELUX');
+const CountryCodeSchema = z.string().regex(/^[A-Z]{2}$/, 'Expected an ISO alpha-2 code like NL');
+
+/**
+ * Schema for the country groups file: `{ "groups": { "BENELUX": { "countries": [...] }, ... } }`
+ * References must resolve (no unknown groups, no cycles) and every group needs
+ * at least one country.
+ */
+export const CountryGroupsFileSchema = z.strictObject({
+  groups: z.record(GroupNameSchema, z.strictObject({
+    countries: z.array(CountryCodeSchema).optional(),
+    groups: z.array(GroupNameSchema).optional(),
+    excludeCountries: z.array(CountryCodeSchema).optional(),
+    excludeGroups: z.array(GroupNameSchema).optional(),
+  })),
+}).superRefine((file, ctx) => {
+  try {
+    resolveCountryGroups(file.groups);
+  } catch (error) {
+    if (!(error instanceof CountryGroupError)) throw error;
+    ctx.addIssue({ code: 'custom', message: error.message, path: ['groups', error.group] });
+  }
+});
+
+/**
+ * Parse and validate country groups file content
+ * @throws MarketModelConfigError listing all validation issues
+ */
+export function parseCountryGroupsConfig(content: string, source: string): CountryGroupDefinitions {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new MarketModelConfigError(`Invalid country groups file ${source}`, [`not valid JSON: ${reason}`]);
+  }
+
+  const result = CountryGroupsFileSchema.safeParse(json);
+  if (!result.success) {
+    throw new MarketModelConfigError(
+      `Invalid country groups file ${source}`,
+      result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+
+  return result.data.groups;
+}
+
+/**
+ * Lanes of the active market models and rate cards using groups missing from
+ * the given definitions
+ */
+function findOrphanedLanes(definitions: CountryGroupDefinitions): string[] {
+  const models = [
+    ...getMarketModels(),
+    ...getRateCards().flatMap((card) => card.models),
+  ];
+  const issues: string[] = [];
+  for (const model of models) {
+    for (const side of ['origin', 'destination'] as const) {
+      const group = model.lane[side];
+      if (group !== ANY_COUNTRY_GROUP && !definitions[group]) {
+        issues.push(`model "${model.id}" lane.${side}: country group "${group}" is still in use`);
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Load country groups from a file and make them live
+ * Groups still referenced by active models or rate cards cannot be removed.
+ * On any error the currently active groups are left untouched.
+ * @throws MarketModelConfigError if the file is invalid
+ */
+export async function loadCountryGroupsFile(filePath: string): Promise<CountryGroupDefinitions> {
+  const content = await readFile(filePath, 'utf8');
+  const groups = parseCountryGroupsConfig(content, filePath);
+
+  const orphaned = findOrphanedLanes(groups);
+  if (orphaned.length > 0) {
+    throw new MarketModelConfigError(`Invalid country groups file ${filePath}`, orphaned);
+  }
+
+  setCountryGroups(groups);
+  return groups;
+}
+
+/**
+ * Reload country groups whenever the file changes
+ * @returns function that stops watching
+ */
+export function watchCountryGroupsFile(
+  filePath: string,
+  options: ConfigFileWatchOptions<CountryGroupDefinitions> = {}
+): () => void {
+  return watchConfigFile(filePath, loadCountryGroupsFile, options);
+}
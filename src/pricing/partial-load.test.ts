@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { calculateLoadShare, buildPartialLoadLineItem } from './partial-load.js';
+import { ShipmentCapacityError } from './errors.js';
+import type { MarketModel } from './types.js';
+
+describe('partial loads', () => {
+  describe('calculateLoadShare', () => {
+    it('uses the highest of the pallet, loading-metre and weight shares', () => {
+      expect(calculateLoadShare('ftl_13_6_33ep', { pallets: 11 })).toBeCloseTo(1 / 3);
+      expect(calculateLoadShare('ftl_13_6_33ep', { pallets: 11, loadingMetres: 6.8 })).toBeCloseTo(0.5);
+      expect(calculateLoadShare('ftl_13_6_33ep', { pallets: 11, weightKg: 18000 })).toBeCloseTo(0.75);
+    });
+
+    it('accepts a shipment filling the vehicle exactly', () => {
+      expect(calculateLoadShare('van_8ep', { pallets: 8, loadingMetres: 4.2, weightKg: 1200 })).toBe(1);
+    });
+
+    it('lists every exceeded dimension', () => {
+      let error: unknown;
+      try {
+        calculateLoadShare('van_8ep', { pallets: 9, loadingMetres: 3, weightKg: 1500 });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ShipmentCapacityError);
+      expect((error as ShipmentCapacityError).message).toBe(
+        'Shipment exceeds the capacity of vehicle van_8ep: 9 pallets (capacity 8), 1500 kg (capacity 1200)'
+      );
+      expect((error as ShipmentCapacityError).exceeded).toEqual([
+        { dimension: 'pallets', requested: 9, capacity: 8 },
+        { dimension: 'weightKg', requested: 1500, capacity: 1200 },
+      ]);
+    });
+  });
+
+  describe('buildPartialLoadLineItem', () => {
+    const model: MarketModel = {
+      id: 'test-ftl',
+      name: 'Test FTL',
+      vehicleProfileId: 'ftl_13_6_33ep',
+      lane: { origin: 'PL', destination: 'EU' },
+      perKmRate: 1.5,
+    };
+
+    it('prices pro rata without minimum-share rules', () => {
+      const item = buildPartialLoadLineItem(model, { pallets: 3 }, 3300);
+
+      expect(item).toEqual({
+        description: 'Partial load: 3 pallets = 9.09% of vehicle',
+        pallets: 3,
+        loadingMetres: null,
+        weightKg: null,
+        sharePercent: 9.09,
+        billedSharePercent: 9.09,
+        fullVehiclePrice: 3300,
+        amount: -3000,
+      });
+    });
+
+    it('bills at least the minimum pallets', () => {
+      const item = buildPartialLoadLineItem(
+        { ...model, partialLoad: { minPallets: 6, minSharePercent: 10 } },
+        { pallets: 3 },
+        3300
+      );
+
+      expect(item.billedSharePercent).toBe(18.18);
+      expect(item.amount).toBe(-2700);
+    });
+
+    it('never bills more than the full vehicle', () => {
+      const item = buildPartialLoadLineItem(
+        { ...model, partialLoad: { minPallets: 40 } },
+        { pallets: 3 },
+        3300
+      );
+
+      expect(item.billedSharePercent).toBe(100);
+      expect(item.amount).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Partial-load (LTL) pricing
+ * A shipment is priced as a share of the full vehicle: the highest of its
+ * pallet, loading-metre and weight shares of the profile's capacity, raised
+ * to the model's minimum-share rules.
+ */
+
+import { VEHICLE_PROFILES, type VehicleProfileId } from '../here/vehicle-profiles.js';
+import type { MarketModel, PartialLoadLineItem, Shipment } from './types.js';
+import { roundAmount } from './rounding.js';
+import { ShipmentCapacityError, type CapacityExcess } from './errors.js';
+
+const DIMENSION_LABELS: Record<CapacityExcess['dimension'], string> = {
+  pallets: 'pallets',
+  loadingMetres: 'loading metres',
+  weightKg: 'kg',
+};
+
+/**
+ * Share of the vehicle a shipment uses (0-1)
+ * @throws ShipmentCapacityError if any dimension exceeds the profile's capacity
+ */
+export function calculateLoadShare(vehicleProfileId: VehicleProfileId, shipment: Shipment): number {
+  const { capacity } = VEHICLE_PROFILES[vehicleProfileId];
+  const dimensions: CapacityExcess[] = [
+    { dimension: 'pallets', requested: shipment.pallets ?? 0, capacity: capacity.pallets },
+    { dimension: 'loadingMetres', requested: shipment.loadingMetres ?? 0, capacity: capacity.loadingMetres },
+    { dimension: 'weightKg', requested: shipment.weightKg ?? 0, capacity: capacity.payloadKg },
+  ];
+
+  const exceeded = dimensions.filter((d) => d.requested > d.capacity);
+  if (exceeded.length > 0) {
+    const described = exceeded
+      .map((d) => `${d.requested} ${DIMENSION_LABELS[d.dimension]} (capacity ${d.capacity})`)
+      .join(', ');
+    throw new ShipmentCapacityError(
+      `Shipment exceeds the capacity of vehicle ${vehicleProfileId}: ${described}`,
+      vehicleProfileId,
+      exceeded
+    );
+  }
+
+  return Math.max(...dimensions.map((d) => d.requested / d.capacity));
+}
+
+/**
+ * Describe the shipment dimensions that were given ("10 pallets, 2400 kg")
+ */
+function describeShipment(shipment: Shipment): string {
+  return [
+    shipment.pallets !== undefined ? `${shipment.pallets} pallets` : null,
+    shipment.loadingMetres !== undefined ? `${shipment.loadingMetres} ldm` : null,
+    shipment.weightKg !== undefined ? `${shipment.weightKg} kg` : null,
+  ]
+    .filter((part) => part !== null)
+    .join(', ');
+}
+
+/**
+ * Build the partial-load line item reducing a full-vehicle price to the billed share
+ * @throws ShipmentCapacityError if the shipment exceeds the model's vehicle capacity
+ */
+export function buildPartialLoadLineItem(
+  model: MarketModel,
+  shipment: Shipment,
+  fullVehiclePrice: number
+): PartialLoadLineItem {
+  const share = calculateLoadShare(model.vehicleProfileId, shipment);
+  const { capacity } = VEHICLE_PROFILES[model.vehicleProfileId];
+
+  const minShares = [
+    (model.partialLoad?.minSharePercent ?? 0) / 100,
+    (model.partialLoad?.minPallets ?? 0) / capacity.pallets,
+  ];
+  const billedShare = Math.min(1, Math.max(share, ...minShares));
+  const sharePercent = roundAmount(share * 100);
+  const billedSharePercent = roundAmount(billedShare * 100);
+  const minimumNote = billedShare > share ? `, minimum ${billedSharePercent}% applies` : '';
+
+  return {
+    description: `Partial load: ${describeShipment(shipment)} = ${sharePercent}% of vehicle${minimumNote}`,
+    pallets: shipment.pallets ?? null,
+    loadingMetres: shipment.loadingMetres ?? null,
+    weightKg: shipment.weightKg ?? null,
+    sharePercent,
+    billedSharePercent,
+    fullVehiclePrice: roundAmount(fullVehiclePrice),
+    amount: roundAmount(fullVehiclePrice * billedShare - fullVehiclePrice),
+  };
+}
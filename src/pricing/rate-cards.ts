@@ -0,0 +1,30 @@
+/**
+ * Customer contract rate cards
+ * Rate cards currently used for pricing, keyed by customer id. Empty until a
+ * rate cards file is loaded.
+ */
+
+import type { CustomerRateCard } from './types.js';
+
+let rateCards = new Map<string, CustomerRateCard>();
+
+/**
+ * Get all rate cards currently used for pricing
+ */
+export function getRateCards(): CustomerRateCard[] {
+  return Array.from(rateCards.values());
+}
+
+/**
+ * Get the rate card of a customer
+ */
+export function getRateCard(customerId: string): CustomerRateCard | null {
+  return rateCards.get(customerId) ?? null;
+}
+
+/**
+ * Replace all rate cards (e.g. from a config file)
+ */
+export function setRateCards(cards: CustomerRateCard[]): void {
+  rateCards = new Map(cards.map((card) => [card.customerId, card]));
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { applyRoundingPolicy, roundAmount } from './rounding.js';
+
+describe('roundAmount', () => {
+  it('rounds to 2 decimal places', () => {
+    expect(roundAmount(1234.5678)).toBe(1234.57);
+    expect(roundAmount(0.1 + 0.2)).toBe(0.3);
+  });
+});
+
+describe('applyRoundingPolicy', () => {
+  it('rounds to the nearest step', () => {
+    expect(applyRoundingPolicy(1234.56, { mode: 'nearest', step: 10 })).toBe(1230);
+    expect(applyRoundingPolicy(1235, { mode: 'nearest', step: 10 })).toBe(1240);
+    expect(applyRoundingPolicy(1250, { mode: 'nearest', step: 100 })).toBe(1300);
+  });
+
+  it('rounds up and down to whole steps', () => {
+    expect(applyRoundingPolicy(1201, { mode: 'up', step: 100 })).toBe(1300);
+    expect(applyRoundingPolicy(1299.99, { mode: 'down', step: 100 })).toBe(1200);
+    expect(applyRoundingPolicy(12.3, { mode: 'up', step: 0.5 })).toBe(12.5);
+  });
+
+  it('keeps prices already on a step', () => {
+    expect(applyRoundingPolicy(1240, { mode: 'up', step: 10 })).toBe(1240);
+    expect(applyRoundingPolicy(0.3 * 3000, { mode: 'up', step: 10 })).toBe(900);
+    expect(applyRoundingPolicy(1290, { mode: 'down', step: 100, ending: 90 })).toBe(1290);
+  });
+
+  it('lands on psychological endings', () => {
+    expect(applyRoundingPolicy(1234.56, { mode: 'up', step: 100, ending: 90 })).toBe(1290);
+    expect(applyRoundingPolicy(1234.56, { mode: 'down', step: 100, ending: 90 })).toBe(1190);
+    expect(applyRoundingPolicy(1234.56, { mode: 'nearest', step: 100, ending: 99 })).toBe(1199);
+    expect(applyRoundingPolicy(1234.56, { mode: 'up', step: 10, ending: 9 })).toBe(1239);
+  });
+
+  it('never rounds a small price below the first positive step', () => {
+    // Below the ending: nearest would land on -10
+    expect(applyRoundingPolicy(30, { mode: 'nearest', step: 100, ending: 90 })).toBe(90);
+    expect(applyRoundingPolicy(30, { mode: 'down', step: 100, ending: 90 })).toBe(90);
+    // Below one step: down and nearest would land on 0
+    expect(applyRoundingPolicy(40, { mode: 'down', step: 100 })).toBe(100);
+    expect(applyRoundingPolicy(40, { mode: 'nearest', step: 100 })).toBe(100);
+    expect(applyRoundingPolicy(40, { mode: 'up', step: 100 })).toBe(100);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Amount rounding shared by price and cost calculations, and the sales
+ * rounding policies applied to final prices
+ */
+
+import { BASE_CURRENCY } from './exchange-rates.js';
+import type { RoundingLineItem, RoundingPolicy } from './types.js';
+
+/**
+ * Round a money amount to 2 decimal places
+ */
+export function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Policy for models without their own (null: prices keep 2 decimals)
+ */
+let defaultRoundingPolicy: RoundingPolicy | null = null;
+
+/**
+ * Get the global default rounding policy
+ */
+export function getDefaultRoundingPolicy(): RoundingPolicy | null {
+  return defaultRoundingPolicy;
+}
+
+/**
+ * Replace the global default rounding policy (null disables it)
+ */
+export function setDefaultRoundingPolicy(policy: RoundingPolicy | null): void {
+  defaultRoundingPolicy = policy;
+}
+
+/**
+ * Reset to no global rounding policy
+ */
+export function resetDefaultRoundingPolicy(): void {
+  defaultRoundingPolicy = null;
+}
+
+const ROUNDERS: Record<RoundingPolicy['mode'], (steps: number) => number> = {
+  nearest: Math.round,
+  up: Math.ceil,
+  down: Math.floor,
+};
+
+/**
+ * Round a price to the policy's steps, e.g. 1234.56 up to 1240 (step 10)
+ * or up to 1290 (step 100, ending 90)
+ * A positive price never rounds below the first positive step (90 for
+ * ending 90, else one step), so small prices cannot drop to zero or below.
+ */
+export function applyRoundingPolicy(price: number, policy: RoundingPolicy): number {
+  const ending = policy.ending ?? 0;
+  // Drop floating-point noise so 1240 / 10 never rounds up to 125 steps
+  const steps = Math.round(((price - ending) / policy.step) * 1e6) / 1e6;
+  const rounded = roundAmount(ROUNDERS[policy.mode](steps) * policy.step + ending);
+  if (price <= 0) return rounded;
+  return Math.max(rounded, ending > 0 ? ending : policy.step);
+}
+
+const MODE_LABELS: Record<RoundingPolicy['mode'], string> = {
+  nearest: 'Rounded to nearest',
+  up: 'Rounded up to',
+  down: 'Rounded down to',
+};
+
+/**
+ * Build the line item taking a calculated price to its rounded final price
+ * @param currency - currency the price and the policy steps are in
+ */
+export function buildRoundingLineItem(
+  policy: RoundingPolicy,
+  unroundedPrice: number,
+  currency: string = BASE_CURRENCY
+): RoundingLineItem {
+  const ending = policy.ending ?? 0;
+  const roundedPrice = applyRoundingPolicy(unroundedPrice, policy);
+  const endingNote = ending > 0 ? ` ending in ${ending}` : '';
+
+  return {
+    description: `${MODE_LABELS[policy.mode]} ${policy.step} ${currency}${endingNote}: ${unroundedPrice} -> ${roundedPrice}`,
+    mode: policy.mode,
+    step: policy.step,
+    ending,
+    unroundedPrice,
+    amount: roundAmount(roundedPrice - unroundedPrice),
+  };
+}
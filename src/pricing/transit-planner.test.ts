@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { planTransit, type TransitPlanOptions } from './transit-planner.js';
+import { toLocalDateTime } from './calendar.js';
+import { createRouteFacts, type RouteFacts } from '../types/route-facts.js';
+
+function createTestRouteFacts(
+  durationHours: number | null,
+  ferries: Array<{ departsAfterHours: number; durationHours: number }> = []
+): RouteFacts {
+  return createRouteFacts({
+    route: { distanceKm: 1000, durationHours, baseDurationHours: null, typicalDurationHours: null, sections: 1 },
+    infrastructure: {
+      hasFerry: ferries.length > 0,
+      ferrySegments: ferries.length,
+      ferryCrossings: ferries.map((ferry) => ({ crossingId: null, name: 'Test crossing', ...ferry })),
+      hasChannelTunnel: false,
+      hasTollRoads: false,
+      tollCountries: [],
+      tollCostEstimate: null,
+      hasTunnel: false,
+      tunnels: [],
+    },
+  });
+}
+
+const SINGLE: TransitPlanOptions = { crew: 'single', loadingHours: 0, unloadingHours: 0, departure: null };
+
+function activityTypes(plan: ReturnType<typeof planTransit>): string[] {
+  return plan!.days.flatMap((day) => day.activities.map((a) => a.type));
+}
+
+describe('planTransit', () => {
+  it('returns null without a driving duration', () => {
+    expect(planTransit(createTestRouteFacts(null), SINGLE)).toBeNull();
+  });
+
+  it('adds a 45 min break after 4.5 h of driving', () => {
+    const plan = planTransit(createTestRouteFacts(8), { ...SINGLE, loadingHours: 1, unloadingHours: 1 });
+
+    expect(plan!.days).toHaveLength(1);
+    expect(plan!.days[0].activities.map((a) => [a.type, a.hours, a.startsAfterHours])).toEqual([
+      ['loading', 1, 0],
+      ['driving', 4.5, 1],
+      ['break', 0.75, 5.5],
+      ['driving', 3.5, 6.25],
+      ['unloading', 1, 9.75],
+    ]);
+    expect(plan!.totalHours).toBe(10.75);
+    expect(plan!.estimatedDelivery).toBeNull();
+  });
+
+  it('splits a long route into driving days with an estimated delivery time', () => {
+    const departure = toLocalDateTime('2026-10-19T08:00', 'DE');
+    const plan = planTransit(createTestRouteFacts(20), { ...SINGLE, departure });
+
+    // Two extended 10 h days around a reduced 9 h daily rest
+    expect(plan!.days.map((day) => day.drivingHours)).toEqual([10, 10]);
+    expect(plan!.days[0].activities.at(-1)).toEqual({
+      type: 'dailyRest',
+      description: 'Reduced daily rest',
+      hours: 9,
+      startsAfterHours: 11.5,
+      start: '2026-10-19T19:30',
+    });
+    expect(plan!.totalHours).toBe(32);
+    expect(plan!.departure).toBe('2026-10-19T08:00');
+    expect(plan!.estimatedDelivery).toBe('2026-10-20T16:00');
+    expect(plan!.timeZone).toBe('Europe/Berlin');
+  });
+
+  it('loads before the departure and delivers in destination local time', () => {
+    const base = createTestRouteFacts(8);
+    const routeFacts = { ...base, geography: { ...base.geography, originCountry: 'IT', destinationCountry: 'GB' } };
+    const departure = toLocalDateTime('2026-10-16T10:00', 'IT');
+    const plan = planTransit(routeFacts, { ...SINGLE, loadingHours: 2, unloadingHours: 1, departure });
+
+    expect(plan!.days[0].activities.map((a) => [a.type, a.start])).toEqual([
+      ['loading', '2026-10-16T08:00'],
+      ['driving', '2026-10-16T10:00'],
+      ['break', '2026-10-16T14:30'],
+      ['driving', '2026-10-16T15:15'],
+      ['unloading', '2026-10-16T18:45'],
+    ]);
+    expect(plan!.departure).toBe('2026-10-16T10:00');
+    expect(plan!.timeZone).toBe('Europe/Rome');
+    // 19:45 in Rome is 18:45 in London
+    expect(plan!.estimatedDelivery).toBe('2026-10-16T18:45');
+    expect(plan!.deliveryTimeZone).toBe('Europe/London');
+  });
+
+  it('takes regular daily rests and a weekly rest once the allowances are used up', () => {
+    const plan = planTransit(createTestRouteFacts(70), SINGLE);
+
+    const rests = plan!.days.flatMap((day) =>
+      day.activities.filter((a) => a.type === 'dailyRest' || a.type === 'weeklyRest').map((a) => a.description)
+    );
+    expect(rests).toEqual([
+      'Reduced daily rest',
+      'Reduced daily rest',
+      'Reduced daily rest',
+      'Daily rest',
+      'Daily rest',
+      'Weekly rest',
+      // A new week starts with fresh allowances
+      'Reduced daily rest',
+    ]);
+    // 10 + 10 + 9 + 9 + 9 + 9 = 56 h before the weekly rest
+    expect(plan!.days.map((day) => day.drivingHours)).toEqual([10, 10, 9, 9, 9, 9, 10, 4]);
+  });
+
+  it('lets a double-manned crew drive 20 h without breaks before a 9 h rest', () => {
+    const plan = planTransit(createTestRouteFacts(30), { ...SINGLE, crew: 'double' });
+
+    expect(activityTypes(plan)).toEqual(['driving', 'dailyRest', 'driving']);
+    expect(plan!.days.map((day) => day.drivingHours)).toEqual([20, 10]);
+    expect(plan!.days[0].activities[1].description).toBe('Daily rest');
+    expect(plan!.totalHours).toBe(39);
+  });
+
+  it('counts a short ferry as a break', () => {
+    const plan = planTransit(createTestRouteFacts(10, [{ departsAfterHours: 4, durationHours: 1.5 }]), SINGLE);
+
+    expect(activityTypes(plan)).toEqual(['driving', 'ferry', 'driving']);
+    expect(plan!.totalHours).toBe(10);
+  });
+
+  it('counts a long ferry as the daily rest', () => {
+    const plan = planTransit(createTestRouteFacts(24, [{ departsAfterHours: 8, durationHours: 11 }]), SINGLE);
+
+    expect(plan!.days).toHaveLength(2);
+    expect(plan!.days[0].activities.at(-1)).toMatchObject({
+      type: 'ferry',
+      description: 'Ferry Test crossing, taken as daily rest',
+      hours: 11,
+    });
+    expect(activityTypes(plan)).toEqual(['driving', 'break', 'driving', 'ferry', 'driving', 'break', 'driving']);
+    expect(plan!.totalHours).toBe(25.5);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Transit planner under the EU driving and rest rules (Regulation (EC) No 561/2006)
+ * Lays loading, driving, ferries and unloading out on a timeline with the
+ * breaks and rests a single driver or a double-manned crew has to take.
+ *
+ * Simplifications: rests start as soon as a limit is reached, 10 h driving
+ * days and reduced daily rests are used while available, weekly rests are
+ * always regular (45 h), and a ferry counts as a break (45 min or more) or as
+ * the whole daily rest (long enough) but never as part of one.
+ */
+
+import type { RouteFacts } from '../types/route-facts.js';
+import type { CrewType, TransitActivity, TransitDay, TransitPlan } from './types.js';
+import {
+  addHoursToLocalDateTime,
+  getTimeZoneForCountry,
+  toIsoLocalDateTime,
+  toTimeZone,
+  type LocalDateTime,
+} from './calendar.js';
+import { roundAmount } from './rounding.js';
+
+/**
+ * Limits of Regulation (EC) No 561/2006, per driver
+ */
+export const DRIVER_HOURS_RULES = {
+  /** Driving before a break is due */
+  maxContinuousDrivingHours: 4.5,
+  breakHours: 0.75,
+  dailyDrivingHours: 9,
+  /** Extended daily driving, allowed extendedDaysPerWeek times */
+  extendedDailyDrivingHours: 10,
+  extendedDaysPerWeek: 2,
+  regularDailyRestHours: 11,
+  /** Reduced daily rest, allowed reducedRestsPerWeek times (always 9 h for a double crew) */
+  reducedDailyRestHours: 9,
+  reducedRestsPerWeek: 3,
+  /** The daily rest must end within this period after the previous one */
+  singleCrewPeriodHours: 24,
+  doubleCrewPeriodHours: 30,
+  /** Driving days between weekly rests (6 × 9-10 h stays within 56 h a week) */
+  drivingDaysPerWeek: 6,
+  weeklyRestHours: 45,
+} as const;
+
+const EPSILON = 1e-6;
+
+export interface TransitPlanOptions {
+  crew: CrewType;
+  loadingHours: number;
+  unloadingHours: number;
+  /** Start of driving in origin local time (null plans without dates) */
+  departure: LocalDateTime | null;
+}
+
+type RouteLeg = { type: 'driving'; hours: number } | { type: 'ferry'; hours: number; description: string };
+
+/**
+ * Split the HERE route time into driving and the ferries placed on it
+ * Ferries without a position or sailing time stay part of the driving time.
+ */
+function toRouteLegs(routeFacts: RouteFacts, durationHours: number): RouteLeg[] {
+  const legs: RouteLeg[] = [];
+  let cursor = 0;
+
+  for (const ferry of routeFacts.infrastructure.ferryCrossings) {
+    if (ferry.departsAfterHours === null || ferry.durationHours === null) continue;
+    legs.push({ type: 'driving', hours: Math.max(ferry.departsAfterHours - cursor, 0) });
+    legs.push({ type: 'ferry', hours: ferry.durationHours, description: `Ferry ${ferry.name ?? '(unknown crossing)'}` });
+    cursor = Math.max(cursor, ferry.departsAfterHours + ferry.durationHours);
+  }
+
+  legs.push({ type: 'driving', hours: Math.max(durationHours - cursor, 0) });
+  return legs;
+}
+
+/**
+ * Plan the transit of a route
+ * @returns null when the route has no driving duration
+ */
+export function planTransit(routeFacts: RouteFacts, options: TransitPlanOptions): TransitPlan | null {
+  const durationHours = routeFacts.route.durationHours;
+  if (durationHours === null) return null;
+
+  const rules = DRIVER_HOURS_RULES;
+  const { crew, departure } = options;
+  const drivers = crew === 'double' ? 2 : 1;
+
+  let elapsed = 0;
+  let dayDriving = 0;
+  let sinceBreak = 0;
+  let dutyHours = 0;
+  let drivingDays = 0;
+  let extendedDaysUsed = 0;
+  let reducedRestsUsed = 0;
+  let current: TransitDay = { day: 1, drivingHours: 0, activities: [] };
+  const days: TransitDay[] = [current];
+
+  const dailyDrivingLimit = () =>
+    drivers * (extendedDaysUsed < rules.extendedDaysPerWeek ? rules.extendedDailyDrivingHours : rules.dailyDrivingHours);
+  const nextRestHours = () =>
+    crew === 'double' || reducedRestsUsed < rules.reducedRestsPerWeek
+      ? rules.reducedDailyRestHours
+      : rules.regularDailyRestHours;
+  // Time on duty left before the daily rest has to start
+  const dutyLimit = () =>
+    (crew === 'double' ? rules.doubleCrewPeriodHours : rules.singleCrewPeriodHours) - nextRestHours();
+  // Co-drivers take their breaks as passengers
+  const continuousLimit = () => (crew === 'double' ? Infinity : rules.maxContinuousDrivingHours);
+
+  const push = (type: TransitActivity['type'], hours: number, description: string) => {
+    current.activities.push({
+      type,
+      description,
+      hours: roundAmount(hours),
+      startsAfterHours: roundAmount(elapsed),
+      start: null,
+    });
+    elapsed += hours;
+  };
+
+  // Close the duty period after a rest of the given length
+  const endDay = (restHours: number) => {
+    if (dayDriving > drivers * rules.dailyDrivingHours + EPSILON) extendedDaysUsed++;
+    if (crew === 'single' && restHours < rules.regularDailyRestHours) reducedRestsUsed++;
+    drivingDays++;
+    dayDriving = 0;
+    sinceBreak = 0;
+    dutyHours = 0;
+    current = { day: current.day + 1, drivingHours: 0, activities: [] };
+    days.push(current);
+  };
+
+  const weeklyRestDue = () => drivingDays + 1 >= rules.drivingDaysPerWeek;
+
+  const takeRest = () => {
+    if (weeklyRestDue()) {
+      push('weeklyRest', rules.weeklyRestHours, 'Weekly rest');
+      endDay(rules.weeklyRestHours);
+      drivingDays = 0;
+      extendedDaysUsed = 0;
+      reducedRestsUsed = 0;
+      return;
+    }
+    const restHours = nextRestHours();
+    const reduced = crew === 'single' && restHours < rules.regularDailyRestHours;
+    push('dailyRest', restHours, reduced ? 'Reduced daily rest' : 'Daily rest');
+    endDay(restHours);
+  };
+
+  const work = (type: 'loading' | 'unloading', hours: number, description: string) => {
+    let remaining = hours;
+    while (remaining > EPSILON) {
+      const room = dutyLimit() - dutyHours;
+      if (room <= EPSILON) {
+        takeRest();
+        continue;
+      }
+      const chunk = Math.min(remaining, room);
+      push(type, chunk, description);
+      dutyHours += chunk;
+      remaining -= chunk;
+    }
+  };
+
+  const drive = (hours: number) => {
+    let remaining = hours;
+    while (remaining > EPSILON) {
+      const room = Math.min(dailyDrivingLimit() - dayDriving, dutyLimit() - dutyHours);
+      if (room <= EPSILON) {
+        takeRest();
+        continue;
+      }
+      const beforeBreak = continuousLimit() - sinceBreak;
+      if (beforeBreak <= EPSILON) {
+        push('break', rules.breakHours, 'Break');
+        sinceBreak = 0;
+        dutyHours += rules.breakHours;
+        continue;
+      }
+      const chunk = Math.min(remaining, room, beforeBreak);
+      push('driving', chunk, 'Driving');
+      current.drivingHours = roundAmount(dayDriving + chunk);
+      dayDriving += chunk;
+      sinceBreak += chunk;
+      dutyHours += chunk;
+      remaining -= chunk;
+    }
+  };
+
+  const sail = (hours: number, description: string) => {
+    if (hours + EPSILON >= nextRestHours() && !weeklyRestDue()) {
+      push('ferry', hours, `${description}, taken as daily rest`);
+      endDay(hours);
+      return;
+    }
+    push('ferry', hours, description);
+    dutyHours += hours;
+    if (hours + EPSILON >= rules.breakHours) sinceBreak = 0;
+  };
+
+  work('loading', options.loadingHours, 'Loading');
+  const loadedAfter = elapsed;
+  for (const leg of toRouteLegs(routeFacts, durationHours)) {
+    if (leg.type === 'ferry') {
+      sail(leg.hours, leg.description);
+    } else {
+      drive(leg.hours);
+    }
+  }
+  work('unloading', options.unloadingHours, 'Unloading');
+
+  // A day opened by a closing rest or ferry with nothing after it
+  if (current.activities.length === 0 && days.length > 1) days.pop();
+
+  if (!departure) {
+    return {
+      crew,
+      totalHours: roundAmount(elapsed),
+      departure: null,
+      timeZone: null,
+      estimatedDelivery: null,
+      deliveryTimeZone: null,
+      days,
+    };
+  }
+
+  // Date the timeline from the departure: the first route activity starts at it,
+  // loading (and any rest it needed) lies before it
+  const activities = days.flatMap((day) => day.activities);
+  const departsAfter = activities.find((a) => a.type === 'driving' || a.type === 'ferry')?.startsAfterHours
+    ?? loadedAfter;
+  const start = addHoursToLocalDateTime(departure, -departsAfter);
+  for (const activity of activities) {
+    activity.start = toIsoLocalDateTime(addHoursToLocalDateTime(start, activity.startsAfterHours));
+  }
+
+  const deliveryTimeZone = getTimeZoneForCountry(routeFacts.geography.destinationCountry) ?? departure.timeZone;
+  const delivery = toTimeZone(addHoursToLocalDateTime(start, elapsed), deliveryTimeZone);
+
+  return {
+    crew,
+    totalHours: roundAmount(elapsed),
+    departure: toIsoLocalDateTime(departure),
+    timeZone: departure.timeZone,
+    estimatedDelivery: toIsoLocalDateTime(delivery),
+    deliveryTimeZone,
+    days,
+  };
+}
@@ -5,29 +5,51 @@
 import type { VehicleProfileId } from '../here/vehicle-profiles.js';
 
 /**
- * Country groups for lane matching
+ * Name of a country group for lane matching (see country-groups.ts), e.g.
+ * PL, EU, SCANDI, or ANY for every country
  */
-export type CountryGroup = 'PL' | 'IT' | 'DE' | 'FR' | 'EU' | 'UK' | 'SCANDI' | 'BALTIC' | 'ANY';
+export type CountryGroup = string;
+
+/**
+ * Postal-code prefix range (inclusive), compared on the leading characters
+ * e.g. { from: '00', to: '49' } matches 00100 ... 49999; `to` defaults to `from`
+ */
+export interface PostalCodeRange {
+  from: string;
+  to?: string;
+}
 
 /**
  * Lane definition for origin/destination matching
+ * Optional postal-code ranges narrow a country group to regions (e.g. northern
+ * Italy); a lane with ranges only matches points whose postal code is known.
  */
 export interface Lane {
   origin: CountryGroup;
   destination: CountryGroup;
+  originPostalCodes?: PostalCodeRange[];
+  destinationPostalCodes?: PostalCodeRange[];
 }
 
 /**
  * Surcharge types
  */
-export type SurchargeType =
-  | 'ukFerry'
-  | 'frejusOrMontBlanc'
-  | 'alpsTunnel'
-  | 'alpineTunnel'
-  | 'weekend'
-  | 'unloadingAfter14'
-  | 'custom';
+export const SURCHARGE_TYPES = [
+  'ukFerry',
+  'frejusOrMontBlanc',
+  'alpsTunnel',
+  'alpineTunnel',
+  'weekend',
+  'unloadingAfter14',
+  'publicHoliday',
+  'adr',
+  'scandinavia',
+  'baltic',
+  'island',
+  'custom',
+] as const;
+
+export type SurchargeType = (typeof SURCHARGE_TYPES)[number];
 
 /**
  * Surcharge configuration
@@ -38,16 +60,146 @@ export interface SurchargeConfig {
   description: string;
 }
 
+/**
+ * Kinds of intermediate stops (waypoints that are not passed through)
+ */
+export const STOP_TYPES = ['loading', 'unloading'] as const;
+
+export type StopType = (typeof STOP_TYPES)[number];
+
+/**
+ * Intermediate loading or unloading stop, in route order
+ */
+export interface Stop {
+  type: StopType;
+  /** Address or place name shown in the line item */
+  label?: string;
+}
+
+/**
+ * Per-stop fees for multi-stop routes
+ */
+export interface StopFees {
+  /** Fee per loading stop */
+  loading: number;
+  /** Fee per unloading stop */
+  unloading: number;
+  /** Stops included in the price, counted in route order (default 0) */
+  freeStops?: number;
+}
+
+/**
+ * Demurrage: waiting time beyond the free allowance, charged per hour
+ */
+export interface DemurrageRates {
+  ratePerHour: number;
+  /** Waiting hours at loading included in the price */
+  freeLoadingHours: number;
+  /** Waiting hours at unloading included in the price */
+  freeUnloadingHours: number;
+}
+
+/**
+ * Direction final prices are rounded in
+ */
+export const ROUNDING_MODES = ['nearest', 'up', 'down'] as const;
+
+export type RoundingMode = (typeof ROUNDING_MODES)[number];
+
+/**
+ * Sales rounding of the final price, e.g. up to whole tens of EUR
+ */
+export interface RoundingPolicy {
+  mode: RoundingMode;
+  /** Price step in EUR (10 for whole tens, 100 for whole hundreds) */
+  step: number;
+  /** Amount every price ends on within its step, e.g. 90 with step 100 for 1,290 (default 0) */
+  ending?: number;
+}
+
+/**
+ * Per-km rate band; bands are listed in ascending order and are contiguous
+ * (each band starts where the previous one's upToKm ends, the first at 0 km)
+ */
+export interface DistanceBand {
+  /** Upper bound of the band in km (inclusive); omitted on the last, open-ended band */
+  upToKm?: number;
+  /** Rate per kilometer within this band */
+  perKmRate: number;
+}
+
+/**
+ * Distance-band pricing of the route km
+ * - marginal: each band's km are charged at that band's rate (like tax brackets)
+ * - wholeDistance: the band the total distance falls into prices all km
+ */
+export interface DistanceBandPricing {
+  mode: 'marginal' | 'wholeDistance';
+  bands: DistanceBand[];
+}
+
+/**
+ * How HERE toll costs (RouteFacts.infrastructure.tollCostEstimate) are billed
+ * - included: tolls are covered by the per-km rate; shown as a zero line
+ * - passThrough: toll estimate is billed at cost, plus optional markupPercent
+ */
+export interface TollPolicy {
+  mode: 'included' | 'passThrough';
+  /** Markup on the toll estimate in percent (passThrough only, e.g. 10 = +10%) */
+  markupPercent?: number;
+}
+
+/**
+ * Ferries billed per crossing from the ferry crossing registry
+ * Identified crossings replace the flat ukFerry surcharge; routes without an
+ * identified crossing keep it. Le Shuttle through the Channel Tunnel is billed
+ * the same way with the same markup.
+ */
+export interface FerryPolicy {
+  /** Markup on the registry ticket cost in percent (e.g. 10 = +10%) */
+  markupPercent?: number;
+}
+
+/**
+ * Contract fuel clause (diesel floater)
+ * The fuel surcharge percentage is the relative change of the diesel index
+ * against basePricePerLitre, weighted by sensitivityPercent.
+ */
+export interface FuelClause {
+  /** Diesel price (EUR/l) the per-km rate was agreed at */
+  basePricePerLitre: number;
+  /** Share of the freight price attributable to fuel in percent (e.g. 30) */
+  sensitivityPercent: number;
+}
+
+/**
+ * Minimum-share rules for partial loads (all optional; pro rata when omitted)
+ */
+export interface PartialLoadRule {
+  /** Lowest share of the full-vehicle price billed, in percent */
+  minSharePercent?: number;
+  /** Shipments are billed as at least this many pallets */
+  minPallets?: number;
+}
+
 /**
  * Market model configuration for a specific lane and vehicle
  */
 export interface MarketModel {
   id: string;
   name: string;
+  /** Rate version; versions of one id differ by validity period (default 1) */
+  version?: number;
+  /** First day this version applies (YYYY-MM-DD, inclusive; open start when omitted) */
+  validFrom?: string;
+  /** Last day this version applies (YYYY-MM-DD, inclusive; open end when omitted) */
+  validTo?: string;
   vehicleProfileId: VehicleProfileId;
   lane: Lane;
-  /** Rate per kilometer */
+  /** Rate per kilometer (route km without distance bands; always used for empty km) */
   perKmRate: number;
+  /** Tiered per-km rates replacing perKmRate for route km */
+  distanceBands?: DistanceBandPricing;
   /** Fixed empty kilometers to add (e.g., 200 for repositioning) */
   emptyKmFlat?: number;
   /** Fixed empty fee (alternative to emptyKmFlat) */
@@ -58,6 +210,93 @@ export interface MarketModel {
   ukMin?: number;
   /** Available surcharges for this model */
   surcharges?: SurchargeConfig[];
+  /** Toll billing policy (no toll line item when omitted) */
+  tollPolicy?: TollPolicy;
+  /** Per-crossing ferry billing (ferries only via surcharges when omitted) */
+  ferryPolicy?: FerryPolicy;
+  /** Indexed fuel surcharge clause (no fuel line item when omitted) */
+  fuelClause?: FuelClause;
+  /** Minimum-share rules for partial loads (pro rata when omitted) */
+  partialLoad?: PartialLoadRule;
+  /** Fees for intermediate stops (stops are not charged when omitted) */
+  stopFees?: StopFees;
+  /** Waiting-time rates (waiting time is not charged when omitted) */
+  demurrage?: DemurrageRates;
+  /** Final price rounding (the global default policy applies when omitted) */
+  rounding?: RoundingPolicy;
+}
+
+/**
+ * Contract rate card of a key account
+ * Its models take precedence over market models for the lanes they cover.
+ */
+export interface CustomerRateCard {
+  customerId: string;
+  customerName?: string;
+  /** Contract models, same structure and matching rules as market models */
+  models: MarketModel[];
+}
+
+/**
+ * Which rates priced a quote
+ */
+export interface PricingSource {
+  type: 'contract' | 'market';
+  /** Customer the quote was requested for (null without customerId) */
+  customerId: string | null;
+  /** Why a market model was used although a customerId was given */
+  fallbackReason?: string;
+}
+
+/**
+ * Result of matching one side (origin or destination) of a candidate's lane
+ */
+export interface LaneSideMatch {
+  /** Country group of the lane */
+  group: CountryGroup;
+  /** Country is a member of the group */
+  countryMatched: boolean;
+  /** Postal code lies in the lane's ranges (true when the lane has none) */
+  postalCodeMatched: boolean;
+}
+
+/**
+ * A candidate model and why it was selected or rejected
+ */
+export interface CandidateModel {
+  modelId: string;
+  modelName: string;
+  modelVersion: number;
+  source: PricingSource['type'];
+  validOnPricingDate: boolean;
+  origin: LaneSideMatch;
+  destination: LaneSideMatch;
+  selected: boolean;
+  /** Empty for the selected model */
+  rejectionReasons: string[];
+}
+
+/**
+ * Route point as seen by model selection
+ */
+export interface SelectionPoint {
+  country: string | null;
+  postalCode: string | null;
+  /** Country groups the country belongs to */
+  groups: string[];
+}
+
+/**
+ * Explanation of model selection: every candidate for the vehicle in
+ * evaluation order (contract models first, then market models)
+ */
+export interface ModelSelection {
+  vehicleProfileId: VehicleProfileId;
+  pricingDate: string;
+  customerId: string | null;
+  origin: SelectionPoint;
+  destination: SelectionPoint;
+  candidates: CandidateModel[];
 }
 
 /**
@@ -67,6 +306,246 @@ export interface SurchargeLineItem {
   type: SurchargeType;
   description: string;
   amount: number;
+  /** Why the surcharge applied (e.g. local delivery time), when not self-evident */
+  reason?: string;
+}
+
+/**
+ * Toll line item in pricing result
+ */
+export interface TollLineItem {
+  mode: TollPolicy['mode'];
+  description: string;
+  /** HERE toll estimate in EUR (null when unavailable) */
+  costEstimate: number | null;
+  /** Markup applied on top of the estimate in percent */
+  markupPercent: number;
+  /** Amount billed for tolls (0 when included or unavailable) */
+  amount: number;
+}
+
+/**
+ * Ferry crossing line item in pricing result
+ */
+export interface FerryLineItem {
+  /** Ferry crossing registry id */
+  crossingId: string;
+  description: string;
+  /** Registry ticket cost for the model's vehicle in EUR */
+  cost: number;
+  markupPercent: number;
+  amount: number;
+}
+
+/**
+ * Le Shuttle (Channel Tunnel) line item in pricing result
+ */
+export interface ChannelTunnelLineItem {
+  description: string;
+  /** Shuttle fare for the model's vehicle in EUR */
+  cost: number;
+  markupPercent: number;
+  amount: number;
+}
+
+/**
+ * Indexed fuel surcharge line item in pricing result
+ */
+export interface FuelLineItem {
+  description: string;
+  /** validFrom of the index value used (null when no value was available) */
+  indexDate: string | null;
+  /** Diesel index price used (EUR/l) */
+  indexPricePerLitre: number | null;
+  basePricePerLitre: number;
+  sensitivityPercent: number;
+  /** Surcharge percentage on km and empties charge (negative when diesel is cheaper) */
+  percent: number;
+  amount: number;
+}
+
+/**
+ * Km charge of one distance band
+ */
+export interface KmBandLineItem {
+  description: string;
+  /** Band bounds in km (toKm null for the open-ended band) */
+  fromKm: number;
+  toKm: number | null;
+  /** Route km charged in this band */
+  km: number;
+  perKmRate: number;
+  amount: number;
+}
+
+/**
+ * Fee of one intermediate stop
+ */
+export interface StopLineItem {
+  /** Position among the route's stops, starting at 1 */
+  stopNumber: number;
+  type: StopType;
+  description: string;
+  /** Covered by the model's free-stop allowance */
+  free: boolean;
+  amount: number;
+}
+
+/**
+ * Waiting time charged beyond the free allowance
+ */
+export interface WaitingTimeLineItem {
+  description: string;
+  loadingHours: number;
+  unloadingHours: number;
+  freeLoadingHours: number;
+  freeUnloadingHours: number;
+  /** Hours beyond the allowance at loading plus at unloading */
+  chargeableHours: number;
+  ratePerHour: number;
+  amount: number;
+}
+
+/**
+ * Difference between the calculated price and the rounded final price
+ */
+export interface RoundingLineItem {
+  description: string;
+  mode: RoundingMode;
+  step: number;
+  ending: number;
+  /** Price before rounding */
+  unroundedPrice: number;
+  amount: number;
+}
+
+/**
+ * Partial-load reduction of the full-vehicle price
+ */
+export interface PartialLoadLineItem {
+  description: string;
+  pallets: number | null;
+  loadingMetres: number | null;
+  weightKg: number | null;
+  /** Share of the vehicle used: the highest of the pallet, loading-metre and weight shares */
+  sharePercent: number;
+  /** Share billed after the model's minimum-share rules */
+  billedSharePercent: number;
+  /** Price of the whole vehicle the share is taken of */
+  fullVehiclePrice: number;
+  /** Reduction from the full-vehicle price (zero or negative) */
+  amount: number;
+}
+
+/**
+ * Line item breakdown of a pricing result
+ */
+export interface PricingLineItems {
+  /** Base km charge */
+  kmCharge: number;
+  /** kmCharge per distance band (null when the model has no distance bands) */
+  kmBands: KmBandLineItem[] | null;
+  /** Empty km or fee charge */
+  emptiesCharge: number;
+  /** Applied surcharges */
+  surcharges: SurchargeLineItem[];
+  /** One line per intermediate stop (null when the model has no stop fees) */
+  stops: StopLineItem[] | null;
+  /** Toll line per the model's toll policy (null when the model has none) */
+  tolls: TollLineItem | null;
+  /** One line per identified ferry crossing (null when the model has no ferry policy) */
+  ferries: FerryLineItem[] | null;
+  /** Le Shuttle fare when the route takes the Channel Tunnel (null otherwise or without a ferry policy) */
+  channelTunnel: ChannelTunnelLineItem | null;
+  /** Indexed fuel surcharge (null when the model has no fuel clause) */
+  fuel: FuelLineItem | null;
+  /** Minimum adjustment if applied (positive means price was raised) */
+  minimumAdjustment: number | null;
+  /** Partial-load reduction (null for full loads) */
+  partialLoad: PartialLoadLineItem | null;
+  /** Demurrage for expected waiting time (null when the model has no demurrage rates) */
+  waitingTime: WaitingTimeLineItem | null;
+  /** Sales rounding of the final price (null when no rounding policy applies) */
+  rounding: RoundingLineItem | null;
+}
+
+/**
+ * Crew of the vehicle: one driver, or two drivers taking turns (multi-manning)
+ */
+export const CREW_TYPES = ['single', 'double'] as const;
+
+export type CrewType = (typeof CREW_TYPES)[number];
+
+/**
+ * Step of a transit plan
+ */
+export interface TransitActivity {
+  type: 'loading' | 'driving' | 'break' | 'ferry' | 'dailyRest' | 'weeklyRest' | 'unloading';
+  /** e.g. "Reduced daily rest" or the ferry crossing */
+  description: string;
+  hours: number;
+  /** Hours since loading started */
+  startsAfterHours: number;
+  /** Local start time at the origin (null without a departure time) */
+  start: string | null;
+}
+
+/**
+ * One duty period of a transit plan, closed by the daily or weekly rest that follows it
+ */
+export interface TransitDay {
+  /** 1-based day number */
+  day: number;
+  drivingHours: number;
+  activities: TransitActivity[];
+}
+
+/**
+ * Transit timeline under the EU 561/2006 driving and rest rules
+ */
+export interface TransitPlan {
+  crew: CrewType;
+  /** Hours from the start of loading to the end of unloading */
+  totalHours: number;
+  /**
+   * Start of driving in origin local time: departureTime, or pricingDateTime
+   * without one (null without either)
+   */
+  departure: string | null;
+  /** IANA time zone of departure and the activity start times (null without a departure) */
+  timeZone: string | null;
+  /** End of unloading in destination local time (null without a departure) */
+  estimatedDelivery: string | null;
+  /** IANA time zone of estimatedDelivery (null without a departure) */
+  deliveryTimeZone: string | null;
+  days: TransitDay[];
+}
+
+/**
+ * Expected transit time: driving plus loading and unloading time
+ */
+export interface TransitTime {
+  /** RouteFacts.route.durationHours (null when HERE returned no duration) */
+  drivingHours: number | null;
+  loadingHours: number;
+  unloadingHours: number;
+  /** Sum of the above (null without a driving duration) */
+  totalHours: number | null;
+  /** Plan with the breaks and rests drivers must take (null without a driving duration) */
+  plan: TransitPlan | null;
+}
+
+/**
+ * Quote amounts converted from EUR to the requested currency
+ */
+export interface ConvertedPrice {
+  currency: string;
+  /** Units of currency per 1 EUR */
+  rate: number;
+  /** validFrom of the exchange rate used */
+  rateDate: string;
+  lineItems: PricingLineItems;
+  finalPrice: number;
 }
 
 /**
@@ -76,160 +555,171 @@ export interface PricingResult {
   /** Model used for pricing */
   modelId: string;
   modelName: string;
+  /** Version of the model used, to explain the quote after rates change */
+  modelVersion: number;
+  /** Contract rate card or generic market model */
+  source: PricingSource;
+  /** Date the model version was selected for (pricingDateTime local date, or today) */
+  pricingDate: string;
   /** Distance used for calculation */
   distanceKm: number;
   /** Line items breakdown */
-  lineItems: {
-    /** Base km charge */
-    kmCharge: number;
-    /** Empty km or fee charge */
-    emptiesCharge: number;
-    /** Applied surcharges */
-    surcharges: SurchargeLineItem[];
-    /** Minimum adjustment if applied (positive means price was raised) */
-    minimumAdjustment: number | null;
-  };
+  lineItems: PricingLineItems;
   /** Final calculated price */
   finalPrice: number;
-  /** Currency */
+  /** Currency of lineItems and finalPrice (always the EUR base) */
   currency: string;
+  /** Amounts in the requested quote currency (null when quoting in EUR) */
+  converted: ConvertedPrice | null;
+  /** Expected transit time including loading and unloading */
+  transitTime: TransitTime;
+  /** Operational warnings for sales (e.g. delivery on a public holiday) */
+  warnings: string[];
+  /** How the model was chosen (set by calculateQuote) */
+  modelSelection?: ModelSelection;
 }
 
 /**
- * Quote request options
+ * Internal operating cost assumptions of a vehicle profile (EUR)
  */
-export interface QuoteOptions {
-  /** ISO datetime for pricing context */
-  pricingDateTime?: string;
-  /** Whether unloading is after 14:00 */
-  unloadingAfter14?: boolean;
-  /** Whether it's a weekend delivery */
-  isWeekend?: boolean;
+export interface VehicleCostModel {
+  vehicleProfileId: VehicleProfileId;
+  /** Diesel consumption in litres per 100 km */
+  fuelLitresPer100Km: number;
+  /** Diesel price used when the fuel index has no value for the date */
+  defaultFuelPricePerLitre: number;
+  /** Driver cost per driving hour */
+  driverCostPerHour: number;
+  /** Vehicle fixed cost (lease, insurance, maintenance) per started day */
+  fixedCostPerDay: number;
+  /** Driving hours per day used to derive the number of days */
+  drivingHoursPerDay: number;
+  /** Cost of one ferry crossing not in the ferry crossing registry */
+  ferryCostPerCrossing: number;
 }
 
 /**
- * Country code to group mapping
- */
-export const COUNTRY_GROUP_MAP: Record<string, CountryGroup> = {
-  // Poland
-  PL: 'PL',
-  POL: 'PL',
-
-  // Italy
-  IT: 'IT',
-  ITA: 'IT',
-
-  // Germany
-  DE: 'DE',
-  DEU: 'DE',
-
-  // France
-  FR: 'FR',
-  FRA: 'FR',
-
-  // UK
-  GB: 'UK',
-  GBR: 'UK',
-  UK: 'UK',
-
-  // Scandinavia
-  SE: 'SCANDI',
-  SWE: 'SCANDI',
-  NO: 'SCANDI',
-  NOR: 'SCANDI',
-  DK: 'SCANDI',
-  DNK: 'SCANDI',
-  FI: 'SCANDI',
-  FIN: 'SCANDI',
-
-  // Baltic
-  LT: 'BALTIC',
-  LTU: 'BALTIC',
-  LV: 'BALTIC',
-  LVA: 'BALTIC',
-  EE: 'BALTIC',
-  EST: 'BALTIC',
-};
-
-/**
- * EU country codes (for EU group matching)
- */
-export const EU_COUNTRIES = new Set([
-  'AT', 'AUT', // Austria
-  'BE', 'BEL', // Belgium
-  'BG', 'BGR', // Bulgaria
-  'HR', 'HRV', // Croatia
-  'CY', 'CYP', // Cyprus
-  'CZ', 'CZE', // Czech Republic
-  'DK', 'DNK', // Denmark
-  'EE', 'EST', // Estonia
-  'FI', 'FIN', // Finland
-  'FR', 'FRA', // France
-  'DE', 'DEU', // Germany
-  'GR', 'GRC', // Greece
-  'HU', 'HUN', // Hungary
-  'IE', 'IRL', // Ireland
-  'IT', 'ITA', // Italy
-  'LV', 'LVA', // Latvia
-  'LT', 'LTU', // Lithuania
-  'LU', 'LUX', // Luxembourg
-  'MT', 'MLT', // Malta
-  'NL', 'NLD', // Netherlands
-  'PL', 'POL', // Poland
-  'PT', 'PRT', // Portugal
-  'RO', 'ROU', // Romania
-  'SK', 'SVK', // Slovakia
-  'SI', 'SVN', // Slovenia
-  'ES', 'ESP', // Spain
-  'SE', 'SWE', // Sweden
-]);
+ * Internal cost breakdown of a route (EUR, rounded to cents)
+ */
+export interface CostBreakdown {
+  fuel: {
+    litres: number;
+    pricePerLitre: number;
+    /** 'index' when priced from the diesel index, 'default' otherwise */
+    priceSource: 'index' | 'default';
+    amount: number;
+  };
+  driver: { hours: number; amount: number };
+  vehicle: { days: number; amount: number };
+  tolls: number;
+  ferry: { crossings: number; amount: number };
+  /** Le Shuttle fare (0 when the route does not take the Channel Tunnel) */
+  channelTunnel: number;
+  total: number;
+}
 
 /**
- * Get country group for a country code
+ * Cost-plus view of a quote: internal cost against the market price (EUR)
  */
-export function getCountryGroup(countryCode: string | null): CountryGroup | null {
-  if (!countryCode) return null;
-
-  const normalized = countryCode.toUpperCase();
-
-  // Check specific group first
-  if (COUNTRY_GROUP_MAP[normalized]) {
-    return COUNTRY_GROUP_MAP[normalized];
-  }
-
-  // Check if EU
-  if (EU_COUNTRIES.has(normalized)) {
-    return 'EU';
-  }
-
-  return null;
+export interface MarginAnalysis {
+  vehicleProfileId: VehicleProfileId;
+  cost: CostBreakdown;
+  /** Market price of the quote (finalPrice) */
+  revenue: number;
+  margin: number;
+  /** Share of the route cost allocated to the quote (100 for full loads) */
+  costSharePercent: number;
+  /** Route cost times costSharePercent */
+  allocatedCost: number;
+  /** Margin as a share of revenue (null for a zero price) */
+  marginPercent: number | null;
+  /** Assumptions that make the cost less reliable (e.g. missing duration) */
+  warnings: string[];
 }
 
 /**
- * UK country code variants (GB is the ISO alpha-2 standard)
+ * Partial-load shipment (at least one dimension required)
  */
-const UK_CODES = new Set(['GB', 'GBR', 'UK']);
+export interface Shipment {
+  /** Euro pallets */
+  pallets?: number;
+  loadingMetres?: number;
+  weightKg?: number;
+}
 
 /**
- * Check if a country matches a group
- *
- * Note: the 'EU' lane group means "European coverage" for pricing purposes and
- * intentionally also matches UK codes. Every EU-lane market model carries a
- * ukFerry surcharge and/or ukMin, which handle the UK-specific pricing; more
- * specific UK lanes (e.g. solo-it-uk) are listed before EU lanes and win first.
+ * Quote request options
  */
-export function countryMatchesGroup(countryCode: string | null, group: CountryGroup): boolean {
-  if (!countryCode) return group === 'ANY';
-  if (group === 'ANY') return true;
+export interface QuoteOptions {
+  /**
+   * ISO datetime for pricing context (delivery/unloading time)
+   * With an offset it is converted to the destination country's local time;
+   * without an offset it is taken as destination local time.
+   */
+  pricingDateTime?: string;
+  /**
+   * ISO datetime the vehicle leaves the origin, after loading; the transit
+   * plan is laid out around it to estimate the delivery time.
+   * Without an offset it is taken as origin local time.
+   */
+  departureTime?: string;
+  /** Whether unloading is after 14:00 (derived from pricingDateTime if omitted) */
+  unloadingAfter14?: boolean;
+  /** Whether it's a weekend delivery (derived from pricingDateTime if omitted) */
+  isWeekend?: boolean;
+  /** ISO 4217 quote currency (default EUR); converted at the rate valid on the pricing date */
+  currency?: string;
+  /** Customer whose contract rate card is preferred over market models */
+  customerId?: string;
+  /** Partial load priced as a share of the vehicle (full vehicle when omitted) */
+  shipment?: Shipment;
+  /** Intermediate loading/unloading stops in route order (pass-through waypoints excluded) */
+  stops?: Stop[];
+  /** Expected hours spent loading, all loading sites together (default 0) */
+  loadingHours?: number;
+  /** Expected hours spent unloading, all unloading sites together (default 0) */
+  unloadingHours?: number;
+  /** Crew the transit plan is made for (default single) */
+  crew?: CrewType;
+}
+
+/** Country prefixes written in front of postal codes: ISO alpha-2 and vehicle registration codes */
+const POSTAL_COUNTRY_PREFIXES = new Set([
+  'A', 'AT', 'B', 'BE', 'BG', 'CH', 'CZ', 'D', 'DE', 'DK', 'E', 'EE', 'ES', 'F', 'FI', 'FR',
+  'GR', 'H', 'HR', 'HU', 'I', 'IT', 'L', 'LT', 'LU', 'LV', 'N', 'NL', 'NO', 'P', 'PL', 'PT',
+  'RO', 'S', 'SE', 'SI', 'SK', 'SLO',
+]);
 
-  const normalized = countryCode.toUpperCase();
-  const countryGroup = getCountryGroup(countryCode);
+/**
+ * Normalize a postal code for prefix comparison ("PL 60-101" style input -> "60101")
+ * A leading prefix is only dropped when it is a known country prefix followed by a
+ * separator and a digit, so letter-led codes such as "VLT 1117" or "SW1A 1AA" stay intact.
+ */
+function normalizePostalCode(postalCode: string): string {
+  const code = postalCode.toUpperCase().trim();
+  const prefix = /^([A-Z]{1,3})[\s-]+(?=\d)/.exec(code);
+  const withoutCountry =
+    prefix && POSTAL_COUNTRY_PREFIXES.has(prefix[1]) ? code.slice(prefix[0].length) : code;
+  return withoutCountry.replace(/[^A-Z0-9]/g, '');
+}
 
-  // Direct match
-  if (countryGroup === group) return true;
+/**
+ * Check if a postal code falls into any of the prefix ranges
+ * No ranges means no postal restriction; an unknown postal code never matches ranges.
+ */
+export function postalCodeMatchesRanges(
+  postalCode: string | null,
+  ranges: PostalCodeRange[] | undefined
+): boolean {
+  if (!ranges || ranges.length === 0) return true;
+  if (!postalCode) return false;
 
-  // EU group includes all EU countries plus UK (see note above)
-  if (group === 'EU' && (EU_COUNTRIES.has(normalized) || UK_CODES.has(normalized))) return true;
+  const code = normalizePostalCode(postalCode);
 
-  return false;
+  return ranges.some((range) => {
+    const from = normalizePostalCode(range.from);
+    const to = normalizePostalCode(range.to ?? range.from);
+    if (code.length < Math.max(from.length, to.length)) return false;
+    return code.slice(0, from.length) >= from && code.slice(0, to.length) <= to;
+  });
 }
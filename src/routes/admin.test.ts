@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { buildApp } from '../app.js';
+import {
+  getFuelIndex,
+  setFuelIndex,
+  getExchangeRates,
+  setExchangeRates,
+} from '../pricing/index.js';
+
+const ADMIN_TOKEN = 'test-admin-token';
+
+describe('Admin routes', () => {
+  let dir: string;
+  let fuelIndexPath: string;
+  let exchangeRatesPath: string;
+  let app: ReturnType<typeof buildApp>;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'admin-routes-'));
+    fuelIndexPath = path.join(dir, 'fuel-index.json');
+    exchangeRatesPath = path.join(dir, 'exchange-rates.json');
+    app = buildApp({
+      adminToken: ADMIN_TOKEN,
+      fuelIndexPath,
+      exchangeRatesPath,
+      serveFrontend: false,
+    });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    setFuelIndex([]);
+    setExchangeRates([]);
+  });
+
+  describe('authorization', () => {
+    it('rejects requests without a token', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/admin/fuel-index' });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json().error.code).toBe('UNAUTHORIZED');
+    });
+
+    it('rejects requests with a wrong token', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/admin/fuel-index',
+        headers: { authorization: 'Bearer nope' },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('rejects a wrong token of the same length', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/admin/fuel-index',
+        headers: { authorization: `Bearer ${'x'.repeat(ADMIN_TOKEN.length)}` },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('does not register admin routes without an admin token', async () => {
+      const plainApp = buildApp({ serveFrontend: false });
+      await plainApp.ready();
+
+      const response = await plainApp.inject({
+        method: 'GET',
+        url: '/api/admin/fuel-index',
+        headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+      await plainApp.close();
+    });
+  });
+
+  describe('fuel index', () => {
+    it('uploads index values and persists them', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/admin/fuel-index',
+        headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+        payload: {
+          entries: [
+            { validFrom: '2026-10-12', pricePerLitre: 1.62 },
+            { validFrom: '2026-10-05', pricePerLitre: 1.58 },
+          ],
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().entries).toEqual([
+        { validFrom: '2026-10-05', pricePerLitre: 1.58 },
+        { validFrom: '2026-10-12', pricePerLitre: 1.62 },
+      ]);
+      expect(getFuelIndex()).toHaveLength(2);
+      expect(JSON.parse(await readFile(fuelIndexPath, 'utf8'))).toHaveLength(2);
+
+      const listResponse = await app.inject({
+        method: 'GET',
+        url: '/api/admin/fuel-index',
+        headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      });
+      expect(listResponse.json().entries).toHaveLength(2);
+    });
+
+    it('returns 400 for invalid index values', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/admin/fuel-index',
+        headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+        payload: { entries: [{ validFrom: '2026-13-01', pricePerLitre: 0 }] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = response.json();
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+      expect(body.error.details.map((d: { path: string }) => d.path)).toEqual([
+        'entries.0.validFrom',
+        'entries.0.pricePerLitre',
+      ]);
+      expect(getFuelIndex()).toEqual([]);
+    });
+  });
+
+  describe('exchange rates', () => {
+    it('uploads rates and persists them', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/admin/exchange-rates',
+        headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+        payload: {
+          rates: [
+            { currency: 'PLN', validFrom: '2026-10-01', ratePerEur: 4.25 },
+            { currency: 'GBP', validFrom: '2026-10-01', ratePerEur: 0.86 },
+          ],
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().rates).toHaveLength(2);
+      expect(getExchangeRates()).toHaveLength(2);
+      expect(JSON.parse(await readFile(exchangeRatesPath, 'utf8'))).toHaveLength(2);
+    });
+
+    it('returns 400 for invalid currency codes', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/admin/exchange-rates',
+        headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+        payload: { rates: [{ currency: 'pln', validFrom: '2026-10-01', ratePerEur: 4.25 }] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.details[0].path).toBe('rates.0.currency');
+    });
+  });
+});
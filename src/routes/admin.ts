@@ -0,0 +1,157 @@
+/**
+ * Admin endpoints for pricing reference data
+ * All routes require `Authorization: Bearer <ADMIN_TOKEN>`.
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import { z } from 'zod/v4';
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  FuelIndexEntrySchema,
+  getFuelIndex,
+  upsertFuelIndexEntries,
+  saveFuelIndexFile,
+  ExchangeRateEntrySchema,
+  getExchangeRates,
+  upsertExchangeRates,
+  saveExchangeRatesFile,
+  type FuelIndexEntry,
+  type ExchangeRateEntry,
+} from '../pricing/index.js';
+import { ApiError, toApiError, type ApiErrorResponse } from '../errors.js';
+
+/**
+ * Fuel index upload body: new or corrected index values
+ */
+const FuelIndexUploadSchema = z.object({
+  entries: z.array(FuelIndexEntrySchema).min(1),
+});
+
+/**
+ * Exchange-rate upload body: new or corrected EUR -> currency rates
+ */
+const ExchangeRatesUploadSchema = z.object({
+  rates: z.array(ExchangeRateEntrySchema).min(1),
+});
+
+export interface AdminRoutesOptions {
+  /** Bearer token admins must present */
+  adminToken: string;
+  /** File the fuel index is persisted to after uploads (in-memory only when omitted) */
+  fuelIndexPath?: string;
+  /** File the exchange rates are persisted to after uploads (in-memory only when omitted) */
+  exchangeRatesPath?: string;
+}
+
+interface FuelIndexResponse {
+  entries: readonly FuelIndexEntry[];
+}
+
+interface ExchangeRatesResponse {
+  rates: readonly ExchangeRateEntry[];
+}
+
+/**
+ * Build a validation error response from zod issues
+ */
+function validationErrorResponse(
+  reply: FastifyReply,
+  issues: z.core.$ZodIssue[]
+): ApiErrorResponse {
+  const validationError = new ApiError(
+    'VALIDATION_ERROR',
+    'Invalid request body',
+    400,
+    issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }))
+  );
+  reply.status(400);
+  return validationError.toResponse();
+}
+
+/**
+ * Check an Authorization header against the admin token in constant time
+ */
+function isAdminAuthorized(authorization: string | undefined, adminToken: string): boolean {
+  const actual = Buffer.from(authorization ?? '');
+  const expected = Buffer.from(`Bearer ${adminToken}`);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Register admin routes
+ */
+export function registerAdminRoutes(app: FastifyInstance, options: AdminRoutesOptions) {
+  app.register(async (admin) => {
+    admin.addHook('onRequest', async (request, reply) => {
+      if (!isAdminAuthorized(request.headers.authorization, options.adminToken)) {
+        const error = new ApiError('UNAUTHORIZED', 'Valid admin token required', 401);
+        return reply.status(401).send(error.toResponse());
+      }
+    });
+
+    admin.get('/api/admin/fuel-index', async (): Promise<FuelIndexResponse> => {
+      return { entries: getFuelIndex() };
+    });
+
+    admin.post(
+      '/api/admin/fuel-index',
+      async (
+        request: FastifyRequest,
+        reply: FastifyReply
+      ): Promise<FuelIndexResponse | ApiErrorResponse> => {
+        const parseResult = FuelIndexUploadSchema.safeParse(request.body);
+        if (!parseResult.success) {
+          return validationErrorResponse(reply, parseResult.error.issues);
+        }
+
+        try {
+          const entries = upsertFuelIndexEntries(parseResult.data.entries);
+          if (options.fuelIndexPath) {
+            await saveFuelIndexFile(options.fuelIndexPath);
+          }
+          request.log.info({ uploaded: parseResult.data.entries.length }, 'Fuel index updated');
+          return { entries };
+        } catch (error) {
+          const apiError = toApiError(error);
+          request.log.error({ error: apiError.message }, 'Fuel index update failed');
+          reply.status(apiError.statusCode);
+          return apiError.toResponse();
+        }
+      }
+    );
+
+    admin.get('/api/admin/exchange-rates', async (): Promise<ExchangeRatesResponse> => {
+      return { rates: getExchangeRates() };
+    });
+
+    admin.post(
+      '/api/admin/exchange-rates',
+      async (
+        request: FastifyRequest,
+        reply: FastifyReply
+      ): Promise<ExchangeRatesResponse | ApiErrorResponse> => {
+        const parseResult = ExchangeRatesUploadSchema.safeParse(request.body);
+        if (!parseResult.success) {
+          return validationErrorResponse(reply, parseResult.error.issues);
+        }
+
+        try {
+          const rates = upsertExchangeRates(parseResult.data.rates);
+          if (options.exchangeRatesPath) {
+            await saveExchangeRatesFile(options.exchangeRatesPath);
+          }
+          request.log.info({ uploaded: parseResult.data.rates.length }, 'Exchange rates updated');
+          return { rates };
+        } catch (error) {
+          const apiError = toApiError(error);
+          request.log.error({ error: apiError.message }, 'Exchange rates update failed');
+          reply.status(apiError.statusCode);
+          return apiError.toResponse();
+        }
+      }
+    );
+  });
+}
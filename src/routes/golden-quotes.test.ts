@@ -12,6 +12,8 @@
  *   C. IT -> UK   (Verona -> London)                    -> solo-it-uk + UK surcharge + minimum
  *   D. IT -> FR   (Turin -> via Bardonecchia/Modane -> Chambéry) -> Fréjus detection
  *   E. Robustness (missing optional HERE fields, upstream errors)
+ *   F. PL -> SE   (Poznań -> Malmö via Świnoujście – Ystad) -> ferry + Scandinavia surcharge
+ *   G. IT -> IE   (Verona -> Dublin via Cherbourg – Rosslare) -> ferry + island surcharge
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { buildApp } from '../app.js';
@@ -31,6 +33,8 @@ const GEOCODE_FIXTURES: Record<string, { lat: number; lng: number; countryCode:
   'Bardonecchia, Italy': { lat: 45.0787, lng: 6.704, countryCode: 'ITA', label: 'Bardonecchia, Italy' },
   'Modane, France': { lat: 45.199, lng: 6.654, countryCode: 'FRA', label: 'Modane, France' },
   'Chambéry, France': { lat: 45.5646, lng: 5.9178, countryCode: 'FRA', label: 'Chambéry, France' },
+  'Malmö, Sweden': { lat: 55.605, lng: 13.0038, countryCode: 'SWE', label: 'Malmö, Sweden' },
+  'Dublin, Ireland': { lat: 53.3498, lng: -6.2603, countryCode: 'IRL', label: 'Dublin, Ireland' },
 };
 
 /** Spec-compliant HERE polyline for Turin -> Bardonecchia -> Fréjus tunnel -> Modane -> Chambéry */
@@ -52,14 +56,17 @@ interface MockSectionOptions {
   ferry?: boolean;
   omitTolls?: boolean;
   omitActions?: boolean;
+  /** Section endpoints (ferry sections are matched to the registry by them) */
+  from?: { lat: number; lng: number };
+  to?: { lat: number; lng: number };
 }
 
 function buildSection(opts: MockSectionOptions) {
   const section: Record<string, unknown> = {
     id: `section-${Math.abs(opts.lengthMeters)}`,
     type: opts.ferry ? 'ferry' : 'vehicle',
-    departure: { time: '2024-01-15T08:00:00+01:00', place: { type: 'place', location: { lat: 0, lng: 0 } } },
-    arrival: { time: '2024-01-15T18:00:00+01:00', place: { type: 'place', location: { lat: 0, lng: 0 } } },
+    departure: { time: '2024-01-15T08:00:00+01:00', place: { type: 'place', location: opts.from ?? { lat: 0, lng: 0 } } },
+    arrival: { time: '2024-01-15T18:00:00+01:00', place: { type: 'place', location: opts.to ?? { lat: 0, lng: 0 } } },
     summary: {
       duration: opts.durationSeconds,
       length: opts.lengthMeters,
@@ -386,7 +393,7 @@ describe('Golden case D: IT -> FR via Fréjus (Turin -> Bardonecchia -> Modane -
     expect(viaParams).toHaveLength(2);
     expect(viaParams[0]).toBe('45.0787,6.704!passThrough=true');
     expect(viaParams[1]).toBe('45.199,6.654!passThrough=true');
-    expect(url.searchParams.get('return')).toBe('summary,tolls,polyline,actions');
+    expect(url.searchParams.get('return')).toBe('summary,typicalDuration,tolls,polyline,actions');
     expect(url.searchParams.get('transportMode')).toBe('truck');
 
     // Masked URL in debug must not contain the API key
@@ -395,6 +402,118 @@ describe('Golden case D: IT -> FR via Fréjus (Turin -> Bardonecchia -> Modane -
   });
 });
 
+describe('Golden case F: PL -> SE (Poznań -> Malmö via Świnoujście – Ystad, solo_18t_23ep)', () => {
+  it('prices the ferry per crossing and adds the Scandinavia surcharge citing the country and ferry', async () => {
+    installFetchMock(buildRoutingResponse([
+      buildSection({ lengthMeters: 250000, durationSeconds: 4 * 3600, tollCountries: ['POL'] }),
+      buildSection({
+        lengthMeters: 180000,
+        durationSeconds: 7 * 3600,
+        ferry: true,
+        omitActions: true,
+        from: { lat: 53.905, lng: 14.262 },
+        to: { lat: 55.428, lng: 13.826 },
+      }),
+      // No tolls in Sweden: the Scandinavia flag comes from the geocoded destination
+      buildSection({ lengthMeters: 60000, durationSeconds: 3600 }),
+    ]));
+
+    const app = buildTestApp();
+    await app.ready();
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/quote',
+      payload: {
+        origin: { address: 'Poznań, Poland' },
+        destination: { address: 'Malmö, Sweden' },
+        vehicleProfileId: 'solo_18t_23ep',
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+
+    expect(body.quote.modelId).toBe('solo-pl-eu');
+    expect(body.routeFacts.geography.countriesCrossed).toEqual(['PL', 'SE']);
+    expect(body.routeFacts.riskFlags.isScandinavia).toBe(true);
+    expect(body.routeFacts.riskFlags.isIsland).toBe(false);
+    expect(body.routeFacts.infrastructure.ferryCrossings[0].crossingId).toBe('swinoujscie-ystad');
+
+    expect(body.quote.lineItems.surcharges).toEqual([
+      {
+        type: 'scandinavia',
+        description: 'Scandinavia surcharge',
+        amount: 150,
+        reason: 'Route reaches SE via ferry Świnoujście – Ystad',
+      },
+    ]);
+    expect(body.quote.lineItems.ferries).toEqual([
+      expect.objectContaining({ crossingId: 'swinoujscie-ystad', amount: 450 }),
+    ]);
+
+    // (490 + 200) * 1.0 + 450 ferry + 150 Scandinavia = 1290
+    expect(body.quote.lineItems.kmCharge).toBe(490);
+    expect(body.quote.lineItems.emptiesCharge).toBe(200);
+    expect(body.quote.finalPrice).toBe(1290);
+  });
+});
+
+describe('Golden case G: IT -> IE (Verona -> Dublin via Cherbourg – Rosslare, solo_18t_23ep)', () => {
+  it('prices the ferry per crossing and adds the island surcharge citing the destination and ferry', async () => {
+    installFetchMock(buildRoutingResponse([
+      buildSection({ lengthMeters: 1250000, durationSeconds: 15 * 3600, tollCountries: ['ITA', 'FRA'] }),
+      buildSection({
+        lengthMeters: 560000,
+        durationSeconds: 18 * 3600,
+        ferry: true,
+        omitActions: true,
+        from: { lat: 49.648, lng: -1.618 },
+        to: { lat: 52.252, lng: -6.336 },
+      }),
+      buildSection({ lengthMeters: 150000, durationSeconds: 2 * 3600 }),
+    ]));
+
+    const app = buildTestApp();
+    await app.ready();
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/quote',
+      payload: {
+        origin: { address: 'Verona, Italy' },
+        destination: { address: 'Dublin, Ireland' },
+        vehicleProfileId: 'solo_18t_23ep',
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+
+    expect(body.quote.modelId).toBe('solo-it-eu');
+    expect(body.routeFacts.geography.destinationCountry).toBe('IE');
+    expect(body.routeFacts.riskFlags.isIsland).toBe(true);
+    expect(body.routeFacts.riskFlags.isUK).toBe(false);
+
+    expect(body.quote.lineItems.surcharges).toEqual([
+      {
+        type: 'island',
+        description: 'Island delivery surcharge',
+        amount: 250,
+        reason: 'Destination IE reached by ferry Cherbourg – Rosslare',
+      },
+    ]);
+    expect(body.quote.lineItems.ferries).toEqual([
+      expect.objectContaining({ crossingId: 'cherbourg-rosslare', amount: 940 }),
+    ]);
+
+    // 1960 * 1.2 + 200 + 940 ferry + 250 island = 3742 (above the 1200 minimum)
+    expect(body.quote.lineItems.kmCharge).toBeCloseTo(2352, 2);
+    expect(body.quote.lineItems.minimumAdjustment).toBeNull();
+    expect(body.quote.finalPrice).toBe(3742);
+  });
+});
+
 describe('Golden case E: robustness', () => {
   it('does not crash when tolls, actions, and polyline are all missing', async () => {
     installFetchMock(buildRoutingResponse([
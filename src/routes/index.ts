@@ -1,2 +1,4 @@
 export { registerRouteFactsRoutes, createRouteFactsHandler } from './route-facts.js';
 export { registerQuoteRoutes, createQuoteHandler } from './quote.js';
+export { registerAdminRoutes, type AdminRoutesOptions } from './admin.js';
+export { registerVehicleProfileRoutes } from './vehicle-profiles.js';
@@ -179,6 +179,62 @@ describe('POST /api/quote', () => {
 
       expect(response.statusCode).toBe(400);
     });
+    it('returns 400 for a malformed pricingDateTime', async () => {
+      const app = buildApp({ hereService: createMockHereService() });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.52, lng: 13.405 },
+          destination: { lat: 45.46, lng: 9.19 },
+          vehicleProfileId: 'solo_18t_23ep',
+          pricingDateTime: 'next friday',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.details[0].path).toBe('pricingDateTime');
+    });
+
+    it('returns 400 for a malformed currency', async () => {
+      const app = buildApp({ hereService: createMockHereService() });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.52, lng: 13.405 },
+          destination: { lat: 45.46, lng: 9.19 },
+          vehicleProfileId: 'solo_18t_23ep',
+          currency: 'zloty',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.details[0].path).toBe('currency');
+    });
+
+    it('returns 400 for a shipment without dimensions', async () => {
+      const app = buildApp({ hereService: createMockHereService() });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.52, lng: 13.405 },
+          destination: { lat: 45.46, lng: 9.19 },
+          vehicleProfileId: 'solo_18t_23ep',
+          shipment: {},
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.details[0].path).toBe('shipment');
+    });
   });
 
   describe('successful quotes', () => {
@@ -318,11 +374,64 @@ describe('POST /api/quote', () => {
       const body = response.json();
 
       expect(body.quote.modelId).toBe('solo-pl-eu');
+      expect(body.quote.modelSelection.candidates[0]).toMatchObject({ modelId: 'solo-pl-eu', selected: true });
       // Verify country codes are in routeFacts (normalized to alpha-2)
       expect(body.routeFacts.geography.originCountry).toBe('PL');
       expect(body.routeFacts.geography.destinationCountry).toBe('DE');
     });
 
+    it('adds the cost and margin section only when includeMargin is set', async () => {
+      const mockService = createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+      const payload = {
+        origin: { lat: 52.23, lng: 21.01 },
+        destination: { lat: 52.52, lng: 13.405 },
+        vehicleProfileId: 'solo_18t_23ep',
+      };
+
+      const plain = await app.inject({ method: 'POST', url: '/api/quote', payload });
+      expect(plain.json().margin).toBeUndefined();
+
+      mockService.reverseGeocode = vi.fn()
+        .mockResolvedValueOnce({ countryCode: 'POL', label: 'Origin' })
+        .mockResolvedValueOnce({ countryCode: 'DEU', label: 'Destination' });
+      const withMargin = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: { ...payload, includeMargin: true },
+      });
+
+      expect(withMargin.statusCode).toBe(200);
+      const body = withMargin.json();
+      expect(body.margin.revenue).toBe(body.quote.finalPrice);
+      expect(body.margin.margin).toBeCloseTo(body.quote.finalPrice - body.margin.cost.total, 2);
+    });
+
+    it('carries reverse-geocoded postal codes into routeFacts', async () => {
+      const mockService = createMockHereService({ originCountry: 'ITA', destinationCountry: 'DEU' });
+      mockService.reverseGeocode = vi.fn()
+        .mockResolvedValueOnce({ countryCode: 'ITA', postalCode: '20121', label: 'Milano' })
+        .mockResolvedValueOnce({ countryCode: 'DEU', postalCode: '10117', label: 'Berlin' });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 45.46, lng: 9.19 },
+          destination: { lat: 52.52, lng: 13.405 },
+          vehicleProfileId: 'solo_18t_23ep',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.routeFacts.geography.originPostalCode).toBe('20121');
+      expect(body.routeFacts.geography.destinationPostalCode).toBe('10117');
+    });
+
     it('uses SOLO IT -> EU model for Italy origin', async () => {
       const mockService = createMockHereService({
         tollCountries: ['ITA', 'DEU'],
@@ -380,6 +489,563 @@ describe('POST /api/quote', () => {
       expect(body.error.message).toContain('PT');
       expect(body.error.message).not.toContain('unknown');
     });
+
+    it('explains rejected candidates in NO_MODEL_AVAILABLE details', async () => {
+      const mockService = createMockHereService({ originCountry: 'ESP', destinationCountry: 'PRT' });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 40.42, lng: -3.70 },
+          destination: { lat: 38.72, lng: -9.14 },
+          vehicleProfileId: 'solo_18t_23ep',
+        },
+      });
+
+      const { details } = response.json().error;
+      expect(details.origin).toEqual({ country: 'ES', postalCode: null, groups: ['EU'] });
+      expect(details.candidates.map((c: { modelId: string }) => c.modelId)).toEqual([
+        'solo-pl-eu',
+        'solo-it-uk',
+        'solo-it-eu',
+      ]);
+      expect(details.candidates[0].rejectionReasons).toEqual(['Origin ES is not in group PL']);
+    });
+  });
+
+  describe('partial loads', () => {
+    it('prices a shipment as a share of the vehicle', async () => {
+      const mockService = createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          vehicleProfileId: 'ftl_13_6_33ep',
+          shipment: { pallets: 11, weightKg: 4000 },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { quote } = response.json();
+      expect(quote.lineItems.partialLoad.sharePercent).toBe(33.33);
+      expect(quote.finalPrice).toBeLessThan(quote.lineItems.partialLoad.fullVehiclePrice);
+    });
+
+    it('returns 400 CAPACITY_EXCEEDED when the shipment does not fit', async () => {
+      const mockService = createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          vehicleProfileId: 'van_8ep',
+          shipment: { pallets: 12 },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      const { error } = response.json();
+      expect(error.code).toBe('CAPACITY_EXCEEDED');
+      expect(error.details).toEqual({
+        vehicleProfileId: 'van_8ep',
+        exceeded: [{ dimension: 'pallets', requested: 12, capacity: 8 }],
+      });
+    });
+  });
+
+  describe('ADR dangerous goods', () => {
+    it('routes with the ADR details and marks the route as ADR', async () => {
+      const mockService = createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          vehicleProfileId: 'solo_18t_23ep',
+          adr: { classes: ['3'], tunnelCode: 'D/E' },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const [params] = vi.mocked(mockService.routeTruck).mock.calls[0];
+      expect(params.adr).toEqual({ classes: ['3'], tunnelCode: 'D/E' });
+      expect(response.json().routeFacts.regulatory.adrRequired).toBe(true);
+    });
+
+    it('marks routes without ADR details as not ADR', async () => {
+      const mockService = createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          vehicleProfileId: 'solo_18t_23ep',
+        },
+      });
+
+      expect(response.json().routeFacts.regulatory.adrRequired).toBe(false);
+    });
+
+    it('returns 400 for an unknown ADR class', async () => {
+      const app = buildApp({ hereService: createMockHereService() });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          vehicleProfileId: 'solo_18t_23ep',
+          adr: { classes: ['10'] },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.details[0].path).toBe('adr.classes.0');
+    });
+  });
+
+  describe('departure time', () => {
+    it('routes with the departure time', async () => {
+      const mockService = createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          vehicleProfileId: 'solo_18t_23ep',
+          departureTime: '2026-10-19T06:00',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const [params] = vi.mocked(mockService.routeTruck).mock.calls[0];
+      expect(params.departureTime).toBe('2026-10-19T06:00');
+    });
+
+    it('routes every compared vehicle with the departure time', async () => {
+      const mockService = createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote/compare',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          vehicleProfileIds: ['van_8ep', 'ftl_13_6_33ep'],
+          departureTime: '2026-10-19T06:00:00Z',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const calls = vi.mocked(mockService.routeTruck).mock.calls;
+      expect(calls.map(([params]) => params.departureTime)).toEqual(['2026-10-19T06:00:00Z', '2026-10-19T06:00:00Z']);
+    });
+  });
+
+  describe('Channel crossing', () => {
+    // Ferry routes cross Calais - Dover; tunnel routes (HERE avoiding ferries)
+    // take Le Shuttle and come back tunnelRouteKm long (200 km shorter by default)
+    function withChannelRoutes(mockService: HereService, tunnelRouteKm = 600): HereService {
+      const routeTruck = vi.mocked(mockService.routeTruck);
+      const baseImplementation = routeTruck.getMockImplementation()!;
+      routeTruck.mockImplementation(async (params) => {
+        const result = await baseImplementation(params);
+        const tunnel = params.avoidFeatures?.includes('ferry') ?? false;
+        const hereResponse = structuredClone(result.hereResponse);
+        const [road] = hereResponse.routes[0].sections;
+        const crossing = structuredClone(road);
+        crossing.id = 'section-2';
+        crossing.type = tunnel ? 'transit' : 'ferry';
+        crossing.transport = { mode: tunnel ? 'carShuttleTrain' : 'ferry' };
+        crossing.departure.place.location = tunnel ? { lat: 50.9297, lng: 1.8125 } : { lat: 50.9513, lng: 1.8587 };
+        crossing.arrival.place.location = tunnel ? { lat: 51.0958, lng: 1.1368 } : { lat: 51.1279, lng: 1.3134 };
+        crossing.summary = { duration: 3600, length: 50000, baseDuration: 3600 };
+        crossing.tolls = undefined;
+        crossing.actions = [];
+        road.summary.length = ((tunnel ? tunnelRouteKm : 800) - 50) * 1000;
+        hereResponse.routes[0].sections.push(crossing);
+        return { ...result, hereResponse };
+      });
+      return mockService;
+    }
+
+    const ukPayload = {
+      origin: { lat: 52.23, lng: 21.01 },
+      destination: { lat: 51.5074, lng: -0.1278 },
+      vehicleProfileId: 'solo_18t_23ep',
+    };
+
+    it('routes a single crossing by avoiding the other one', async () => {
+      const mockService = withChannelRoutes(createMockHereService({ originCountry: 'POL', destinationCountry: 'GBR' }));
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: { ...ukPayload, channelCrossing: 'ferry' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockService.routeTruck).toHaveBeenCalledTimes(1);
+      const [params] = vi.mocked(mockService.routeTruck).mock.calls[0];
+      expect(params.avoidFeatures).toEqual(['carShuttleTrain']);
+      expect(response.json().channelCrossing).toBe('ferry');
+      expect(response.json().routeFacts.route.distanceKm).toBe(800);
+      expect(response.json().channelOptions).toBeUndefined();
+    });
+
+    it('quotes the cheaper crossing for cheapest', async () => {
+      const mockService = withChannelRoutes(createMockHereService({ originCountry: 'POL', destinationCountry: 'GBR' }));
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: { ...ukPayload, channelCrossing: 'cheapest' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockService.routeTruck).toHaveBeenCalledTimes(2);
+      const body = response.json();
+      expect(body.channelCrossing).toBe('tunnel');
+      expect(body.routeFacts.route.distanceKm).toBe(600);
+      expect(body.channelOptions).toBeUndefined();
+    });
+
+    it('returns both priced crossings for both', async () => {
+      const mockService = withChannelRoutes(createMockHereService({ originCountry: 'POL', destinationCountry: 'GBR' }));
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: { ...ukPayload, channelCrossing: 'both', includeMargin: true },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.channelOptions.map((option: { channelCrossing: string }) => option.channelCrossing))
+        .toEqual(['ferry', 'tunnel']);
+      const [ferry, tunnel] = body.channelOptions;
+      expect(ferry.routeFacts.route.distanceKm).toBe(800);
+      expect(tunnel.routeFacts.route.distanceKm).toBe(600);
+      expect(ferry.margin).toBeDefined();
+      expect(tunnel.quote.finalPrice).toBeLessThan(ferry.quote.finalPrice);
+      // The cheaper option is the headline quote
+      expect(body.channelCrossing).toBe('tunnel');
+      expect(body.quote).toEqual(tunnel.quote);
+    });
+
+    it('prices each crossing at its own fare instead of the flat UK ferry surcharge', async () => {
+      const mockService = withChannelRoutes(
+        createMockHereService({ originCountry: 'POL', destinationCountry: 'GBR' }),
+        800
+      );
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: { ...ukPayload, channelCrossing: 'both', includeMargin: true },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      const [ferry, tunnel] = body.channelOptions;
+      expect(tunnel.routeFacts.infrastructure.hasChannelTunnel).toBe(true);
+      expect(ferry.quote.lineItems.ferries).toEqual([expect.objectContaining({ crossingId: 'calais-dover', amount: 290 })]);
+      expect(ferry.quote.lineItems.channelTunnel).toBeNull();
+      expect(tunnel.quote.lineItems.channelTunnel).toEqual(expect.objectContaining({ amount: 320 }));
+      for (const option of [ferry, tunnel]) {
+        expect(option.quote.lineItems.surcharges.map((s: { type: string }) => s.type)).not.toContain('ukFerry');
+      }
+      expect(tunnel.margin.cost.channelTunnel).toBe(320);
+      // Same distance both ways: the Le Shuttle fare (320) loses to the ferry ticket (290)
+      expect(tunnel.quote.finalPrice - ferry.quote.finalPrice).toBe(30);
+      expect(body.channelCrossing).toBe('ferry');
+      expect(body.quote).toEqual(ferry.quote);
+    });
+
+    it('quotes the crossing that routed when the other one fails', async () => {
+      for (const preference of ['cheapest', 'both']) {
+        const mockService = withChannelRoutes(createMockHereService({ originCountry: 'POL', destinationCountry: 'GBR' }));
+        const routeTruck = vi.mocked(mockService.routeTruck);
+        const channelImplementation = routeTruck.getMockImplementation()!;
+        routeTruck.mockImplementation(async (params) => {
+          if (params.avoidFeatures?.includes('ferry')) throw new Error('No route found');
+          return channelImplementation(params);
+        });
+        const app = buildApp({ hereService: mockService });
+        await app.ready();
+
+        const response = await app.inject({
+          method: 'POST',
+          url: '/api/quote',
+          payload: { ...ukPayload, channelCrossing: preference },
+        });
+
+        expect(response.statusCode).toBe(200);
+        const body = response.json();
+        expect(body.channelCrossing).toBe('ferry');
+        expect(body.quote.warnings).toContain('tunnel crossing not quoted: No route found');
+        if (preference === 'both') {
+          expect(body.channelOptions.map((option: { channelCrossing: string }) => option.channelCrossing))
+            .toEqual(['ferry']);
+        }
+      }
+    });
+
+    it('ignores the preference with a warning off the Channel', async () => {
+      const mockService = withChannelRoutes(createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' }));
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          vehicleProfileId: 'solo_18t_23ep',
+          channelCrossing: 'both',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockService.routeTruck).toHaveBeenCalledTimes(1);
+      const [params] = vi.mocked(mockService.routeTruck).mock.calls[0];
+      expect(params.avoidFeatures).toBeUndefined();
+      const body = response.json();
+      expect(body.channelCrossing).toBeUndefined();
+      expect(body.quote.warnings).toContain('channelCrossing ignored: route does not cross the English Channel');
+    });
+
+    it('returns 400 for an unknown crossing', async () => {
+      const app = buildApp({ hereService: createMockHereService() });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: { ...ukPayload, channelCrossing: 'bridge' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.details[0].path).toBe('channelCrossing');
+    });
+  });
+
+  describe('waiting time', () => {
+    it('adds expected loading and unloading hours to the transit time', async () => {
+      const mockService = createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          vehicleProfileId: 'solo_18t_23ep',
+          loadingHours: 2,
+          unloadingHours: 1.5,
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { quote, routeFacts } = response.json();
+      expect(quote.transitTime.loadingHours).toBe(2);
+      expect(quote.transitTime.unloadingHours).toBe(1.5);
+      expect(quote.transitTime.totalHours).toBeCloseTo(routeFacts.route.durationHours + 3.5);
+    });
+
+    it('plans the transit from departureTime for the requested crew', async () => {
+      const payload = {
+        origin: { lat: 52.23, lng: 21.01 },
+        destination: { lat: 52.52, lng: 13.405 },
+        vehicleProfileId: 'solo_18t_23ep',
+        departureTime: '2026-10-19T08:00',
+      };
+
+      const single = buildApp({ hereService: createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' }) });
+      await single.ready();
+      const singlePlan = (await single.inject({ method: 'POST', url: '/api/quote', payload })).json().quote.transitTime.plan;
+
+      // 6.5 h route: one 45 min break for a single driver
+      expect(singlePlan.crew).toBe('single');
+      expect(singlePlan.departure).toBe('2026-10-19T08:00');
+      expect(singlePlan.timeZone).toBe('Europe/Warsaw');
+      expect(singlePlan.estimatedDelivery).toBe('2026-10-19T15:15');
+      expect(singlePlan.deliveryTimeZone).toBe('Europe/Berlin');
+
+      const double = buildApp({ hereService: createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' }) });
+      await double.ready();
+      const doublePlan = (
+        await double.inject({ method: 'POST', url: '/api/quote', payload: { ...payload, crew: 'double' } })
+      ).json().quote.transitTime.plan;
+
+      expect(doublePlan.crew).toBe('double');
+      expect(doublePlan.estimatedDelivery).toBe('2026-10-19T14:30');
+    });
+
+    it('dates the plan from pricingDateTime without a departureTime', async () => {
+      const app = buildApp({ hereService: createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' }) });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          vehicleProfileId: 'solo_18t_23ep',
+          pricingDateTime: '2026-10-19T08:00:00+02:00',
+        },
+      });
+
+      const { quote } = response.json();
+      expect(quote.transitTime.plan.departure).toBe('2026-10-19T08:00');
+      expect(quote.transitTime.plan.timeZone).toBe('Europe/Warsaw');
+      expect(quote.transitTime.plan.estimatedDelivery).toBe('2026-10-19T15:15');
+      expect(quote.warnings.some((w: string) => w.startsWith('Estimated delivery'))).toBe(false);
+    });
+
+    it('keeps pricingDateTime as the delivery time and warns when the plan arrives later', async () => {
+      const app = buildApp({ hereService: createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' }) });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          vehicleProfileId: 'solo_18t_23ep',
+          departureTime: '2026-10-19T08:00',
+          pricingDateTime: '2026-10-19T13:00',
+        },
+      });
+
+      const { quote } = response.json();
+      expect(quote.transitTime.plan.departure).toBe('2026-10-19T08:00');
+      expect(quote.transitTime.plan.estimatedDelivery).toBe('2026-10-19T15:15');
+      expect(quote.pricingDate).toBe('2026-10-19');
+      expect(quote.warnings).toContain(
+        'Estimated delivery 2026-10-19T15:15 Europe/Berlin is after pricingDateTime 2026-10-19T13:00; ' +
+        'surcharges are based on pricingDateTime'
+      );
+    });
+
+        it('returns 400 for negative waiting hours', async () => {
+      const app = buildApp({ hereService: createMockHereService() });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          vehicleProfileId: 'solo_18t_23ep',
+          unloadingHours: -1,
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.details[0].path).toBe('unloadingHours');
+    });
+  });
+
+  describe('multi-stop routes', () => {
+    it('routes stops without passThrough and passes them to pricing', async () => {
+      const mockService = createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          via: [
+            { address: 'Poznań, Poland', stopType: 'unloading' },
+            { address: 'Frankfurt (Oder), Germany' },
+          ],
+          vehicleProfileId: 'solo_18t_23ep',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const [params] = vi.mocked(mockService.routeTruck).mock.calls[0];
+      // geocode mock resolves every address to Berlin
+      expect(params.waypoints).toEqual([
+        { lat: 52.52, lng: 13.405, stop: true },
+        { lat: 52.52, lng: 13.405 },
+      ]);
+      const body = response.json();
+      expect(body.debug.resolvedPoints.waypoints.map((wp: { stopType: string }) => wp.stopType)).toEqual([
+        'unloading',
+        'passThrough',
+      ]);
+      // Default market models have no stop fees
+      expect(body.quote.lineItems.stops).toBeNull();
+      expect(body.quote.warnings).toContain(
+        'Route has 1 intermediate stop(s) but model solo-pl-eu has no stop fees; stops not charged'
+      );
+    });
+
+    it('returns 400 for an unknown stop type', async () => {
+      const app = buildApp({ hereService: createMockHereService() });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          waypoints: [{ lat: 52.41, lng: 16.93, stopType: 'lunch' }],
+          vehicleProfileId: 'solo_18t_23ep',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.details[0].path).toBe('waypoints.0.stopType');
+    });
   });
 
   describe('surcharges', () => {
@@ -461,6 +1127,30 @@ describe('POST /api/quote', () => {
       const body = response.json();
       expect(body.error.message).not.toContain('secret123');
     });
+
+    it('returns 400 NO_EXCHANGE_RATE for a currency without rates', async () => {
+      const mockService = createMockHereService({
+        tollCountries: ['POL', 'DEU'],
+        originCountry: 'POL',
+        destinationCountry: 'DEU',
+      });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          vehicleProfileId: 'solo_18t_23ep',
+          currency: 'CHF',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('NO_EXCHANGE_RATE');
+    });
   });
 
   describe('Alps debug config propagation', () => {
@@ -639,4 +1329,133 @@ describe('POST /api/quote', () => {
       expect(body.debug.hereResponse.alpsMatchDetails.frejus.matchReason).toBe('waypointProximity');
     });
   });
+
+  describe('POST /api/quote/compare', () => {
+    it('geocodes once and prices every vehicle profile that has a pricing model on its own route', async () => {
+      const mockService = createMockHereService({
+        tollCountries: ['POL', 'DEU'],
+        originCountry: 'POL',
+        destinationCountry: 'DEU',
+      });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote/compare',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 }, // Warsaw
+          destination: { lat: 52.52, lng: 13.405 }, // Berlin
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(mockService.reverseGeocode).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(mockService.routeTruck).mock.calls.map(([params]) => params.vehicleProfileId)).toEqual([
+        'van_8ep',
+        'solo_18t_23ep',
+        'ftl_13_6_33ep',
+      ]);
+      expect(body.quotes.map((q: { quote: { modelId: string } }) => q.quote.modelId)).toEqual([
+        'van-eu-eu',
+        'solo-pl-eu',
+        'ftl-pl-eu',
+      ]);
+      expect(body.quotes[0].routeFacts.geography.originCountry).toBe('PL');
+      expect(body.unavailable).toEqual([]);
+    });
+
+    it('reports profiles without a model instead of failing', async () => {
+      const mockService = createMockHereService({ originCountry: 'ESP', destinationCountry: 'PRT' });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote/compare',
+        payload: {
+          origin: { lat: 40.42, lng: -3.70 }, // Madrid
+          destination: { lat: 38.72, lng: -9.14 }, // Lisbon
+          vehicleProfileIds: ['solo_18t_23ep', 'van_8ep'],
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.quotes.map((q: { vehicleProfileId: string }) => q.vehicleProfileId)).toEqual(['van_8ep']);
+      expect(body.unavailable).toHaveLength(1);
+      expect(body.unavailable[0].vehicleProfileId).toBe('solo_18t_23ep');
+      expect(body.unavailable[0].message).toContain('No pricing model found');
+      expect(body.unavailable[0].modelSelection.candidates.length).toBeGreaterThan(0);
+    });
+
+    it('reports profiles too small for the shipment as unavailable', async () => {
+      const mockService = createMockHereService({ originCountry: 'POL', destinationCountry: 'DEU' });
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote/compare',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 52.52, lng: 13.405 },
+          shipment: { pallets: 12 },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.quotes.map((q: { vehicleProfileId: string }) => q.vehicleProfileId)).toEqual([
+        'solo_18t_23ep',
+        'ftl_13_6_33ep',
+      ]);
+      expect(body.unavailable).toEqual([{
+        vehicleProfileId: 'van_8ep',
+        message: 'Shipment exceeds the capacity of vehicle van_8ep: 12 pallets (capacity 8)',
+      }]);
+    });
+
+    it('rejects unknown vehicle profiles', async () => {
+      const app = buildApp({ hereService: createMockHereService() });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote/compare',
+        payload: {
+          origin: { address: 'Berlin' },
+          destination: { address: 'Warsaw' },
+          vehicleProfileIds: ['bicycle'],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('rejects a Channel crossing preference', async () => {
+      const mockService = createMockHereService();
+      const app = buildApp({ hereService: mockService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/quote/compare',
+        payload: {
+          origin: { lat: 52.23, lng: 21.01 },
+          destination: { lat: 51.5074, lng: -0.1278 },
+          channelCrossing: 'tunnel',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.details[0]).toEqual(expect.objectContaining({
+        path: 'channelCrossing',
+        message: 'channelCrossing is only supported by /api/quote',
+      }));
+      expect(mockService.routeTruck).not.toHaveBeenCalled();
+    });
+  });
 });
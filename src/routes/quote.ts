@@ -4,64 +4,168 @@
 
 import { z } from 'zod/v4';
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import type { HereService } from '../here/index.js';
+import {
+  ADR_CLASSES,
+  ADR_TUNNEL_CODES,
+  CHANNEL_CROSSINGS,
+  CHANNEL_ROUTE_AVOID_FEATURES,
+  VEHICLE_PROFILE_IDS,
+  VehicleProfileIdSchema,
+  channelRoutesFor,
+  type ChannelRoute,
+  type HereAvoidFeature,
+  type HereService,
+  type RouteTruckResult,
+  type VehicleProfileId,
+} from '../here/index.js';
 import { extractRouteFactsFromHere } from '../here/extract-route-facts.js';
-import { calculateQuote, type PricingResult, type QuoteOptions } from '../pricing/index.js';
+import {
+  calculateQuote,
+  calculateMargin,
+  CREW_TYPES,
+  hasPricingModels,
+  NoPricingModelError,
+  STOP_TYPES,
+  ShipmentCapacityError,
+  type MarginAnalysis,
+  type ModelSelection,
+  type PricingResult,
+  type QuoteOptions,
+  type Stop,
+} from '../pricing/index.js';
 import type { RouteFacts } from '../types/route-facts.js';
 import { ApiError, toApiError, type ApiErrorResponse } from '../errors.js';
+import { isUkCode, toAlpha2 } from '../geo/countries.js';
 import { applyResolvedGeography } from './geography.js';
 
-/**
- * Location point - either address or coordinates required
- */
-const LocationSchema = z.object({
+const LocationFieldsSchema = z.object({
   address: z.string().min(1).optional(),
   lat: z.number().min(-90).max(90).optional(),
   lng: z.number().min(-180).max(180).optional(),
+});
+
+const LOCATION_REQUIRED = {
+  message: 'Either address or both lat/lng coordinates are required',
+};
+
+function hasAddressOrCoordinates(data: z.infer<typeof LocationFieldsSchema>): boolean {
+  return Boolean(data.address || (data.lat !== undefined && data.lng !== undefined));
+}
+
+/**
+ * Location point - either address or coordinates required
+ */
+const LocationSchema = LocationFieldsSchema.refine(hasAddressOrCoordinates, LOCATION_REQUIRED);
+
+/**
+ * Waypoint - passed through by default, or a loading/unloading stop
+ */
+export const WaypointSchema = LocationFieldsSchema.extend({
+  stopType: z.enum(['passThrough', ...STOP_TYPES]).optional(),
+}).refine(hasAddressOrCoordinates, LOCATION_REQUIRED);
+
+type WaypointStopType = NonNullable<z.infer<typeof WaypointSchema>['stopType']>;
+
+/**
+ * Partial-load shipment - at least one dimension required
+ */
+const ShipmentSchema = z.object({
+  pallets: z.number().int().positive().optional(),
+  loadingMetres: z.number().positive().optional(),
+  weightKg: z.number().positive().optional(),
 }).refine(
-  (data) => data.address || (data.lat !== undefined && data.lng !== undefined),
-  { message: 'Either address or both lat/lng coordinates are required' }
+  (data) => data.pallets !== undefined || data.loadingMetres !== undefined || data.weightKg !== undefined,
+  { message: 'At least one of pallets, loadingMetres or weightKg is required' }
 );
 
 /**
- * Vehicle profile ID
+ * ADR dangerous goods: hazard classes and the tunnel restriction code
  */
-const VehicleProfileIdSchema = z.enum(['van_8ep', 'solo_18t_23ep', 'ftl_13_6_33ep']);
+export const AdrSchema = z.object({
+  classes: z.array(z.enum(ADR_CLASSES)).min(1),
+  tunnelCode: z.enum(ADR_TUNNEL_CODES).optional(),
+});
 
 /**
- * Quote request body schema
+ * Fields shared by single-vehicle quotes and comparisons
  * Accepts either 'waypoints' or 'via' (via is an alias for waypoints)
  */
-const QuoteRequestSchema = z.object({
+const QuoteRouteSchema = z.object({
   origin: LocationSchema,
   destination: LocationSchema,
-  waypoints: z.array(LocationSchema).optional(),
-  via: z.array(LocationSchema).optional(),
-  vehicleProfileId: VehicleProfileIdSchema,
+  waypoints: z.array(WaypointSchema).optional(),
+  via: z.array(WaypointSchema).optional(),
   // Pricing options
-  pricingDateTime: z.string().optional(),
+  // ISO datetime; without an offset it is read as destination local time
+  pricingDateTime: z.iso.datetime({ offset: true, local: true }).optional(),
+  // ISO departure time for time-aware routing and the transit plan; without an offset it is origin local time
+  departureTime: z.iso.datetime({ offset: true, local: true }).optional(),
   unloadingAfter14: z.boolean().optional(),
   isWeekend: z.boolean().optional(),
-}).transform((data) => ({
-  ...data,
-  // Use 'via' if 'waypoints' is not provided, internally use 'waypoints'
-  waypoints: data.waypoints ?? data.via,
-}));
+  // ISO 4217 quote currency; amounts are converted from the EUR base
+  currency: z.string().regex(/^[A-Za-z]{3}$/, 'Expected an ISO 4217 code like PLN')
+    .transform((code) => code.toUpperCase())
+    .optional(),
+  // Key account whose contract rate card is preferred over market models
+  customerId: z.string().min(1).max(64).optional(),
+  // Partial load priced as a share of the vehicle (full vehicle when omitted)
+  shipment: ShipmentSchema.optional(),
+  // Dangerous goods: routed with HERE hazardous-goods restrictions
+  adr: AdrSchema.optional(),
+  // Expected loading/unloading time in hours, for demurrage and transit time
+  loadingHours: z.number().nonnegative().max(72).optional(),
+  unloadingHours: z.number().nonnegative().max(72).optional(),
+  // Single driver or double-manned crew, for the driving and rest plan
+  crew: z.enum(CREW_TYPES).optional(),
+  // Internal cost and margin section (opt-in, not for customers)
+  includeMargin: z.boolean().optional(),
+});
+
+/**
+ * Use 'via' if 'waypoints' is not provided, internally use 'waypoints'
+ */
+function normalizeWaypoints<T extends z.infer<typeof QuoteRouteSchema>>(data: T): T {
+  return { ...data, waypoints: data.waypoints ?? data.via };
+}
 
-type QuoteRequest = z.infer<typeof QuoteRequestSchema>;
+/**
+ * Quote request body schema
+ */
+const QuoteRequestSchema = QuoteRouteSchema.extend({
+  vehicleProfileId: VehicleProfileIdSchema,
+  // English Channel crossing for UK routes (HERE picks either when omitted)
+  channelCrossing: z.enum(CHANNEL_CROSSINGS).optional(),
+}).transform(normalizeWaypoints);
+
+/**
+ * Comparison request body schema: one quote per vehicle profile
+ * (all profiles with pricing models when vehicleProfileIds is omitted)
+ */
+const QuoteCompareRequestSchema = QuoteRouteSchema.extend({
+  vehicleProfileIds: z.array(VehicleProfileIdSchema).min(1).optional(),
+  // Rejected rather than dropped: each profile would be priced by whichever crossing HERE picks
+  channelCrossing: z.never({ error: 'channelCrossing is only supported by /api/quote' }).optional(),
+}).transform(normalizeWaypoints);
+
+type QuoteRouteRequest = z.infer<typeof QuoteRouteSchema>;
 
 interface ResolvedPoint {
   lat: number;
   lng: number;
   label?: string;
   countryCode: string | null;
+  postalCode: string | null;
   source: 'provided' | 'geocoded';
 }
 
+interface ResolvedWaypoint extends ResolvedPoint {
+  stopType: WaypointStopType;
+}
+
 interface ResolvedPoints {
   origin: ResolvedPoint;
   destination: ResolvedPoint;
-  waypoints?: ResolvedPoint[];
+  waypoints?: ResolvedWaypoint[];
 }
 
 interface HereRequestDebug {
@@ -174,18 +278,53 @@ interface AlpsConfig {
   bboxes: AlpsBboxes;
 }
 
+interface QuoteDebug {
+  resolvedPoints: ResolvedPoints;
+  hereRequest: HereRequestDebug;
+  hereResponse: HereResponseDebug;
+  /** Alps tunnel detection configuration */
+  alpsConfig: AlpsConfig;
+  /** Distances from origin/waypoints/destination to tunnel centers */
+  alpsCenterDistances: AlpsCenterDistances;
+}
+
+interface ChannelOption {
+  channelCrossing: ChannelRoute;
+  quote: PricingResult;
+  /** Internal cost and margin (only with includeMargin) */
+  margin?: MarginAnalysis;
+  routeFacts: RouteFacts;
+}
+
 interface QuoteResponse {
   quote: PricingResult;
+  /** Internal cost and margin (only with includeMargin) */
+  margin?: MarginAnalysis;
   routeFacts: RouteFacts;
-  debug: {
-    resolvedPoints: ResolvedPoints;
-    hereRequest: HereRequestDebug;
-    hereResponse: HereResponseDebug;
-    /** Alps tunnel detection configuration */
-    alpsConfig: AlpsConfig;
-    /** Distances from origin/waypoints/destination to tunnel centers */
-    alpsCenterDistances: AlpsCenterDistances;
-  };
+  /** Channel crossing of the quoted route (UK routes with a channelCrossing preference) */
+  channelCrossing?: ChannelRoute;
+  /** Both priced crossings, ferry first (only with channelCrossing 'both') */
+  channelOptions?: ChannelOption[];
+  debug: QuoteDebug;
+}
+
+interface QuoteCompareResponse {
+  /** One quote per priced vehicle profile, in request order */
+  quotes: Array<{
+    vehicleProfileId: VehicleProfileId;
+    quote: PricingResult;
+    /** Internal cost and margin (only with includeMargin) */
+    margin?: MarginAnalysis;
+    routeFacts: RouteFacts;
+  }>;
+  /** Profiles without a matching pricing model or too small for the shipment */
+  unavailable: Array<{
+    vehicleProfileId: VehicleProfileId;
+    message: string;
+    /** Candidate models and their rejection reasons (absent when the shipment does not fit) */
+    modelSelection?: ModelSelection;
+  }>;
+  resolvedPoints: ResolvedPoints;
 }
 
 /**
@@ -203,6 +342,7 @@ async function resolvePoint(
       lng: location.lng,
       label: reverseResult.label || undefined,
       countryCode: reverseResult.countryCode,
+      postalCode: reverseResult.postalCode ?? null,
       source: 'provided',
     };
   }
@@ -215,6 +355,7 @@ async function resolvePoint(
       lng: result.lng,
       label: result.label,
       countryCode: result.countryCode,
+      postalCode: result.postalCode ?? null,
       source: 'geocoded',
     };
   }
@@ -222,6 +363,180 @@ async function resolvePoint(
   throw new Error('Either address or coordinates must be provided');
 }
 
+/**
+ * Build a validation error response from zod issues
+ */
+function validationErrorResponse(
+  reply: FastifyReply,
+  issues: z.core.$ZodIssue[]
+): ApiErrorResponse {
+  const validationError = new ApiError(
+    'VALIDATION_ERROR',
+    'Invalid request body',
+    400,
+    issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }))
+  );
+  reply.status(400);
+  return validationError.toResponse();
+}
+
+/**
+ * Resolve origin, destination and waypoints to coordinates and country codes
+ */
+async function resolveQuotePoints(
+  hereService: HereService,
+  body: QuoteRouteRequest
+): Promise<ResolvedPoints> {
+  const [origin, destination] = await Promise.all([
+    resolvePoint(hereService, body.origin),
+    resolvePoint(hereService, body.destination),
+  ]);
+
+  const resolvedPoints: ResolvedPoints = { origin, destination };
+
+  if (body.waypoints && body.waypoints.length > 0) {
+    resolvedPoints.waypoints = await Promise.all(
+      body.waypoints.map(async (wp) => ({
+        ...(await resolvePoint(hereService, wp)),
+        stopType: wp.stopType ?? 'passThrough',
+      }))
+    );
+  }
+
+  return resolvedPoints;
+}
+
+/**
+ * Route a vehicle between resolved points and build its RouteFacts
+ */
+async function routeVehicle(
+  hereService: HereService,
+  points: ResolvedPoints,
+  vehicleProfileId: VehicleProfileId,
+  body: QuoteRouteRequest,
+  avoidFeatures?: HereAvoidFeature[]
+): Promise<{ routeFacts: RouteFacts; routeResult: RouteTruckResult }> {
+  // Call HERE routing
+  const routeResult = await hereService.routeTruck({
+    origin: { lat: points.origin.lat, lng: points.origin.lng },
+    destination: { lat: points.destination.lat, lng: points.destination.lng },
+    waypoints: points.waypoints?.map((wp) => ({
+      lat: wp.lat,
+      lng: wp.lng,
+      ...(wp.stopType !== 'passThrough' ? { stop: true } : {}),
+    })),
+    vehicleProfileId,
+    adr: body.adr,
+    avoidFeatures,
+    departureTime: body.departureTime,
+  });
+
+  // Extract RouteFacts, passing the Alps match from route-truck
+  // (includes waypoint proximity detection when polyline decoding fails)
+  const routeFacts = extractRouteFactsFromHere(
+    routeResult.hereResponse,
+    routeResult.debug.alpsMatch
+  );
+
+  // Populate geography (alpha-2 codes, isInternational, isEU,
+  // countriesCrossed, riskFlags.isUK) from the resolved points.
+  // The pricing model selector consumes this same geography.
+  applyResolvedGeography(
+    routeFacts,
+    points.origin.countryCode,
+    points.destination.countryCode,
+    points.origin.postalCode,
+    points.destination.postalCode
+  );
+
+  // HERE does not report this back; the request decides it
+  routeFacts.regulatory.adrRequired = body.adr !== undefined;
+
+  return { routeFacts, routeResult };
+}
+
+/**
+ * Whether a route between the resolved points crosses the English Channel:
+ * Great Britain on one side, a continental country on the other
+ * (Ireland is reached by Irish Sea ferries, not the Channel)
+ */
+function crossesChannel(points: ResolvedPoints): boolean {
+  const countries = [points.origin, ...(points.waypoints ?? []), points.destination]
+    .map((point) => toAlpha2(point.countryCode))
+    .filter((code): code is string => code !== null);
+
+  return countries.some(isUkCode) && countries.some((code) => !isUkCode(code) && code !== 'IE');
+}
+
+/**
+ * Loading/unloading stops among the resolved waypoints, in route order
+ */
+function toStops(points: ResolvedPoints): Stop[] {
+  return (points.waypoints ?? []).flatMap((wp): Stop[] =>
+    wp.stopType === 'passThrough' ? [] : [{ type: wp.stopType, label: wp.label }]
+  );
+}
+
+/**
+ * Pricing options from the request body
+ */
+function toQuoteOptions(body: QuoteRouteRequest, points: ResolvedPoints): QuoteOptions {
+  return {
+    pricingDateTime: body.pricingDateTime,
+    departureTime: body.departureTime,
+    unloadingAfter14: body.unloadingAfter14,
+    isWeekend: body.isWeekend,
+    currency: body.currency,
+    customerId: body.customerId,
+    shipment: body.shipment,
+    stops: toStops(points),
+    loadingHours: body.loadingHours,
+    unloadingHours: body.unloadingHours,
+    crew: body.crew,
+  };
+}
+
+/**
+ * Debug section of a single quote: resolved points and HERE diagnostics
+ */
+function toQuoteDebug(resolvedPoints: ResolvedPoints, routeResult: RouteTruckResult): QuoteDebug {
+  return {
+    resolvedPoints,
+    hereRequest: {
+      maskedUrl: routeResult.debug.maskedUrl,
+      via: routeResult.debug.via,
+      viaCount: routeResult.debug.viaCount,
+    },
+    hereResponse: {
+      sectionsCount: routeResult.debug.sectionsCount,
+      actionsCountTotal: routeResult.debug.actionsCountTotal,
+      polylinePointsChecked: routeResult.debug.polylinePointsChecked,
+      alpsMatch: routeResult.debug.alpsMatch,
+      alpsMatchDetails: routeResult.debug.alpsMatchDetails,
+      polylineBounds: routeResult.debug.polylineSanity.polylineBounds,
+      polylineFirstPoint: routeResult.debug.polylineSanity.polylineFirstPoint,
+      polylineLastPoint: routeResult.debug.polylineSanity.polylineLastPoint,
+      polylineBoundsPlausible: routeResult.debug.polylineBoundsPlausible,
+      waypointProximity: routeResult.debug.waypointProximity,
+      alpsMatchReason: routeResult.debug.alpsMatchReason,
+      samples: routeResult.debug.samples,
+      polylineInputDiagnostics: routeResult.debug.polylineInputDiagnostics,
+      polylineSwapApplied: routeResult.debug.polylineSwapApplied,
+      decodedFirstTwoPointsBeforeFix: routeResult.debug.decodedFirstTwoPointsBeforeFix,
+      decodedFirstTwoPointsAfterFix: routeResult.debug.decodedFirstTwoPointsAfterFix,
+      firstPointLngPatched: routeResult.debug.firstPointLngPatched,
+      firstPointLngPatchReason: routeResult.debug.firstPointLngPatchReason,
+      firstPointOriginDistanceKmBefore: routeResult.debug.firstPointOriginDistanceKmBefore,
+      firstPointOriginDistanceKmAfter: routeResult.debug.firstPointOriginDistanceKmAfter,
+    },
+    alpsConfig: routeResult.debug.alpsConfig,
+    alpsCenterDistances: routeResult.debug.alpsCenterDistances,
+  };
+}
+
 /**
  * Create quote route handler
  */
@@ -234,114 +549,81 @@ export function createQuoteHandler(hereService: HereService) {
     const parseResult = QuoteRequestSchema.safeParse(request.body);
 
     if (!parseResult.success) {
-      const validationError = new ApiError(
-        'VALIDATION_ERROR',
-        'Invalid request body',
-        400,
-        parseResult.error.issues.map((issue) => ({
-          path: issue.path.join('.'),
-          message: issue.message,
-        }))
-      );
-      reply.status(400);
-      return validationError.toResponse();
+      return validationErrorResponse(reply, parseResult.error.issues);
     }
 
     const body = parseResult.data;
 
     try {
       // Resolve all points to coordinates
-      const [resolvedOrigin, resolvedDestination] = await Promise.all([
-        resolvePoint(hereService, body.origin),
-        resolvePoint(hereService, body.destination),
-      ]);
-
-      // Resolve waypoints if provided
-      let resolvedWaypoints: ResolvedPoint[] | undefined;
-      if (body.waypoints && body.waypoints.length > 0) {
-        resolvedWaypoints = await Promise.all(
-          body.waypoints.map((wp) => resolvePoint(hereService, wp))
-        );
-      }
-
-      // Call HERE routing
-      const routeResult = await hereService.routeTruck({
-        origin: { lat: resolvedOrigin.lat, lng: resolvedOrigin.lng },
-        destination: { lat: resolvedDestination.lat, lng: resolvedDestination.lng },
-        waypoints: resolvedWaypoints?.map((wp) => ({ lat: wp.lat, lng: wp.lng })),
-        vehicleProfileId: body.vehicleProfileId,
-      });
-
-      // Extract RouteFacts, passing the Alps match from route-truck
-      // (includes waypoint proximity detection when polyline decoding fails)
-      const routeFacts = extractRouteFactsFromHere(
-        routeResult.hereResponse,
-        routeResult.debug.alpsMatch
+      const resolvedPoints = await resolveQuotePoints(hereService, body);
+      const quoteOptions = toQuoteOptions(body, resolvedPoints);
+
+      // One route per requested Channel crossing, each avoiding the other one
+      const channelRoutes: Array<ChannelRoute | null> =
+        body.channelCrossing && crossesChannel(resolvedPoints) ? channelRoutesFor(body.channelCrossing) : [null];
+
+      // A crossing HERE cannot route (e.g. ADR on Le Shuttle) leaves the other one
+      const settled = await Promise.allSettled(
+        channelRoutes.map(async (channelCrossing) => {
+          const { routeFacts, routeResult } = await routeVehicle(
+            hereService,
+            resolvedPoints,
+            body.vehicleProfileId,
+            body,
+            channelCrossing ? CHANNEL_ROUTE_AVOID_FEATURES[channelCrossing] : undefined
+          );
+
+          // Calculate quote
+          const quote = calculateQuote(body.vehicleProfileId, routeFacts, quoteOptions);
+
+          return {
+            channelCrossing,
+            quote,
+            ...(body.includeMargin
+              ? { margin: calculateMargin(body.vehicleProfileId, routeFacts, quote) }
+              : {}),
+            routeFacts,
+            routeResult,
+          };
+        })
       );
-
-      // Populate geography (alpha-2 codes, isInternational, isEU,
-      // countriesCrossed, riskFlags.isUK) from the resolved points.
-      // The pricing model selector consumes this same geography.
-      applyResolvedGeography(
-        routeFacts,
-        resolvedOrigin.countryCode,
-        resolvedDestination.countryCode
+      const options = settled.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+      const failures = settled.flatMap((result, index) =>
+        result.status === 'rejected' ? [{ channelCrossing: channelRoutes[index], reason: result.reason }] : []
       );
+      if (options.length === 0) {
+        throw failures[0].reason;
+      }
 
-      // Calculate quote
-      const quoteOptions: QuoteOptions = {
-        pricingDateTime: body.pricingDateTime,
-        unloadingAfter14: body.unloadingAfter14,
-        isWeekend: body.isWeekend,
-      };
-
-      const quote = calculateQuote(body.vehicleProfileId, routeFacts, quoteOptions);
+      // Quote the cheaper crossing (ferry on a tie)
+      const { channelCrossing, routeResult, ...chosen } = options.reduce((best, option) =>
+        option.quote.finalPrice < best.quote.finalPrice ? option : best
+      );
 
-      // Build response
-      const resolvedPoints: ResolvedPoints = {
-        origin: resolvedOrigin,
-        destination: resolvedDestination,
-      };
+      for (const failure of failures) {
+        const reason = failure.reason instanceof Error ? failure.reason.message : String(failure.reason);
+        chosen.quote.warnings.push(`${failure.channelCrossing} crossing not quoted: ${reason}`);
+      }
 
-      if (resolvedWaypoints) {
-        resolvedPoints.waypoints = resolvedWaypoints;
+      if (body.channelCrossing && channelCrossing === null) {
+        chosen.quote.warnings.push('channelCrossing ignored: route does not cross the English Channel');
       }
 
       return {
-        quote,
-        routeFacts,
-        debug: {
-          resolvedPoints,
-          hereRequest: {
-            maskedUrl: routeResult.debug.maskedUrl,
-            via: routeResult.debug.via,
-            viaCount: routeResult.debug.viaCount,
-          },
-          hereResponse: {
-            sectionsCount: routeResult.debug.sectionsCount,
-            actionsCountTotal: routeResult.debug.actionsCountTotal,
-            polylinePointsChecked: routeResult.debug.polylinePointsChecked,
-            alpsMatch: routeResult.debug.alpsMatch,
-            alpsMatchDetails: routeResult.debug.alpsMatchDetails,
-            polylineBounds: routeResult.debug.polylineSanity.polylineBounds,
-            polylineFirstPoint: routeResult.debug.polylineSanity.polylineFirstPoint,
-            polylineLastPoint: routeResult.debug.polylineSanity.polylineLastPoint,
-            polylineBoundsPlausible: routeResult.debug.polylineBoundsPlausible,
-            waypointProximity: routeResult.debug.waypointProximity,
-            alpsMatchReason: routeResult.debug.alpsMatchReason,
-            samples: routeResult.debug.samples,
-            polylineInputDiagnostics: routeResult.debug.polylineInputDiagnostics,
-            polylineSwapApplied: routeResult.debug.polylineSwapApplied,
-            decodedFirstTwoPointsBeforeFix: routeResult.debug.decodedFirstTwoPointsBeforeFix,
-            decodedFirstTwoPointsAfterFix: routeResult.debug.decodedFirstTwoPointsAfterFix,
-            firstPointLngPatched: routeResult.debug.firstPointLngPatched,
-            firstPointLngPatchReason: routeResult.debug.firstPointLngPatchReason,
-            firstPointOriginDistanceKmBefore: routeResult.debug.firstPointOriginDistanceKmBefore,
-            firstPointOriginDistanceKmAfter: routeResult.debug.firstPointOriginDistanceKmAfter,
-          },
-          alpsConfig: routeResult.debug.alpsConfig,
-          alpsCenterDistances: routeResult.debug.alpsCenterDistances,
-        },
+        ...chosen,
+        ...(channelCrossing ? { channelCrossing } : {}),
+        ...(body.channelCrossing === 'both' && channelCrossing
+          ? {
+              channelOptions: options.map((option): ChannelOption => ({
+                channelCrossing: option.channelCrossing as ChannelRoute,
+                quote: option.quote,
+                ...(option.margin ? { margin: option.margin } : {}),
+                routeFacts: option.routeFacts,
+              })),
+            }
+          : {}),
+        debug: toQuoteDebug(resolvedPoints, routeResult),
       };
     } catch (error) {
       // Convert to standardized API error
@@ -355,6 +637,75 @@ export function createQuoteHandler(hereService: HereService) {
   };
 }
 
+/**
+ * Create vehicle comparison handler
+ * Geocodes once, then routes and prices every requested vehicle profile; a
+ * profile without a matching model is reported instead of failing the request.
+ */
+export function createQuoteCompareHandler(hereService: HereService) {
+  return async function quoteCompareHandler(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<QuoteCompareResponse | ApiErrorResponse> {
+    const parseResult = QuoteCompareRequestSchema.safeParse(request.body);
+
+    if (!parseResult.success) {
+      return validationErrorResponse(reply, parseResult.error.issues);
+    }
+
+    const body = parseResult.data;
+    const vehicleProfileIds = body.vehicleProfileIds
+      ? Array.from(new Set(body.vehicleProfileIds))
+      : VEHICLE_PROFILE_IDS.filter((id) => hasPricingModels(id, body.customerId));
+
+    try {
+      const resolvedPoints = await resolveQuotePoints(hereService, body);
+
+      // HERE routes differ by vehicle dimensions, so route each profile
+      const routes = await Promise.all(
+        vehicleProfileIds.map((id) => routeVehicle(hereService, resolvedPoints, id, body))
+      );
+
+      const quoteOptions = toQuoteOptions(body, resolvedPoints);
+      const quotes: QuoteCompareResponse['quotes'] = [];
+      const unavailable: QuoteCompareResponse['unavailable'] = [];
+
+      vehicleProfileIds.forEach((vehicleProfileId, index) => {
+        const { routeFacts } = routes[index];
+        try {
+          const quote = calculateQuote(vehicleProfileId, routeFacts, quoteOptions);
+          quotes.push({
+            vehicleProfileId,
+            quote,
+            ...(body.includeMargin ? { margin: calculateMargin(vehicleProfileId, routeFacts, quote) } : {}),
+            routeFacts,
+          });
+        } catch (error) {
+          if (error instanceof ShipmentCapacityError) {
+            unavailable.push({ vehicleProfileId, message: error.message });
+            return;
+          }
+          if (!(error instanceof NoPricingModelError)) throw error;
+          unavailable.push({
+            vehicleProfileId,
+            message: error.message,
+            modelSelection: error.selection,
+          });
+        }
+      });
+
+      return { quotes, unavailable, resolvedPoints };
+    } catch (error) {
+      const apiError = toApiError(error);
+
+      request.log.error({ error: apiError.message }, 'Quote comparison failed');
+
+      reply.status(apiError.statusCode);
+      return apiError.toResponse();
+    }
+  };
+}
+
 /**
  * Register quote routes
  */
@@ -362,4 +713,5 @@ export function registerQuoteRoutes(app: FastifyInstance, hereService: HereServi
   const handler = createQuoteHandler(hereService);
 
   app.post('/api/quote', handler);
+  app.post('/api/quote/compare', createQuoteCompareHandler(hereService));
 }
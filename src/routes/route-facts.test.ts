@@ -260,6 +260,24 @@ describe('POST /api/route-facts', () => {
 
       expect(response.statusCode).toBe(400);
     });
+
+    it('returns 400 for a departure time that is not an ISO datetime', async () => {
+      const app = buildApp({ hereService: mockHereService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/route-facts',
+        payload: {
+          origin: { lat: 52.52, lng: 13.405 },
+          destination: { lat: 52.2297, lng: 21.0122 },
+          vehicleProfileId: 'ftl_13_6_33ep',
+          departureTime: 'tomorrow 8am',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
   });
 
   describe('successful requests', () => {
@@ -357,6 +375,95 @@ describe('POST /api/route-facts', () => {
         vehicleProfileId: 'ftl_13_6_33ep',
       });
     });
+
+    it('forwards the departure time to routeTruck', async () => {
+      const app = buildApp({ hereService: mockHereService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/route-facts',
+        payload: {
+          origin: { lat: 52.52, lng: 13.405 },
+          destination: { lat: 52.2297, lng: 21.0122 },
+          vehicleProfileId: 'ftl_13_6_33ep',
+          departureTime: '2026-10-19T06:00:00+02:00',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockHereService.routeTruck).toHaveBeenCalledWith(
+        expect.objectContaining({ departureTime: '2026-10-19T06:00:00+02:00' })
+      );
+    });
+
+    it('routes dangerous goods and marks ADR as required', async () => {
+      const app = buildApp({ hereService: mockHereService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/route-facts',
+        payload: {
+          origin: { lat: 52.52, lng: 13.405 },
+          destination: { lat: 52.2297, lng: 21.0122 },
+          vehicleProfileId: 'ftl_13_6_33ep',
+          adr: { classes: ['3'], tunnelCode: 'D/E' },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockHereService.routeTruck).toHaveBeenCalledWith(
+        expect.objectContaining({ adr: { classes: ['3'], tunnelCode: 'D/E' } })
+      );
+      expect(response.json().routeFacts.regulatory.adrRequired).toBe(true);
+    });
+
+    it('marks ADR as not required without dangerous goods', async () => {
+      const app = buildApp({ hereService: mockHereService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/route-facts',
+        payload: {
+          origin: { lat: 52.52, lng: 13.405 },
+          destination: { lat: 52.2297, lng: 21.0122 },
+          vehicleProfileId: 'ftl_13_6_33ep',
+        },
+      });
+
+      expect(response.json().routeFacts.regulatory.adrRequired).toBe(false);
+    });
+
+    it('routes loading and unloading waypoints as stops', async () => {
+      const app = buildApp({ hereService: mockHereService });
+      await app.ready();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/route-facts',
+        payload: {
+          origin: { lat: 52.52, lng: 13.405 },
+          destination: { lat: 52.2297, lng: 21.0122 },
+          vehicleProfileId: 'ftl_13_6_33ep',
+          waypoints: [
+            { lat: 52.4064, lng: 16.9252, stopType: 'loading' },
+            { lat: 52.35, lng: 14.55 },
+          ],
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockHereService.routeTruck).toHaveBeenCalledWith(
+        expect.objectContaining({
+          waypoints: [
+            { lat: 52.4064, lng: 16.9252, stop: true },
+            { lat: 52.35, lng: 14.55 },
+          ],
+        })
+      );
+    });
   });
 
   describe('error handling', () => {
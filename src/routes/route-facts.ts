@@ -4,11 +4,12 @@
 
 import { z } from 'zod/v4';
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import type { HereService } from '../here/index.js';
+import { VehicleProfileIdSchema, type HereService } from '../here/index.js';
 import { extractRouteFactsFromHere } from '../here/extract-route-facts.js';
 import type { RouteFacts } from '../types/route-facts.js';
 import { ApiError, toApiError, type ApiErrorResponse } from '../errors.js';
 import { applyResolvedGeography } from './geography.js';
+import { AdrSchema, WaypointSchema } from './quote.js';
 
 /**
  * Location point - either address or coordinates required
@@ -22,11 +23,6 @@ const LocationSchema = z.object({
   { message: 'Either address or both lat/lng coordinates are required' }
 );
 
-/**
- * Vehicle profile ID
- */
-const VehicleProfileIdSchema = z.enum(['van_8ep', 'solo_18t_23ep', 'ftl_13_6_33ep']);
-
 /**
  * Request body schema
  * Accepts either 'waypoints' or 'via' (via is an alias for waypoints)
@@ -34,9 +30,13 @@ const VehicleProfileIdSchema = z.enum(['van_8ep', 'solo_18t_23ep', 'ftl_13_6_33e
 const RouteFactsRequestSchema = z.object({
   origin: LocationSchema,
   destination: LocationSchema,
-  waypoints: z.array(LocationSchema).optional(),
-  via: z.array(LocationSchema).optional(),
+  waypoints: z.array(WaypointSchema).optional(),
+  via: z.array(WaypointSchema).optional(),
   vehicleProfileId: VehicleProfileIdSchema,
+  // ISO departure time for time-aware routing; without an offset it is origin local time
+  departureTime: z.iso.datetime({ offset: true, local: true }).optional(),
+  // Dangerous goods: routed with HERE hazardous-goods restrictions
+  adr: AdrSchema.optional(),
 }).transform((data) => ({
   ...data,
   // Use 'via' if 'waypoints' is not provided, internally use 'waypoints'
@@ -50,13 +50,18 @@ interface ResolvedPoint {
   lng: number;
   label?: string;
   countryCode: string | null;
+  postalCode: string | null;
   source: 'provided' | 'geocoded';
 }
 
+interface ResolvedWaypoint extends ResolvedPoint {
+  stopType: NonNullable<z.infer<typeof WaypointSchema>['stopType']>;
+}
+
 interface ResolvedPoints {
   origin: ResolvedPoint;
   destination: ResolvedPoint;
-  waypoints?: ResolvedPoint[];
+  waypoints?: ResolvedWaypoint[];
 }
 
 interface HereRequestDebug {
@@ -198,6 +203,7 @@ async function resolvePoint(
       lng: location.lng,
       label: reverseResult.label || undefined,
       countryCode: reverseResult.countryCode,
+      postalCode: reverseResult.postalCode ?? null,
       source: 'provided',
     };
   }
@@ -210,6 +216,7 @@ async function resolvePoint(
       lng: result.lng,
       label: result.label,
       countryCode: result.countryCode,
+      postalCode: result.postalCode ?? null,
       source: 'geocoded',
     };
   }
@@ -252,10 +259,13 @@ export function createRouteFactsHandler(hereService: HereService) {
       ]);
 
       // Resolve waypoints if provided
-      let resolvedWaypoints: ResolvedPoint[] | undefined;
+      let resolvedWaypoints: ResolvedWaypoint[] | undefined;
       if (body.waypoints && body.waypoints.length > 0) {
         resolvedWaypoints = await Promise.all(
-          body.waypoints.map((wp) => resolvePoint(hereService, wp))
+          body.waypoints.map(async (wp) => ({
+            ...(await resolvePoint(hereService, wp)),
+            stopType: wp.stopType ?? 'passThrough',
+          }))
         );
       }
 
@@ -263,8 +273,15 @@ export function createRouteFactsHandler(hereService: HereService) {
       const routeResult = await hereService.routeTruck({
         origin: { lat: resolvedOrigin.lat, lng: resolvedOrigin.lng },
         destination: { lat: resolvedDestination.lat, lng: resolvedDestination.lng },
-        waypoints: resolvedWaypoints?.map((wp) => ({ lat: wp.lat, lng: wp.lng })),
+        // Stops are routed like /api/quote routes them: not passed through
+        waypoints: resolvedWaypoints?.map((wp) => ({
+          lat: wp.lat,
+          lng: wp.lng,
+          ...(wp.stopType !== 'passThrough' ? { stop: true } : {}),
+        })),
         vehicleProfileId: body.vehicleProfileId,
+        adr: body.adr,
+        departureTime: body.departureTime,
       });
 
       // Extract RouteFacts, passing the Alps match from route-truck
@@ -279,9 +296,14 @@ export function createRouteFactsHandler(hereService: HereService) {
       applyResolvedGeography(
         routeFacts,
         resolvedOrigin.countryCode,
-        resolvedDestination.countryCode
+        resolvedDestination.countryCode,
+        resolvedOrigin.postalCode,
+        resolvedDestination.postalCode
       );
 
+      // HERE does not report this back; the request decides it
+      routeFacts.regulatory.adrRequired = body.adr !== undefined;
+
       // Build response
       const resolvedPoints: ResolvedPoints = {
         origin: resolvedOrigin,
@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { buildApp } from '../app.js';
+
+describe('GET /api/vehicle-profiles', () => {
+  const app = buildApp({ serveFrontend: false });
+
+  beforeAll(async () => {
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('lists the registry with ids, labels and body attributes', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/vehicle-profiles' });
+
+    expect(response.statusCode).toBe(200);
+    const { profiles } = response.json();
+    expect(profiles.map((p: { id: string }) => p.id)).toEqual([
+      'van_8ep',
+      'solo_18t_23ep',
+      'ftl_13_6_33ep',
+      'ftl_mega_13_6_33ep',
+      'ftl_reefer_13_6_33ep',
+    ]);
+    expect(profiles[4]).toMatchObject({
+      id: 'ftl_reefer_13_6_33ep',
+      label: 'FTL Reefer 13.6m / 33 EP',
+      bodyType: 'reefer',
+      temperatureRange: { minC: -25, maxC: 25 },
+      trailerCount: 1,
+      emissionClass: 'euro6',
+    });
+  });
+});
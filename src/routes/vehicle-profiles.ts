@@ -0,0 +1,24 @@
+/**
+ * GET /api/vehicle-profiles endpoint
+ * Lists the vehicle profile registry so clients (the web form) do not keep
+ * their own copy.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { VEHICLE_PROFILES, VEHICLE_PROFILE_IDS, type VehicleProfile, type VehicleProfileId } from '../here/index.js';
+
+interface VehicleProfilesResponse {
+  /** Profiles in registry order */
+  profiles: Array<{ id: VehicleProfileId } & VehicleProfile>;
+}
+
+/**
+ * Register vehicle profile routes
+ */
+export function registerVehicleProfileRoutes(app: FastifyInstance) {
+  app.get('/api/vehicle-profiles', async (): Promise<VehicleProfilesResponse> => {
+    return {
+      profiles: VEHICLE_PROFILE_IDS.map((id) => ({ id, ...VEHICLE_PROFILES[id] })),
+    };
+  });
+}
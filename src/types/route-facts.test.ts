@@ -14,11 +14,15 @@ describe('RouteFacts Schema', () => {
     route: {
       distanceKm: 450.5,
       durationHours: 5.5,
+      baseDurationHours: 5,
+      typicalDurationHours: 5.25,
       sections: 3,
     },
     geography: {
       originCountry: 'DE',
       destinationCountry: 'PL',
+      originPostalCode: null,
+      destinationPostalCode: null,
       countriesCrossed: ['DE', 'PL'],
       isInternational: true,
       isEU: true,
@@ -26,6 +30,8 @@ describe('RouteFacts Schema', () => {
     infrastructure: {
       hasFerry: false,
       ferrySegments: 0,
+      ferryCrossings: [],
+      hasChannelTunnel: false,
       hasTollRoads: true,
       tollCountries: ['DE', 'PL'],
       tollCostEstimate: 45.0,
@@ -65,11 +71,15 @@ describe('RouteFacts Schema', () => {
         route: {
           distanceKm: 100,
           durationHours: null,
+          baseDurationHours: null,
+          typicalDurationHours: null,
           sections: null,
         },
         geography: {
           originCountry: null,
           destinationCountry: null,
+          originPostalCode: null,
+          destinationPostalCode: null,
           countriesCrossed: [],
           isInternational: null,
           isEU: null,
@@ -122,6 +132,22 @@ describe('RouteFacts Schema', () => {
       expect(result.success).toBe(true);
     });
 
+    it('accepts only registered ferry crossing ids', () => {
+      const withCrossing = (crossingId: string | null) => ({
+        ...validRouteFacts,
+        infrastructure: {
+          ...validRouteFacts.infrastructure,
+          hasFerry: true,
+          ferrySegments: 1,
+          ferryCrossings: [{ crossingId, name: null, durationHours: null, departsAfterHours: null }],
+        },
+      });
+
+      expect(RouteFactsSchema.safeParse(withCrossing('calais-dover')).success).toBe(true);
+      expect(RouteFactsSchema.safeParse(withCrossing(null)).success).toBe(true);
+      expect(RouteFactsSchema.safeParse(withCrossing('calais-hull')).success).toBe(false);
+    });
+
     it('validates warnings structure', () => {
       const withWarnings: RouteFacts = {
         ...validRouteFacts,
@@ -183,7 +209,7 @@ describe('RouteFacts Schema', () => {
 
     it('merges partial route data', () => {
       const facts = createRouteFacts({
-        route: { distanceKm: 250, durationHours: 3, sections: 2 },
+        route: { distanceKm: 250, durationHours: 3, baseDurationHours: 2.5, typicalDurationHours: null, sections: 2 },
       });
       expect(facts.route.distanceKm).toBe(250);
       expect(facts.route.durationHours).toBe(3);
@@ -195,6 +221,8 @@ describe('RouteFacts Schema', () => {
         geography: {
           originCountry: 'FR',
           destinationCountry: 'IT',
+          originPostalCode: null,
+          destinationPostalCode: null,
           countriesCrossed: ['FR', 'IT'],
           isInternational: true,
           isEU: true,
@@ -231,6 +259,8 @@ describe('RouteFacts Schema', () => {
         geography: {
           originCountry: 'DE',
           destinationCountry: 'FR',
+          originPostalCode: null,
+          destinationPostalCode: null,
           countriesCrossed: ['DE', 'FR'],
           isInternational: true,
           isEU: true,
@@ -249,6 +279,8 @@ describe('RouteFacts Schema', () => {
         infrastructure: {
           hasFerry: false,
           ferrySegments: 0,
+          ferryCrossings: [],
+          hasChannelTunnel: false,
           hasTollRoads: true,
           tollCountries: ['DE'],
           tollCostEstimate: null,
@@ -260,6 +292,8 @@ describe('RouteFacts Schema', () => {
         infrastructure: {
           hasFerry: false,
           ferrySegments: 0,
+          ferryCrossings: [],
+          hasChannelTunnel: false,
           hasTollRoads: true,
           tollCountries: ['DE', 'FR', 'IT'],
           tollCostEstimate: null,
@@ -1,4 +1,5 @@
 import { z } from 'zod/v4';
+import { FERRY_CROSSING_IDS } from '../here/ferry-crossings.js';
 
 /**
  * Tunnel information within a route
@@ -9,6 +10,20 @@ export const TunnelSchema = z.object({
   country: z.string().nullable(),
 });
 
+/**
+ * Ferry section of a route, matched to the ferry crossing registry
+ */
+export const FerryCrossingSchema = z.object({
+  /** Registry crossing id (null when the ports are not a known crossing) */
+  crossingId: z.enum(FERRY_CROSSING_IDS).nullable(),
+  /** Crossing name from the registry (null when unknown) */
+  name: z.string().nullable(),
+  /** Sailing time from HERE in hours (null when not reported) */
+  durationHours: z.number().nonnegative().nullable(),
+  /** Route time before the ferry departs in hours (null for ferries only seen in actions) */
+  departsAfterHours: z.number().nonnegative().nullable(),
+});
+
 /**
  * Warning from route provider
  */
@@ -23,6 +38,10 @@ export const WarningSchema = z.object({
 export const RouteSchema = z.object({
   distanceKm: z.number().nonnegative(),
   durationHours: z.number().nonnegative().nullable(),
+  /** Duration without traffic (HERE summary.baseDuration) */
+  baseDurationHours: z.number().nonnegative().nullable(),
+  /** Duration under typical traffic at the departure time (null when not reported) */
+  typicalDurationHours: z.number().nonnegative().nullable(),
   sections: z.number().int().nonnegative().nullable(),
 });
 
@@ -32,6 +51,9 @@ export const RouteSchema = z.object({
 export const GeographySchema = z.object({
   originCountry: z.string().nullable(),
   destinationCountry: z.string().nullable(),
+  /** Postal codes of the resolved origin/destination (from geocoding) */
+  originPostalCode: z.string().nullable(),
+  destinationPostalCode: z.string().nullable(),
   countriesCrossed: z.array(z.string()),
   isInternational: z.boolean().nullable(),
   isEU: z.boolean().nullable(),
@@ -43,8 +65,13 @@ export const GeographySchema = z.object({
 export const InfrastructureSchema = z.object({
   hasFerry: z.boolean(),
   ferrySegments: z.number().int().nonnegative(),
+  /** One entry per ferry segment, in route order */
+  ferryCrossings: z.array(FerryCrossingSchema),
+  /** Le Shuttle through the Channel Tunnel (car shuttle train section or Channel Tunnel match) */
+  hasChannelTunnel: z.boolean(),
   hasTollRoads: z.boolean(),
   tollCountries: z.array(z.string()),
+  /** Sum of HERE toll fares in EUR (null when HERE returned no usable fares) */
   tollCostEstimate: z.number().nonnegative().nullable(),
   hasTunnel: z.boolean(),
   tunnels: z.array(TunnelSchema),
@@ -96,6 +123,7 @@ export const RouteFactsSchema = z.object({
 
 // Type exports inferred from schemas
 export type Tunnel = z.infer<typeof TunnelSchema>;
+export type FerryCrossing = z.infer<typeof FerryCrossingSchema>;
 export type Warning = z.infer<typeof WarningSchema>;
 export type Route = z.infer<typeof RouteSchema>;
 export type Geography = z.infer<typeof GeographySchema>;
@@ -122,11 +150,15 @@ export const DEFAULT_ROUTE_FACTS: RouteFacts = {
   route: {
     distanceKm: 0,
     durationHours: null,
+    baseDurationHours: null,
+    typicalDurationHours: null,
     sections: null,
   },
   geography: {
     originCountry: null,
     destinationCountry: null,
+    originPostalCode: null,
+    destinationPostalCode: null,
     countriesCrossed: [],
     isInternational: null,
     isEU: null,
@@ -134,6 +166,8 @@ export const DEFAULT_ROUTE_FACTS: RouteFacts = {
   infrastructure: {
     hasFerry: false,
     ferrySegments: 0,
+    ferryCrossings: [],
+    hasChannelTunnel: false,
     hasTollRoads: false,
     tollCountries: [],
     tollCostEstimate: null,
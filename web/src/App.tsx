@@ -1,26 +1,91 @@
-import { useState } from 'react';
-import { requestQuote } from './api';
-import type { QuoteRequest, QuoteResponse } from './types';
+import { useEffect, useState } from 'react';
+import { fetchVehicleProfiles, requestQuote, requestQuoteComparison } from './api';
+import type {
+  AdrDetails,
+  QuoteCompareResponse,
+  QuoteRequest,
+  QuoteResponse,
+  Shipment,
+  StopType,
+  VehicleProfile,
+} from './types';
 import { QuoteForm, type FormState } from './components/QuoteForm';
 import { QuoteResult } from './components/QuoteResult';
 import { RouteFactsPanel } from './components/RouteFactsPanel';
 import { DebugPanel } from './components/DebugPanel';
+import { ModelSelectionPanel } from './components/ModelSelectionPanel';
 import { ErrorMessage } from './components/ErrorMessage';
+import { QuoteComparison } from './components/QuoteComparison';
+import { MarginPanel } from './components/MarginPanel';
+import { ChannelOptions } from './components/ChannelOptions';
+import { TransitPlanPanel } from './components/TransitPlanPanel';
 
 const INITIAL_FORM: FormState = {
   origin: '',
   destination: '',
   viaText: '',
   vehicleProfileId: 'solo_18t_23ep',
+  currency: 'EUR',
+  customerId: '',
+  compareVehicles: false,
+  includeMargin: false,
+  pallets: '',
+  loadingMetres: '',
+  weightKg: '',
+  loadingHours: '',
+  unloadingHours: '',
+  adrClasses: '',
+  adrTunnelCode: '',
+  pricingDateTime: '',
+  departureTime: '',
+  crew: 'single',
+  channelCrossing: '',
 };
 
+const STOP_PREFIXES: Array<[prefix: string, stopType: StopType]> = [
+  ['load:', 'loading'],
+  ['unload:', 'unloading'],
+];
+
+/** Waypoint from a via line; "load:" / "unload:" prefixes mark stops */
+function toWaypoint(line: string): { address: string; stopType?: StopType } {
+  const stop = STOP_PREFIXES.find(([prefix]) => line.toLowerCase().startsWith(prefix));
+  return stop ? { address: line.slice(stop[0].length).trim(), stopType: stop[1] } : { address: line };
+}
+
+/** ADR details from the dangerous-goods fields (undefined without classes) */
+function toAdr(form: FormState): AdrDetails | undefined {
+  const classes = form.adrClasses.split(/[\s,;]+/).filter((c) => c.length > 0);
+  if (classes.length === 0) return undefined;
+  return { classes, ...(form.adrTunnelCode ? { tunnelCode: form.adrTunnelCode } : {}) };
+}
+
+/** Shipment from the partial-load fields (undefined when all are empty) */
+function toShipment(form: FormState): Shipment | undefined {
+  const parse = (value: string) => (value.trim() ? Number(value) : undefined);
+  const shipment: Shipment = {
+    pallets: parse(form.pallets),
+    loadingMetres: parse(form.loadingMetres),
+    weightKg: parse(form.weightKg),
+  };
+  return Object.values(shipment).some((value) => value !== undefined) ? shipment : undefined;
+}
+
 export function App() {
   const [form, setForm] = useState<FormState>(INITIAL_FORM);
+  const [profiles, setProfiles] = useState<VehicleProfile[]>([]);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<QuoteResponse | null>(null);
+  const [comparison, setComparison] = useState<QuoteCompareResponse | null>(null);
   const [error, setError] = useState<unknown>(null);
   const [validationMessage, setValidationMessage] = useState<string | null>(null);
 
+  useEffect(() => {
+    fetchVehicleProfiles()
+      .then(({ profiles }) => setProfiles(profiles))
+      .catch(setError);
+  }, []);
+
   async function handleSubmit() {
     const origin = form.origin.trim();
     const destination = form.destination.trim();
@@ -28,6 +93,7 @@ export function App() {
     if (!origin || !destination) {
       setValidationMessage('Please enter both an origin and a destination address.');
       setResult(null);
+      setComparison(null);
       setError(null);
       return;
     }
@@ -37,22 +103,42 @@ export function App() {
       .split('\n')
       .map((line) => line.trim())
       .filter((line) => line.length > 0)
-      .map((address) => ({ address }));
+      .map(toWaypoint);
 
-    const payload: QuoteRequest = {
+    const shipment = toShipment(form);
+    const adr = toAdr(form);
+    const route = {
       origin: { address: origin },
       destination: { address: destination },
       ...(via.length > 0 ? { via } : {}),
-      vehicleProfileId: form.vehicleProfileId,
+      ...(form.currency !== 'EUR' ? { currency: form.currency } : {}),
+      ...(form.customerId.trim() ? { customerId: form.customerId.trim() } : {}),
+      ...(form.includeMargin ? { includeMargin: true } : {}),
+      ...(form.pricingDateTime ? { pricingDateTime: form.pricingDateTime } : {}),
+      ...(form.departureTime ? { departureTime: form.departureTime } : {}),
+      ...(form.crew !== 'single' ? { crew: form.crew } : {}),
+      ...(shipment ? { shipment } : {}),
+      ...(adr ? { adr } : {}),
+      ...(form.loadingHours.trim() ? { loadingHours: Number(form.loadingHours) } : {}),
+      ...(form.unloadingHours.trim() ? { unloadingHours: Number(form.unloadingHours) } : {}),
     };
 
     setLoading(true);
     setError(null);
+    setResult(null);
+    setComparison(null);
     try {
-      const response = await requestQuote(payload);
-      setResult(response);
+      if (form.compareVehicles) {
+        setComparison(await requestQuoteComparison(route));
+      } else {
+        const payload: QuoteRequest = {
+          ...route,
+          vehicleProfileId: form.vehicleProfileId,
+          ...(form.channelCrossing ? { channelCrossing: form.channelCrossing } : {}),
+        };
+        setResult(await requestQuote(payload));
+      }
     } catch (err) {
-      setResult(null);
       setError(err);
     } finally {
       setLoading(false);
@@ -66,7 +152,7 @@ export function App() {
         <p className="subtitle">Transport quote calculator</p>
       </header>
 
-      <QuoteForm form={form} loading={loading} onChange={setForm} onSubmit={handleSubmit} />
+      <QuoteForm form={form} profiles={profiles} loading={loading} onChange={setForm} onSubmit={handleSubmit} />
 
       {validationMessage && (
         <div className="card error-card" role="alert">
@@ -85,10 +171,16 @@ export function App() {
       {!loading && result && (
         <>
           <QuoteResult result={result} />
+          {result.channelOptions && <ChannelOptions options={result.channelOptions} />}
+          {result.quote.transitTime?.plan && <TransitPlanPanel plan={result.quote.transitTime.plan} />}
+          {result.margin && <MarginPanel margin={result.margin} />}
           <RouteFactsPanel routeFacts={result.routeFacts} />
+          <ModelSelectionPanel selection={result.quote.modelSelection} />
           <DebugPanel debug={result.debug} />
         </>
       )}
+
+      {!loading && comparison && <QuoteComparison comparison={comparison} profiles={profiles} />}
     </div>
   );
 }
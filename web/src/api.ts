@@ -1,4 +1,11 @@
-import type { ApiErrorBody, QuoteRequest, QuoteResponse } from './types';
+import type {
+  ApiErrorBody,
+  QuoteCompareRequest,
+  QuoteCompareResponse,
+  QuoteRequest,
+  QuoteResponse,
+  VehicleProfilesResponse,
+} from './types';
 
 /**
  * Error thrown for non-200 backend responses, carrying the structured
@@ -24,21 +31,9 @@ export class BackendUnavailableError extends Error {
 }
 
 /**
- * POST /api/quote - same-origin call; the dev server proxies to the backend,
- * and in production the backend serves this frontend. No API keys involved.
+ * Parse a JSON response, throwing QuoteApiError for non-200 statuses
  */
-export async function requestQuote(payload: QuoteRequest): Promise<QuoteResponse> {
-  let response: Response;
-  try {
-    response = await fetch('/api/quote', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
-    });
-  } catch {
-    throw new BackendUnavailableError();
-  }
-
+async function readJson<T>(response: Response): Promise<T> {
   let body: unknown = null;
   try {
     body = await response.json();
@@ -54,5 +49,49 @@ export async function requestQuote(payload: QuoteRequest): Promise<QuoteResponse
     throw new QuoteApiError('HTTP_ERROR', `Request failed with status ${response.status}`);
   }
 
-  return body as QuoteResponse;
+  return body as T;
+}
+
+/** GET a JSON resource from the same-origin backend. */
+async function getJson<T>(url: string): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new BackendUnavailableError();
+  }
+  return readJson<T>(response);
+}
+
+/**
+ * POST a JSON payload - same-origin call; the dev server proxies to the
+ * backend, and in production the backend serves this frontend. No API keys involved.
+ */
+async function postJson<T>(url: string, payload: unknown): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+  } catch {
+    throw new BackendUnavailableError();
+  }
+  return readJson<T>(response);
+}
+
+/** GET /api/vehicle-profiles - the backend's vehicle profile registry. */
+export function fetchVehicleProfiles(): Promise<VehicleProfilesResponse> {
+  return getJson<VehicleProfilesResponse>('/api/vehicle-profiles');
+}
+
+/** POST /api/quote - quote for one vehicle profile. */
+export function requestQuote(payload: QuoteRequest): Promise<QuoteResponse> {
+  return postJson<QuoteResponse>('/api/quote', payload);
+}
+
+/** POST /api/quote/compare - one quote per vehicle profile for the same route. */
+export function requestQuoteComparison(payload: QuoteCompareRequest): Promise<QuoteCompareResponse> {
+  return postJson<QuoteCompareResponse>('/api/quote/compare', payload);
 }
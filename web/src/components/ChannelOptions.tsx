@@ -0,0 +1,76 @@
+import type { ChannelOption } from '../types';
+
+function formatAmount(value: number, currency: string): string {
+  return value.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + ' ' + currency;
+}
+
+const CHANNEL_LABELS: Record<ChannelOption['channelCrossing'], string> = {
+  ferry: 'Ferry',
+  tunnel: 'Eurotunnel',
+};
+
+/** Ferry tickets, the Le Shuttle fare and the flat UK ferry surcharge */
+function crossingAmount(quote: ChannelOption['quote']): number {
+  const ferries = (quote.lineItems.ferries ?? []).reduce((sum, f) => sum + f.amount, 0);
+  const channelTunnel = quote.lineItems.channelTunnel?.amount ?? 0;
+  const ukFerry = quote.lineItems.surcharges
+    .filter((s) => s.type === 'ukFerry')
+    .reduce((sum, s) => sum + s.amount, 0);
+  return ferries + channelTunnel + ukFerry;
+}
+
+interface ChannelOptionsProps {
+  options: ChannelOption[];
+}
+
+/**
+ * Ferry and Eurotunnel quotes for the same UK route side by side; each
+ * crossing is its own HERE route.
+ */
+export function ChannelOptions({ options }: ChannelOptionsProps) {
+  return (
+    <div className="card">
+      <h3>Channel crossing options</h3>
+      <div className="comparison-grid">
+        {options.map(({ channelCrossing, quote, margin, routeFacts }) => (
+          <div key={channelCrossing} className="comparison-column">
+            <div className="field-label">{CHANNEL_LABELS[channelCrossing]}</div>
+            <div className="quote-price">{formatAmount(quote.finalPrice, 'EUR')}</div>
+            {quote.converted && (
+              <div className="quote-converted">
+                {formatAmount(quote.converted.finalPrice, quote.converted.currency)}
+              </div>
+            )}
+            <dl className="quote-summary">
+              <div>
+                <dt>Distance</dt>
+                <dd>{routeFacts.route.distanceKm.toLocaleString('en-GB')} km</dd>
+              </div>
+              <div>
+                <dt>Duration</dt>
+                <dd>{routeFacts.route.durationHours != null ? `${routeFacts.route.durationHours} h` : '–'}</dd>
+              </div>
+              <div>
+                <dt>Ferries</dt>
+                <dd>{formatAmount(crossingAmount(quote), 'EUR')}</dd>
+              </div>
+              <div>
+                <dt>Tolls</dt>
+                <dd>{formatAmount(quote.lineItems.tolls?.amount ?? 0, 'EUR')}</dd>
+              </div>
+              {margin && (
+                <div>
+                  <dt>Margin</dt>
+                  <dd className={margin.margin < 0 ? 'margin-negative' : undefined}>
+                    {formatAmount(margin.margin, 'EUR')}
+                    {margin.marginPercent != null && ` (${margin.marginPercent}%)`}
+                  </dd>
+                </div>
+              )}
+            </dl>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { BackendUnavailableError, QuoteApiError } from '../api';
+import type { ModelSelection } from '../types';
+import { ModelSelectionPanel } from './ModelSelectionPanel';
 
 interface ErrorMessageProps {
   error: unknown;
@@ -20,6 +22,11 @@ function describe(error: unknown): { title: string; detail?: string } {
           title: 'No pricing model available for this route',
           detail: error.message,
         };
+      case 'CAPACITY_EXCEEDED':
+        return {
+          title: 'Shipment does not fit the vehicle',
+          detail: error.message,
+        };
       case 'UPSTREAM_ERROR':
         return {
           title: 'HERE routing service error',
@@ -49,10 +56,19 @@ function describe(error: unknown): { title: string; detail?: string } {
 
 export function ErrorMessage({ error }: ErrorMessageProps) {
   const { title, detail } = describe(error);
+  // NO_MODEL_AVAILABLE details explain why each candidate model was rejected
+  const selection =
+    error instanceof QuoteApiError && error.code === 'NO_MODEL_AVAILABLE'
+      ? (error.details as ModelSelection | undefined)
+      : undefined;
+
   return (
-    <div className="card error-card" role="alert">
-      <strong>{title}</strong>
-      {detail && <p className="error-detail">{detail}</p>}
-    </div>
+    <>
+      <div className="card error-card" role="alert">
+        <strong>{title}</strong>
+        {detail && <p className="error-detail">{detail}</p>}
+      </div>
+      <ModelSelectionPanel selection={selection} open />
+    </>
   );
 }
@@ -0,0 +1,93 @@
+import type { MarginAnalysis } from '../types';
+
+function formatEur(value: number): string {
+  return value.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + ' EUR';
+}
+
+interface MarginPanelProps {
+  margin: MarginAnalysis;
+}
+
+/**
+ * Internal cost breakdown and the margin left by the market price.
+ * Not meant to be shared with customers.
+ */
+export function MarginPanel({ margin }: MarginPanelProps) {
+  const { cost } = margin;
+
+  return (
+    <div className="card">
+      <h3>Cost &amp; margin (internal)</h3>
+      <table className="line-items">
+        <tbody>
+          <tr>
+            <td>
+              Fuel <span className="muted">({cost.fuel.litres} l × {cost.fuel.pricePerLitre} EUR, {cost.fuel.priceSource})</span>
+            </td>
+            <td className="num">{formatEur(cost.fuel.amount)}</td>
+          </tr>
+          <tr>
+            <td>
+              Driver <span className="muted">({cost.driver.hours} h)</span>
+            </td>
+            <td className="num">{formatEur(cost.driver.amount)}</td>
+          </tr>
+          <tr>
+            <td>
+              Vehicle <span className="muted">({cost.vehicle.days} day{cost.vehicle.days > 1 ? 's' : ''})</span>
+            </td>
+            <td className="num">{formatEur(cost.vehicle.amount)}</td>
+          </tr>
+          <tr>
+            <td>Tolls</td>
+            <td className="num">{formatEur(cost.tolls)}</td>
+          </tr>
+          {cost.ferry.crossings > 0 && (
+            <tr>
+              <td>
+                Ferry <span className="muted">({cost.ferry.crossings} crossing{cost.ferry.crossings > 1 ? 's' : ''})</span>
+              </td>
+              <td className="num">{formatEur(cost.ferry.amount)}</td>
+            </tr>
+          )}
+          {!!cost.channelTunnel && (
+            <tr>
+              <td>Le Shuttle</td>
+              <td className="num">{formatEur(cost.channelTunnel)}</td>
+            </tr>
+          )}
+          <tr className="total-row">
+            <td>Total cost</td>
+            <td className="num">{formatEur(cost.total)}</td>
+          </tr>
+          {margin.costSharePercent < 100 && (
+            <tr>
+              <td>
+                Allocated to this load <span className="muted">({margin.costSharePercent}% of vehicle)</span>
+              </td>
+              <td className="num">{formatEur(margin.allocatedCost)}</td>
+            </tr>
+          )}
+          <tr className="total-row">
+            <td>Margin on {formatEur(margin.revenue)}</td>
+            <td className={`num${margin.margin < 0 ? ' margin-negative' : ''}`}>
+              {formatEur(margin.margin)}
+              {margin.marginPercent != null && ` (${margin.marginPercent}%)`}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {margin.warnings.length > 0 && (
+        <div className="warning-box">
+          <strong>Cost warnings</strong>
+          <ul>
+            {margin.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
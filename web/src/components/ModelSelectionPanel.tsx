@@ -0,0 +1,56 @@
+import type { LaneSideMatch, ModelSelection, SelectionPoint } from '../types';
+
+interface ModelSelectionPanelProps {
+  selection: ModelSelection | undefined;
+  /** Expanded by default (e.g. when no model was found) */
+  open?: boolean;
+}
+
+function describePoint(point: SelectionPoint): string {
+  const place = [point.country ?? '?', point.postalCode].filter(Boolean).join(' ');
+  return point.groups.length > 0 ? `${place} (${point.groups.join(', ')})` : place;
+}
+
+function LaneSide({ match }: { match: LaneSideMatch }) {
+  const ok = match.countryMatched && match.postalCodeMatched;
+  return <span className={ok ? 'flag-yes' : 'flag-no'}>{match.group}</span>;
+}
+
+/**
+ * Collapsible list of every candidate model in evaluation order, showing
+ * which lane side matched and why a model was rejected.
+ */
+export function ModelSelectionPanel({ selection, open = false }: ModelSelectionPanelProps) {
+  if (!selection) return null;
+
+  return (
+    <details className="card debug-panel" open={open}>
+      <summary>Model selection ({selection.candidates.length} candidates)</summary>
+      <p className="muted">
+        {describePoint(selection.origin)} → {describePoint(selection.destination)}, pricing date{' '}
+        {selection.pricingDate}
+      </p>
+      <table className="line-items">
+        <tbody>
+          {selection.candidates.map((candidate) => (
+            <tr
+              key={`${candidate.source}-${candidate.modelId}-${candidate.modelVersion}`}
+              className={candidate.selected ? 'surcharge-highlight' : undefined}
+            >
+              <td>
+                {candidate.modelName}{' '}
+                <span className="muted">
+                  v{candidate.modelVersion} · {candidate.source}
+                </span>
+              </td>
+              <td>
+                <LaneSide match={candidate.origin} /> → <LaneSide match={candidate.destination} />
+              </td>
+              <td>{candidate.selected ? 'selected' : candidate.rejectionReasons.join('; ')}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+}
@@ -0,0 +1,79 @@
+import type { QuoteCompareResponse, VehicleProfile, VehicleProfileId } from '../types';
+import { describeProfile } from './QuoteForm';
+
+function formatAmount(value: number, currency: string): string {
+  return value.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + ' ' + currency;
+}
+
+function profileLabel(profiles: VehicleProfile[], id: VehicleProfileId): string {
+  const profile = profiles.find((p) => p.id === id);
+  return profile ? describeProfile(profile) : id;
+}
+
+interface QuoteComparisonProps {
+  comparison: QuoteCompareResponse;
+  profiles: VehicleProfile[];
+}
+
+/**
+ * Side-by-side quotes for each vehicle profile on the same route; profiles
+ * without a pricing model are shown with the reason.
+ */
+export function QuoteComparison({ comparison, profiles }: QuoteComparisonProps) {
+  return (
+    <div className="card">
+      <h3>Vehicle comparison</h3>
+      <div className="comparison-grid">
+        {comparison.quotes.map(({ vehicleProfileId, quote, margin, routeFacts }) => (
+          <div key={vehicleProfileId} className="comparison-column">
+            <div className="field-label">{profileLabel(profiles, vehicleProfileId)}</div>
+            <div className="quote-price">{formatAmount(quote.finalPrice, 'EUR')}</div>
+            {quote.converted && (
+              <div className="quote-converted">
+                {formatAmount(quote.converted.finalPrice, quote.converted.currency)}
+              </div>
+            )}
+            <div className="quote-model">
+              {quote.modelName} <span className="badge">{quote.modelId}</span>
+            </div>
+            <dl className="quote-summary">
+              <div>
+                <dt>Distance</dt>
+                <dd>{routeFacts.route.distanceKm.toLocaleString('en-GB')} km</dd>
+              </div>
+              <div>
+                <dt>Duration</dt>
+                <dd>{routeFacts.route.durationHours != null ? `${routeFacts.route.durationHours} h` : '–'}</dd>
+              </div>
+              <div>
+                <dt>Surcharges</dt>
+                <dd>
+                  {formatAmount(
+                    quote.lineItems.surcharges.reduce((sum, s) => sum + s.amount, 0),
+                    'EUR'
+                  )}
+                </dd>
+              </div>
+              {margin && (
+                <div>
+                  <dt>Margin</dt>
+                  <dd className={margin.margin < 0 ? 'margin-negative' : undefined}>
+                    {formatAmount(margin.margin, 'EUR')}
+                    {margin.marginPercent != null && ` (${margin.marginPercent}%)`}
+                  </dd>
+                </div>
+              )}
+            </dl>
+          </div>
+        ))}
+        {comparison.unavailable.map(({ vehicleProfileId, message }) => (
+          <div key={vehicleProfileId} className="comparison-column">
+            <div className="field-label">{profileLabel(profiles, vehicleProfileId)}</div>
+            <div className="quote-price muted">Unavailable</div>
+            <p className="muted">{message}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
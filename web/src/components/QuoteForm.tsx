@@ -1,15 +1,41 @@
-import type { VehicleProfileId } from '../types';
+import type { ChannelCrossing, CrewType, VehicleProfile, VehicleProfileId } from '../types';
 
 export interface FormState {
   origin: string;
   destination: string;
   viaText: string;
   vehicleProfileId: VehicleProfileId;
+  /** Quote currency (EUR base is always shown) */
+  currency: string;
+  /** Key account id for contract rate cards (optional) */
+  customerId: string;
+  /** Quote every vehicle profile side by side instead of the selected one */
+  compareVehicles: boolean;
+  /** Request the internal cost and margin section */
+  includeMargin: boolean;
+  /** Partial-load shipment; all empty means a full vehicle */
+  pallets: string;
+  loadingMetres: string;
+  weightKg: string;
+  /** Expected loading / unloading hours for demurrage (optional) */
+  loadingHours: string;
+  unloadingHours: string;
+  /** ADR classes, comma separated (empty for non-dangerous goods) */
+  adrClasses: string;
+  /** ADR tunnel restriction code ('' when unrestricted) */
+  adrTunnelCode: string;
+  /** Delivery time for weekend / after-14:00 surcharges (datetime-local value, '' for none) */
+  pricingDateTime: string;
+  /** Departure for time-aware routing and the transit plan (datetime-local value, '' for now) */
+  departureTime: string;
+  crew: CrewType;
+  /** Channel crossing for UK routes ('' lets HERE choose) */
+  channelCrossing: ChannelCrossing | '';
 }
 
 interface Preset {
   label: string;
-  state: FormState;
+  state: Pick<FormState, 'origin' | 'destination' | 'viaText' | 'vehicleProfileId'>;
 }
 
 /** The four golden scenarios as one-click form presets (no auto-submit). */
@@ -37,20 +63,39 @@ const PRESETS: Preset[] = [
   },
 ];
 
-const VEHICLE_PROFILES: Array<{ id: VehicleProfileId; label: string }> = [
-  { id: 'solo_18t_23ep', label: 'Solo 18t / 23 EP' },
-  { id: 'van_8ep', label: 'Van 3.5t / 8 EP' },
-  { id: 'ftl_13_6_33ep', label: 'FTL 13.6m / 33 EP' },
+/** ADR tunnel restriction codes accepted by the backend. */
+const ADR_TUNNEL_CODES = ['B', 'B/D', 'B/E', 'C', 'C/D', 'C/E', 'D', 'D/E', 'E'];
+
+/** Channel crossing choices; the backend ignores them off UK routes. */
+const CHANNEL_CROSSING_OPTIONS: Array<[value: ChannelCrossing | '', label: string]> = [
+  ['', 'Any (HERE picks)'],
+  ['ferry', 'Ferry'],
+  ['tunnel', 'Eurotunnel'],
+  ['cheapest', 'Cheapest of both'],
+  ['both', 'Compare ferry and tunnel'],
 ];
 
+/** Quote currencies offered in the form; rates come from the backend table. */
+const CURRENCIES = ['EUR', 'PLN', 'GBP'];
+
+/** Option text for a profile: label, body type and temperature range for reefers */
+export function describeProfile(profile: VehicleProfile): string {
+  const temperature = profile.temperatureRange
+    ? `, ${profile.temperatureRange.minC} to ${profile.temperatureRange.maxC} °C`
+    : '';
+  return `${profile.label} (${profile.bodyType}${temperature})`;
+}
+
 interface QuoteFormProps {
   form: FormState;
+  /** Profiles from the backend registry (empty until loaded) */
+  profiles: VehicleProfile[];
   loading: boolean;
   onChange: (form: FormState) => void;
   onSubmit: () => void;
 }
 
-export function QuoteForm({ form, loading, onChange, onSubmit }: QuoteFormProps) {
+export function QuoteForm({ form, profiles, loading, onChange, onSubmit }: QuoteFormProps) {
   const set = (patch: Partial<FormState>) => onChange({ ...form, ...patch });
 
   return (
@@ -68,7 +113,7 @@ export function QuoteForm({ form, loading, onChange, onSubmit }: QuoteFormProps)
             key={preset.label}
             type="button"
             className="preset-btn"
-            onClick={() => onChange(preset.state)}
+            onClick={() => onChange({ ...form, ...preset.state })}
           >
             {preset.label}
           </button>
@@ -98,12 +143,13 @@ export function QuoteForm({ form, loading, onChange, onSubmit }: QuoteFormProps)
 
         <label className="field field-wide">
           <span className="field-label">
-            Via / waypoints <span className="muted">(optional, one per line)</span>
+            Via / waypoints{' '}
+            <span className="muted">(optional, one per line; prefix "load:" or "unload:" for stops)</span>
           </span>
           <textarea
             rows={3}
             value={form.viaText}
-            placeholder={'e.g.\nBardonecchia, Italy\nModane, France'}
+            placeholder={'e.g.\nBardonecchia, Italy\nunload: Modane, France'}
             onChange={(e) => set({ viaText: e.target.value })}
           />
         </label>
@@ -112,11 +158,189 @@ export function QuoteForm({ form, loading, onChange, onSubmit }: QuoteFormProps)
           <span className="field-label">Vehicle profile</span>
           <select
             value={form.vehicleProfileId}
+            disabled={form.compareVehicles}
             onChange={(e) => set({ vehicleProfileId: e.target.value as VehicleProfileId })}
           >
-            {VEHICLE_PROFILES.map((p) => (
+            {profiles.length === 0 && <option value={form.vehicleProfileId}>{form.vehicleProfileId}</option>}
+            {profiles.map((p) => (
               <option key={p.id} value={p.id}>
-                {p.label}
+                {describeProfile(p)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="field checkbox-field">
+          <input
+            type="checkbox"
+            checked={form.compareVehicles}
+            onChange={(e) => set({ compareVehicles: e.target.checked })}
+          />
+          <span>Compare all vehicles</span>
+        </label>
+
+        <label className="field checkbox-field">
+          <input
+            type="checkbox"
+            checked={form.includeMargin}
+            onChange={(e) => set({ includeMargin: e.target.checked })}
+          />
+          <span>
+            Show margin <span className="muted">(internal)</span>
+          </span>
+        </label>
+
+        <label className="field">
+          <span className="field-label">Currency</span>
+          <select value={form.currency} onChange={(e) => set({ currency: e.target.value })}>
+            {CURRENCIES.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="field">
+          <span className="field-label">
+            Customer ID <span className="muted">(optional, contract rates)</span>
+          </span>
+          <input
+            type="text"
+            value={form.customerId}
+            placeholder="e.g. ACME-001"
+            onChange={(e) => set({ customerId: e.target.value })}
+          />
+        </label>
+
+        <div className="field field-wide">
+          <span className="field-label">
+            Partial load <span className="muted">(optional, leave empty for a full vehicle)</span>
+          </span>
+          <div className="shipment-fields">
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={form.pallets}
+              placeholder="Pallets"
+              onChange={(e) => set({ pallets: e.target.value })}
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={form.loadingMetres}
+              placeholder="Loading metres"
+              onChange={(e) => set({ loadingMetres: e.target.value })}
+            />
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={form.weightKg}
+              placeholder="Weight (kg)"
+              onChange={(e) => set({ weightKg: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <label className="field">
+          <span className="field-label">
+            Loading time <span className="muted">(h, optional)</span>
+          </span>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={form.loadingHours}
+            onChange={(e) => set({ loadingHours: e.target.value })}
+          />
+        </label>
+
+        <label className="field">
+          <span className="field-label">
+            Unloading time <span className="muted">(h, optional)</span>
+          </span>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={form.unloadingHours}
+            onChange={(e) => set({ unloadingHours: e.target.value })}
+          />
+        </label>
+
+        <label className="field">
+          <span className="field-label">
+            ADR classes <span className="muted">(optional, e.g. 3, 8)</span>
+          </span>
+          <input
+            type="text"
+            value={form.adrClasses}
+            placeholder="Not dangerous goods"
+            onChange={(e) => set({ adrClasses: e.target.value })}
+          />
+        </label>
+
+        <label className="field">
+          <span className="field-label">ADR tunnel code</span>
+          <select
+            value={form.adrTunnelCode}
+            disabled={!form.adrClasses.trim()}
+            onChange={(e) => set({ adrTunnelCode: e.target.value })}
+          >
+            <option value="">None</option>
+            {ADR_TUNNEL_CODES.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="field">
+          <span className="field-label">
+            Delivery <span className="muted">(optional, destination time)</span>
+          </span>
+          <input
+            type="datetime-local"
+            value={form.pricingDateTime}
+            onChange={(e) => set({ pricingDateTime: e.target.value })}
+          />
+        </label>
+
+        <label className="field">
+          <span className="field-label">
+            Departure <span className="muted">(optional, origin time, after loading)</span>
+          </span>
+          <input
+            type="datetime-local"
+            value={form.departureTime}
+            onChange={(e) => set({ departureTime: e.target.value })}
+          />
+        </label>
+
+        <label className="field">
+          <span className="field-label">Crew</span>
+          <select value={form.crew} onChange={(e) => set({ crew: e.target.value as CrewType })}>
+            <option value="single">Single driver</option>
+            <option value="double">Double-manned</option>
+          </select>
+        </label>
+
+        <label className="field">
+          <span className="field-label">
+            Channel crossing <span className="muted">(UK routes)</span>
+          </span>
+          <select
+            value={form.channelCrossing}
+            disabled={form.compareVehicles}
+            onChange={(e) => set({ channelCrossing: e.target.value as ChannelCrossing | '' })}
+          >
+            {CHANNEL_CROSSING_OPTIONS.map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
               </option>
             ))}
           </select>
@@ -124,7 +348,7 @@ export function QuoteForm({ form, loading, onChange, onSubmit }: QuoteFormProps)
 
         <div className="field submit-field">
           <button type="submit" className="submit-btn" disabled={loading}>
-            {loading ? 'Calculating…' : 'Calculate quote'}
+            {loading ? 'Calculating…' : form.compareVehicles ? 'Compare vehicles' : 'Calculate quote'}
           </button>
         </div>
       </div>
@@ -1,7 +1,11 @@
 import type { QuoteResponse } from '../types';
 
+function formatAmount(value: number, currency: string): string {
+  return value.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + ' ' + currency;
+}
+
 function formatEur(value: number): string {
-  return value.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + ' EUR';
+  return formatAmount(value, 'EUR');
 }
 
 /** Surcharge types visually highlighted in the line items table. */
@@ -21,15 +25,35 @@ export function QuoteResult({ result }: QuoteResultProps) {
       <div className="quote-header">
         <div>
           <div className="quote-price">{formatEur(quote.finalPrice)}</div>
+          {quote.converted && (
+            <div className="quote-converted">
+              {formatAmount(quote.converted.finalPrice, quote.converted.currency)}{' '}
+              <span className="muted">
+                (1 EUR = {quote.converted.rate} {quote.converted.currency}, rate of {quote.converted.rateDate})
+              </span>
+            </div>
+          )}
           <div className="quote-model">
             {quote.modelName} <span className="badge">{quote.modelId}</span>
+            {quote.modelVersion != null && <span className="badge">v{quote.modelVersion}</span>}
+            {quote.source && (
+              <span className="badge">
+                {quote.source.type === 'contract' ? `contract ${quote.source.customerId}` : 'market'}
+              </span>
+            )}
           </div>
+          {quote.source?.fallbackReason && (
+            <div className="muted">{quote.source.fallbackReason}</div>
+          )}
         </div>
         <dl className="quote-summary">
           <div>
             <dt>Route</dt>
             <dd>
-              {geo.originCountry ?? '?'} → {geo.destinationCountry ?? '?'}
+              {geo.originCountry ?? '?'}
+              {geo.originPostalCode ? ` ${geo.originPostalCode}` : ''} →{' '}
+              {geo.destinationCountry ?? '?'}
+              {geo.destinationPostalCode ? ` ${geo.destinationPostalCode}` : ''}
             </dd>
           </div>
           <div>
@@ -38,8 +62,27 @@ export function QuoteResult({ result }: QuoteResultProps) {
           </div>
           <div>
             <dt>Duration</dt>
-            <dd>{routeFacts.route.durationHours != null ? `${routeFacts.route.durationHours} h` : '–'}</dd>
+            <dd>
+              {routeFacts.route.durationHours != null ? `${routeFacts.route.durationHours} h` : '–'}
+              {routeFacts.route.baseDurationHours != null && (
+                <span className="muted"> ({routeFacts.route.baseDurationHours} h without traffic
+                  {routeFacts.route.typicalDurationHours != null && `, ${routeFacts.route.typicalDurationHours} h typical`})
+                </span>
+              )}
+            </dd>
           </div>
+          {result.channelCrossing && (
+            <div>
+              <dt>Channel</dt>
+              <dd>{result.channelCrossing === 'tunnel' ? 'Eurotunnel' : 'Ferry'}</dd>
+            </div>
+          )}
+          {quote.transitTime && quote.transitTime.loadingHours + quote.transitTime.unloadingHours > 0 && (
+            <div>
+              <dt>Transit incl. loading</dt>
+              <dd>{quote.transitTime.totalHours != null ? `${quote.transitTime.totalHours} h` : '–'}</dd>
+            </div>
+          )}
         </dl>
       </div>
 
@@ -50,30 +93,126 @@ export function QuoteResult({ result }: QuoteResultProps) {
             <td>Km charge</td>
             <td className="num">{formatEur(lineItems.kmCharge)}</td>
           </tr>
+          {lineItems.kmBands?.map((band) => (
+            <tr key={band.fromKm} className="sub-row">
+              <td>
+                {band.description}
+                <div className="muted">
+                  {band.km.toLocaleString('en-GB')} km × {band.perKmRate} EUR/km
+                </div>
+              </td>
+              <td className="num">{formatEur(band.amount)}</td>
+            </tr>
+          ))}
           <tr>
             <td>Empties charge</td>
             <td className="num">{formatEur(lineItems.emptiesCharge)}</td>
           </tr>
+          {lineItems.fuel && (
+            <tr>
+              <td>{lineItems.fuel.description}</td>
+              <td className="num">{formatEur(lineItems.fuel.amount)}</td>
+            </tr>
+          )}
           {lineItems.surcharges.map((s) => (
             <tr key={s.type} className={HIGHLIGHTED_SURCHARGES.has(s.type) ? 'surcharge-highlight' : undefined}>
               <td>
                 {s.description} <span className="badge">{s.type}</span>
+                {s.reason && <div className="muted">{s.reason}</div>}
               </td>
               <td className="num">{formatEur(s.amount)}</td>
             </tr>
           ))}
+          {lineItems.stops?.map((stop) => (
+            <tr key={stop.stopNumber}>
+              <td>{stop.description}</td>
+              <td className="num">{formatEur(stop.amount)}</td>
+            </tr>
+          ))}
+          {lineItems.ferries?.map((ferry, index) => (
+            <tr key={`${ferry.crossingId}-${index}`}>
+              <td>
+                {ferry.description}
+                {ferry.markupPercent > 0 && <div className="muted">Ticket {formatEur(ferry.cost)}</div>}
+              </td>
+              <td className="num">{formatEur(ferry.amount)}</td>
+            </tr>
+          ))}
+          {lineItems.channelTunnel && (
+            <tr>
+              <td>
+                {lineItems.channelTunnel.description}
+                {lineItems.channelTunnel.markupPercent > 0 && (
+                  <div className="muted">Fare {formatEur(lineItems.channelTunnel.cost)}</div>
+                )}
+              </td>
+              <td className="num">{formatEur(lineItems.channelTunnel.amount)}</td>
+            </tr>
+          )}
+          {lineItems.tolls && (
+            <tr>
+              <td>
+                {lineItems.tolls.description} <span className="badge">{lineItems.tolls.mode}</span>
+                {lineItems.tolls.costEstimate != null && (
+                  <div className="muted">HERE estimate {formatEur(lineItems.tolls.costEstimate)}</div>
+                )}
+              </td>
+              <td className="num">{formatEur(lineItems.tolls.amount)}</td>
+            </tr>
+          )}
           {lineItems.minimumAdjustment != null && (
             <tr>
               <td>Minimum price adjustment</td>
               <td className="num">{formatEur(lineItems.minimumAdjustment)}</td>
             </tr>
           )}
+          {lineItems.partialLoad && (
+            <tr>
+              <td>
+                {lineItems.partialLoad.description}
+                <div className="muted">
+                  Full vehicle {formatEur(lineItems.partialLoad.fullVehiclePrice)}, billed{' '}
+                  {lineItems.partialLoad.billedSharePercent}%
+                </div>
+              </td>
+              <td className="num">{formatEur(lineItems.partialLoad.amount)}</td>
+            </tr>
+          )}
+          {lineItems.waitingTime && (
+            <tr>
+              <td>
+                {lineItems.waitingTime.description}
+                <div className="muted">
+                  Loading {lineItems.waitingTime.loadingHours} h (free {lineItems.waitingTime.freeLoadingHours} h),
+                  unloading {lineItems.waitingTime.unloadingHours} h (free {lineItems.waitingTime.freeUnloadingHours} h)
+                </div>
+              </td>
+              <td className="num">{formatEur(lineItems.waitingTime.amount)}</td>
+            </tr>
+          )}
+          {lineItems.rounding && (
+            <tr>
+              <td>{lineItems.rounding.description}</td>
+              <td className="num">{formatEur(lineItems.rounding.amount)}</td>
+            </tr>
+          )}
           <tr className="total-row">
             <td>Final price</td>
             <td className="num">{formatEur(quote.finalPrice)}</td>
           </tr>
         </tbody>
       </table>
+
+      {quote.warnings && quote.warnings.length > 0 && (
+        <div className="warning-box">
+          <strong>Pricing warnings</strong>
+          <ul>
+            {quote.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
@@ -38,8 +38,18 @@ export function RouteFactsPanel({ routeFacts }: RouteFactsPanelProps) {
             {infrastructure.hasFerry && infrastructure.ferrySegments > 0 && (
               <span className="muted"> ({infrastructure.ferrySegments} segment{infrastructure.ferrySegments > 1 ? 's' : ''})</span>
             )}
+            {infrastructure.ferryCrossings?.map((crossing, index) => (
+              <div key={index} className="muted">
+                {crossing.name ?? 'Unknown crossing'}
+                {crossing.durationHours != null && `, ${crossing.durationHours} h`}
+              </div>
+            ))}
           </dd>
         </div>
+        <div>
+          <dt>Channel Tunnel (Le Shuttle)</dt>
+          <dd><YesNo value={infrastructure.hasChannelTunnel ?? null} /></dd>
+        </div>
         <div>
           <dt>Toll roads</dt>
           <dd>
@@ -53,6 +63,10 @@ export function RouteFactsPanel({ routeFacts }: RouteFactsPanelProps) {
           <dt>Crosses Alps (Fréjus / Mont Blanc)</dt>
           <dd><YesNo value={riskFlags.crossesAlps} /></dd>
         </div>
+        <div>
+          <dt>ADR (dangerous goods)</dt>
+          <dd><YesNo value={regulatory.adrRequired ?? null} /></dd>
+        </div>
         <div>
           <dt>Tunnel</dt>
           <dd>
@@ -0,0 +1,73 @@
+import { Fragment } from 'react';
+import type { TransitPlan } from '../types';
+
+function formatHours(hours: number): string {
+  const whole = Math.floor(hours);
+  const minutes = Math.round((hours - whole) * 60);
+  return minutes > 0 ? `${whole} h ${minutes.toString().padStart(2, '0')} min` : `${whole} h`;
+}
+
+/** "2026-10-19T15:15" as "2026-10-19 15:15" */
+function formatLocal(value: string): string {
+  return value.replace('T', ' ');
+}
+
+interface TransitPlanPanelProps {
+  plan: TransitPlan;
+}
+
+/**
+ * Estimated delivery and the day-by-day driving and rest plan
+ * (EU 561/2006 limits for a single driver or a double-manned crew).
+ */
+export function TransitPlanPanel({ plan }: TransitPlanPanelProps) {
+  return (
+    <div className="card">
+      <h3>Transit plan ({plan.crew === 'double' ? 'double-manned' : 'single driver'})</h3>
+      <dl className="quote-summary">
+        <div>
+          <dt>Departure</dt>
+          <dd>
+            {plan.departure ? formatLocal(plan.departure) : '–'}
+            {plan.timeZone && <span className="muted"> {plan.timeZone}</span>}
+          </dd>
+        </div>
+        <div>
+          <dt>Estimated delivery</dt>
+          <dd>
+            {plan.estimatedDelivery ? formatLocal(plan.estimatedDelivery) : '–'}
+            {plan.deliveryTimeZone && <span className="muted"> {plan.deliveryTimeZone}</span>}
+          </dd>
+        </div>
+        <div>
+          <dt>Door to door</dt>
+          <dd>{formatHours(plan.totalHours)}</dd>
+        </div>
+      </dl>
+      {!plan.departure && <p className="muted">Set a departure time to get dates.</p>}
+      {plan.timeZone && <p className="muted">Activity times are origin local time ({plan.timeZone}).</p>}
+
+      <table className="line-items">
+        <tbody>
+          {plan.days.map((day) => (
+            <Fragment key={day.day}>
+              <tr className="total-row">
+                <td>Day {day.day}</td>
+                <td className="num">{formatHours(day.drivingHours)} driving</td>
+              </tr>
+              {day.activities.map((activity) => (
+                <tr key={`${day.day}-${activity.startsAfterHours}-${activity.type}`} className="sub-row">
+                  <td>
+                    {activity.description}
+                    {activity.start && <span className="muted"> from {formatLocal(activity.start)}</span>}
+                  </td>
+                  <td className="num">{formatHours(activity.hours)}</td>
+                </tr>
+              ))}
+            </Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -8,20 +8,207 @@ export interface SurchargeLineItem {
   type: string;
   description: string;
   amount: number;
+  reason?: string;
+}
+
+export interface TollLineItem {
+  mode: 'included' | 'passThrough';
+  description: string;
+  costEstimate: number | null;
+  markupPercent: number;
+  amount: number;
+}
+
+export interface FerryLineItem {
+  crossingId: string;
+  description: string;
+  cost: number;
+  markupPercent: number;
+  amount: number;
+}
+
+export interface ChannelTunnelLineItem {
+  description: string;
+  cost: number;
+  markupPercent: number;
+  amount: number;
+}
+
+export interface FuelLineItem {
+  description: string;
+  indexDate: string | null;
+  indexPricePerLitre: number | null;
+  basePricePerLitre: number;
+  sensitivityPercent: number;
+  percent: number;
+  amount: number;
+}
+
+export interface KmBandLineItem {
+  description: string;
+  fromKm: number;
+  toKm: number | null;
+  km: number;
+  perKmRate: number;
+  amount: number;
+}
+
+export type StopType = 'loading' | 'unloading';
+
+export interface StopLineItem {
+  stopNumber: number;
+  type: StopType;
+  description: string;
+  free: boolean;
+  amount: number;
+}
+
+export interface WaitingTimeLineItem {
+  description: string;
+  loadingHours: number;
+  unloadingHours: number;
+  freeLoadingHours: number;
+  freeUnloadingHours: number;
+  chargeableHours: number;
+  ratePerHour: number;
+  amount: number;
+}
+
+export type CrewType = 'single' | 'double';
+
+export interface TransitActivity {
+  type: 'loading' | 'driving' | 'break' | 'ferry' | 'dailyRest' | 'weeklyRest' | 'unloading';
+  description: string;
+  hours: number;
+  startsAfterHours: number;
+  /** Origin local time, null without departureTime */
+  start: string | null;
+}
+
+export interface TransitDay {
+  day: number;
+  drivingHours: number;
+  activities: TransitActivity[];
+}
+
+/** EU 561/2006 driving and rest plan */
+export interface TransitPlan {
+  crew: CrewType;
+  totalHours: number;
+  /** Origin local time */
+  departure: string | null;
+  timeZone: string | null;
+  /** Destination local time */
+  estimatedDelivery: string | null;
+  deliveryTimeZone: string | null;
+  days: TransitDay[];
+}
+
+export interface TransitTime {
+  drivingHours: number | null;
+  loadingHours: number;
+  unloadingHours: number;
+  totalHours: number | null;
+  plan?: TransitPlan | null;
+}
+
+export interface PartialLoadLineItem {
+  description: string;
+  pallets: number | null;
+  loadingMetres: number | null;
+  weightKg: number | null;
+  sharePercent: number;
+  billedSharePercent: number;
+  fullVehiclePrice: number;
+  amount: number;
+}
+
+export interface RoundingLineItem {
+  description: string;
+  mode: 'nearest' | 'up' | 'down';
+  step: number;
+  ending: number;
+  unroundedPrice: number;
+  amount: number;
+}
+
+export interface LineItems {
+  kmCharge: number;
+  kmBands?: KmBandLineItem[] | null;
+  emptiesCharge: number;
+  surcharges: SurchargeLineItem[];
+  stops?: StopLineItem[] | null;
+  tolls?: TollLineItem | null;
+  ferries?: FerryLineItem[] | null;
+  channelTunnel?: ChannelTunnelLineItem | null;
+  fuel?: FuelLineItem | null;
+  minimumAdjustment: number | null;
+  partialLoad?: PartialLoadLineItem | null;
+  waitingTime?: WaitingTimeLineItem | null;
+  rounding?: RoundingLineItem | null;
+}
+
+export interface ConvertedPrice {
+  currency: string;
+  rate: number;
+  rateDate: string;
+  lineItems: LineItems;
+  finalPrice: number;
+}
+
+export interface PricingSource {
+  type: 'contract' | 'market';
+  customerId: string | null;
+  fallbackReason?: string;
+}
+
+export interface LaneSideMatch {
+  group: string;
+  countryMatched: boolean;
+  postalCodeMatched: boolean;
+}
+
+export interface CandidateModel {
+  modelId: string;
+  modelName: string;
+  modelVersion: number;
+  source: 'contract' | 'market';
+  validOnPricingDate: boolean;
+  origin: LaneSideMatch;
+  destination: LaneSideMatch;
+  selected: boolean;
+  rejectionReasons: string[];
+}
+
+export interface SelectionPoint {
+  country: string | null;
+  postalCode: string | null;
+  groups: string[];
+}
+
+export interface ModelSelection {
+  vehicleProfileId: string;
+  pricingDate: string;
+  customerId: string | null;
+  origin: SelectionPoint;
+  destination: SelectionPoint;
+  candidates: CandidateModel[];
 }
 
 export interface Quote {
   modelId: string;
   modelName: string;
+  modelVersion?: number;
+  source?: PricingSource;
+  pricingDate?: string;
   distanceKm: number;
-  lineItems: {
-    kmCharge: number;
-    emptiesCharge: number;
-    surcharges: SurchargeLineItem[];
-    minimumAdjustment: number | null;
-  };
+  lineItems: LineItems;
   finalPrice: number;
   currency: string;
+  converted?: ConvertedPrice | null;
+  transitTime?: TransitTime;
+  warnings?: string[];
+  modelSelection?: ModelSelection;
 }
 
 export interface Tunnel {
@@ -30,15 +217,28 @@ export interface Tunnel {
   country: string | null;
 }
 
+export interface FerryCrossing {
+  crossingId: string | null;
+  name: string | null;
+  durationHours: number | null;
+  departsAfterHours?: number | null;
+}
+
 export interface RouteFacts {
   route: {
     distanceKm: number;
     durationHours: number | null;
+    /** Without traffic */
+    baseDurationHours?: number | null;
+    /** Typical traffic at the departure time */
+    typicalDurationHours?: number | null;
     sections: number | null;
   };
   geography: {
     originCountry: string | null;
     destinationCountry: string | null;
+    originPostalCode: string | null;
+    destinationPostalCode: string | null;
     countriesCrossed: string[];
     isInternational: boolean | null;
     isEU: boolean | null;
@@ -46,6 +246,8 @@ export interface RouteFacts {
   infrastructure: {
     hasFerry: boolean;
     ferrySegments: number;
+    ferryCrossings?: FerryCrossing[];
+    hasChannelTunnel?: boolean;
     hasTollRoads: boolean;
     tollCountries: string[];
     tollCostEstimate: number | null;
@@ -55,6 +257,7 @@ export interface RouteFacts {
   regulatory: {
     truckRestricted: boolean;
     restrictionReasons: string[];
+    adrRequired?: boolean | null;
   };
   riskFlags: {
     isUK: boolean;
@@ -84,9 +287,48 @@ export interface QuoteDebug {
   };
 }
 
+export interface CostBreakdown {
+  fuel: { litres: number; pricePerLitre: number; priceSource: 'index' | 'default'; amount: number };
+  driver: { hours: number; amount: number };
+  vehicle: { days: number; amount: number };
+  tolls: number;
+  ferry: { crossings: number; amount: number };
+  channelTunnel?: number;
+  total: number;
+}
+
+export interface MarginAnalysis {
+  vehicleProfileId: string;
+  cost: CostBreakdown;
+  revenue: number;
+  costSharePercent: number;
+  allocatedCost: number;
+  margin: number;
+  marginPercent: number | null;
+  warnings: string[];
+}
+
+/** Crossing a UK route was priced through */
+export type ChannelRoute = 'ferry' | 'tunnel';
+
+/** English Channel preference for UK routes */
+export type ChannelCrossing = ChannelRoute | 'cheapest' | 'both';
+
+export interface ChannelOption {
+  channelCrossing: ChannelRoute;
+  quote: Quote;
+  margin?: MarginAnalysis;
+  routeFacts: RouteFacts;
+}
+
 export interface QuoteResponse {
   quote: Quote;
+  margin?: MarginAnalysis;
   routeFacts: RouteFacts;
+  /** Crossing of the quoted route (UK routes with a channelCrossing preference) */
+  channelCrossing?: ChannelRoute;
+  /** Ferry and tunnel quotes (only with channelCrossing 'both') */
+  channelOptions?: ChannelOption[];
   debug?: QuoteDebug;
 }
 
@@ -98,11 +340,78 @@ export interface ApiErrorBody {
   };
 }
 
-export type VehicleProfileId = 'solo_18t_23ep' | 'van_8ep' | 'ftl_13_6_33ep';
+/** Profile ids come from GET /api/vehicle-profiles */
+export type VehicleProfileId = string;
+
+export type BodyType = 'box' | 'tautliner' | 'mega' | 'reefer';
+
+export interface VehicleProfile {
+  id: VehicleProfileId;
+  label: string;
+  bodyType: BodyType;
+  temperatureRange: { minC: number; maxC: number } | null;
+  grossWeight: number;
+  heightCm: number;
+  widthCm: number;
+  lengthCm: number;
+  axleCount: number;
+  trailerCount: number;
+  emissionClass: string;
+  capacity: { pallets: number; loadingMetres: number; payloadKg: number };
+}
+
+export interface VehicleProfilesResponse {
+  profiles: VehicleProfile[];
+}
+
+export interface Shipment {
+  pallets?: number;
+  loadingMetres?: number;
+  weightKg?: number;
+}
+
+export interface AdrDetails {
+  /** ADR classes, e.g. "3", "6.1" */
+  classes: string[];
+  tunnelCode?: string;
+}
 
 export interface QuoteRequest {
   origin: { address: string };
   destination: { address: string };
-  via?: Array<{ address: string }>;
+  via?: Array<{ address: string; stopType?: StopType }>;
   vehicleProfileId: VehicleProfileId;
+  currency?: string;
+  customerId?: string;
+  includeMargin?: boolean;
+  /** Local ISO delivery datetime at the destination, for timed surcharges */
+  pricingDateTime?: string;
+  /** Local ISO datetime at the origin, for time-aware routing and the transit plan */
+  departureTime?: string;
+  crew?: CrewType;
+  shipment?: Shipment;
+  loadingHours?: number;
+  unloadingHours?: number;
+  adr?: AdrDetails;
+  channelCrossing?: ChannelCrossing;
+}
+
+export interface QuoteCompareRequest extends Omit<QuoteRequest, 'vehicleProfileId' | 'channelCrossing'> {
+  /** Profiles to compare (all when omitted) */
+  vehicleProfileIds?: VehicleProfileId[];
+}
+
+export interface QuoteCompareResponse {
+  quotes: Array<{
+    vehicleProfileId: VehicleProfileId;
+    quote: Quote;
+    margin?: MarginAnalysis;
+    routeFacts: RouteFacts;
+  }>;
+  unavailable: Array<{
+    vehicleProfileId: VehicleProfileId;
+    message: string;
+    /** Absent when the shipment does not fit the vehicle */
+    modelSelection?: ModelSelection;
+  }>;
 }